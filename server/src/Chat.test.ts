@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { parseChatCommand, createWordFilter, ChatRateLimiter } from './Chat';
+
+describe('parseChatCommand', () => {
+  it('sends plain text to everyone', () => {
+    expect(parseChatCommand('  hello there ')).toEqual({ type: 'say', channel: 'all', message: 'hello there' });
+    expect(parseChatCommand('/all hi')).toEqual({ type: 'say', channel: 'all', message: 'hi' });
+  });
+
+  it('understands team chat and its short form', () => {
+    expect(parseChatCommand('/team push left')).toEqual({ type: 'say', channel: 'team', message: 'push left' });
+    expect(parseChatCommand('/T  push   left')).toEqual({ type: 'say', channel: 'team', message: 'push left' });
+  });
+
+  it('takes the first word of a whisper as the recipient', () => {
+    expect(parseChatCommand('/w Alice nice shot')).toEqual({ type: 'whisper', to: 'Alice', message: 'nice shot' });
+    expect(parseChatCommand('/msg Bob gg')).toEqual({ type: 'whisper', to: 'Bob', message: 'gg' });
+  });
+
+  it('mutes, unmutes and asks for help', () => {
+    expect(parseChatCommand('/mute Carol')).toEqual({ type: 'mute', username: 'Carol' });
+    expect(parseChatCommand('/unmute Carol')).toEqual({ type: 'unmute', username: 'Carol' });
+    expect(parseChatCommand('/help')).toEqual({ type: 'help' });
+    expect(parseChatCommand('/?')).toEqual({ type: 'help' });
+  });
+
+  it('explains commands missing what they need', () => {
+    expect(parseChatCommand('/team')).toEqual({ type: 'invalid', reason: 'Usage: /team <message>' });
+    expect(parseChatCommand('/w Alice')).toEqual({ type: 'invalid', reason: 'Usage: /w <player> <message>' });
+    expect(parseChatCommand('/mute')).toEqual({ type: 'invalid', reason: 'Usage: /mute <player>' });
+  });
+
+  it('rejects commands it does not know', () => {
+    expect(parseChatCommand('/dance')).toEqual({ type: 'invalid', reason: 'Unknown command /dance, try /help' });
+  });
+});
+
+describe('createWordFilter', () => {
+  it('masks whole listed words whatever their case', () => {
+    const filter = createWordFilter(['darn', ' heck ']);
+
+    expect(filter('Darn it, what the heck')).toBe('**** it, what the ****');
+    expect(filter('darning socks')).toBe('darning socks');
+  });
+
+  it('leaves messages alone without any words', () => {
+    expect(createWordFilter(['', ' '])('anything goes')).toBe('anything goes');
+  });
+});
+
+describe('ChatRateLimiter', () => {
+  it('holds back bursts until the window has passed', () => {
+    const limiter = new ChatRateLimiter();
+
+    for (let i = 0; i < 5; i++) {
+      expect(limiter.allow(1000 + i)).toBe(true);
+    }
+    expect(limiter.allow(1005)).toBe(false);
+    expect(limiter.allow(7000)).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * What a line typed into the chat box asks for
+ */
+export type ChatCommand =
+  | { type: 'say'; channel: 'all' | 'team'; message: string }
+  | { type: 'whisper'; to: string; message: string }
+  | { type: 'mute'; username: string }
+  | { type: 'unmute'; username: string }
+  | { type: 'help' }
+  | { type: 'invalid'; reason: string };
+
+/**
+ * Rewrites a message before anyone sees it, e.g. to mask profanity
+ */
+export type ChatFilter = (message: string) => string;
+
+export const CHAT_HELP = [
+  'Chat commands:',
+  '/all <message> - talk to everyone in the room (the default)',
+  '/team <message> (or /t) - talk to your team',
+  '/w <player> <message> - whisper to one player',
+  '/mute <player>, /unmute <player> - stop or start seeing a player\'s messages',
+  '/help - show this list'
+];
+
+// Chat rate limit
+const CHAT_WINDOW = 5000; // ms
+const MAX_CHAT_MESSAGES = 5;
+
+// How many messages new room members get to catch up on
+export const CHAT_HISTORY_LENGTH = 20;
+
+/**
+ * Work out what a chat line is for. Player names are the first word after
+ * commands that need one.
+ */
+export function parseChatCommand(text: string): ChatCommand {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('/')) return { type: 'say', channel: 'all', message: trimmed };
+
+  const [command, ...words] = trimmed.slice(1).split(/\s+/);
+  const rest = words.join(' ');
+
+  switch (command.toLowerCase()) {
+    case 'all':
+    case 'a':
+      return rest ? { type: 'say', channel: 'all', message: rest } : { type: 'invalid', reason: 'Usage: /all <message>' };
+    case 'team':
+    case 't':
+      return rest ? { type: 'say', channel: 'team', message: rest } : { type: 'invalid', reason: 'Usage: /team <message>' };
+    case 'w':
+    case 'whisper':
+    case 'msg':
+      return words.length >= 2
+        ? { type: 'whisper', to: words[0], message: words.slice(1).join(' ') }
+        : { type: 'invalid', reason: 'Usage: /w <player> <message>' };
+    case 'mute':
+      return words[0] ? { type: 'mute', username: words[0] } : { type: 'invalid', reason: 'Usage: /mute <player>' };
+    case 'unmute':
+      return words[0] ? { type: 'unmute', username: words[0] } : { type: 'invalid', reason: 'Usage: /unmute <player>' };
+    case 'help':
+    case '?':
+      return { type: 'help' };
+    default:
+      return { type: 'invalid', reason: `Unknown command /${command}, try /help` };
+  }
+}
+
+/**
+ * A filter that masks whole words from the list, ignoring case
+ */
+export function createWordFilter(words: string[]): ChatFilter {
+  const escaped = words
+    .map(word => word.trim())
+    .filter(word => word.length > 0)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  if (escaped.length === 0) return message => message;
+
+  const pattern = new RegExp(`\\b(${escaped.join('|')})\\b`, 'gi');
+  return message => message.replace(pattern, match => '*'.repeat(match.length));
+}
+
+/**
+ * Keeps a client from flooding the chat
+ */
+export class ChatRateLimiter {
+  private times: number[] = [];
+
+  /**
+   * Record a message and return whether it may be sent
+   */
+  public allow(now: number = Date.now()): boolean {
+    while (this.times.length > 0 && now - this.times[0] > CHAT_WINDOW) {
+      this.times.shift();
+    }
+
+    if (this.times.length >= MAX_CHAT_MESSAGES) return false;
+
+    this.times.push(now);
+    return true;
+  }
+}
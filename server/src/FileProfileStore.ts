@@ -0,0 +1,54 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { MemoryProfileStore, StoredProfile } from './ProfileStore';
+
+// Profiles change with every shot, so writes are batched up
+const SAVE_DELAY = 2000; // ms
+
+/**
+ * Keeps profiles in a JSON file so they survive server restarts
+ */
+export class FileProfileStore extends MemoryProfileStore {
+  private path: string;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(path: string) {
+    super(FileProfileStore.load(path));
+    this.path = path;
+    console.log(`Loaded ${this.profiles.size} profiles from ${path}`);
+  }
+
+  /**
+   * Write any pending changes right away
+   */
+  public flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    const data: StoredProfile[] = Array.from(this.profiles.values());
+
+    try {
+      // Write next to the file and swap it in, so a crash can't leave it half written
+      mkdirSync(dirname(this.path), { recursive: true });
+      writeFileSync(`${this.path}.tmp`, JSON.stringify(data));
+      renameSync(`${this.path}.tmp`, this.path);
+    } catch (error) {
+      console.error(`Failed to save profiles to ${this.path}:`, error);
+    }
+  }
+
+  protected changed(): void {
+    if (this.saveTimer) return;
+
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY);
+  }
+
+  private static load(path: string): StoredProfile[] {
+    if (!existsSync(path)) return [];
+
+    // Let a corrupt file stop the server rather than be overwritten with nothing
+    return JSON.parse(readFileSync(path, 'utf8')) as StoredProfile[];
+  }
+}
@@ -0,0 +1,26 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ReplayStore } from './ReplayStore';
+
+/**
+ * Writes each replay to its own file in a directory
+ */
+export class FileReplayStore implements ReplayStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  public save(name: string, data: Uint8Array): void {
+    const path = join(this.directory, name);
+
+    try {
+      mkdirSync(this.directory, { recursive: true });
+      writeFileSync(path, data);
+      console.log(`Saved replay ${path} (${Math.ceil(data.byteLength / 1024)} KB)`);
+    } catch (error) {
+      console.error(`Failed to save replay ${path}:`, error);
+    }
+  }
+}
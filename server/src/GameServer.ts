@@ -0,0 +1,847 @@
+import {
+  Room,
+  PlayerState,
+  toJoinedMessage,
+  DEFAULT_INTEREST_RADIUS,
+  DEFAULT_COUNTDOWN_DURATION,
+  TANK_MAX_HEALTH,
+  MAX_INPUT_BUDGET
+} from './Room';
+import { ServerConnection, ServerTransport } from './ServerTransport';
+import { WeaponState, TIMING_TOLERANCE } from './WeaponState';
+import { ModuleState } from './ModuleState';
+import { ViolationTracker } from './ViolationTracker';
+import { ProfileStore, MemoryProfileStore } from './ProfileStore';
+import { ReplayStore } from './ReplayStore';
+import { ChatFilter, ChatRateLimiter, CHAT_HELP, parseChatCommand } from './Chat';
+import {
+  PROTOCOL_VERSION,
+  ClientMessages,
+  ClientMessageType,
+  ChatMessage,
+  GameMode,
+  MatchEndedMessage,
+  PlayerHitMessage,
+  ProfileStats,
+  RoomInfo
+} from '../../shared/protocol';
+import { validateClientMessage, validateTick } from '../../shared/validation';
+import { SNAPSHOT_RATE } from '../../shared/SnapshotCodec';
+import { WEAPONS, DEFAULT_WEAPON } from '../../shared/Weapons';
+import { timeToTick } from '../../shared/SimulationClock';
+import { REPLAY_FILE_EXTENSION } from '../../shared/ReplayFormat';
+import { RESPAWN_DELAY } from '../../shared/Spawns';
+
+export interface GameServerOptions {
+  transport: ServerTransport;
+  interestRadius?: number; // How far from their tank players hear about other tanks
+  profiles?: ProfileStore; // Profiles are only kept in memory without one
+  chatFilter?: ChatFilter; // Applied to every chat message, e.g. to mask profanity
+  replays?: ReplayStore; // Matches are only recorded with one
+  countdownDuration?: number; // Seconds between everyone in a room being ready and the match starting
+}
+
+/**
+ * A client and the room it is in, if any. Sessions outlive their connection for a
+ * while so a client that drops can reconnect and pick up where it left off.
+ */
+interface ClientSession {
+  id: string;
+  token: string;
+  connection: ServerConnection;
+  room: Room | null;
+  expiryTimer: ReturnType<typeof setTimeout> | null;
+  violations: ViolationTracker;
+  profileId: string | null; // The profile the client logged in with, if any
+  chatLimiter: ChatRateLimiter;
+  mutedIds: Set<string>; // Clients whose chat messages this one doesn't want to see
+}
+
+// Channel of clients browsing the room list
+const LOBBY_CHANNEL = 'lobby';
+
+// How long a dropped session is kept for the client to resume
+const RESUME_WINDOW = 30000; // ms
+
+// How quickly the average tick time follows new measurements
+const TICK_TIME_SMOOTHING = 0.1;
+
+/**
+ * Runs lobby rooms and matches for whoever connects through the transport
+ */
+export class GameServer {
+  private transport: ServerTransport;
+  private interestRadius: number;
+  private profiles: ProfileStore;
+  private chatFilter: ChatFilter;
+  private replays: ReplayStore | null;
+  private countdownDuration: number;
+  private rooms: Map<string, Room> = new Map();
+  private sessions: Map<string, ClientSession> = new Map(); // By session token
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private tickTime: number = 0; // Smoothed time spent running a tick (ms)
+
+  constructor(options: GameServerOptions) {
+    this.transport = options.transport;
+    this.interestRadius = options.interestRadius || DEFAULT_INTEREST_RADIUS;
+    this.profiles = options.profiles || new MemoryProfileStore();
+    this.chatFilter = options.chatFilter || (message => message);
+    this.replays = options.replays || null;
+    this.countdownDuration = options.countdownDuration ?? DEFAULT_COUNTDOWN_DURATION;
+    this.transport.onConnection(this.handleConnection.bind(this));
+  }
+
+  public async start(): Promise<void> {
+    await this.transport.start();
+
+    // Send world state at a fixed rate rather than on every input
+    this.tickTimer = setInterval(() => this.tick(), 1000 / SNAPSHOT_RATE);
+  }
+
+  public async stop(): Promise<void> {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+
+    this.sessions.forEach(session => {
+      if (session.expiryTimer) clearTimeout(session.expiryTimer);
+    });
+
+    await this.transport.stop();
+
+    // Keep what was recorded of matches still going
+    this.rooms.forEach(room => this.saveReplay(room));
+    this.rooms.clear();
+    this.sessions.clear();
+  }
+
+  public getRoom(roomId: string): Room | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  private tick(): void {
+    const startedAt = performance.now();
+
+    this.rooms.forEach(room => room.tick());
+
+    const duration = performance.now() - startedAt;
+    this.tickTime += (duration - this.tickTime) * TICK_TIME_SMOOTHING;
+  }
+
+  /**
+   * How long ticks have been taking lately (ms); anything near the tick interval means the server is overloaded
+   */
+  public getTickTime(): number {
+    return this.tickTime;
+  }
+
+  private getRoomList(): RoomInfo[] {
+    return Array.from(this.rooms.values())
+      .filter(room => !room.isEmpty())
+      .map(room => room.getInfo());
+  }
+
+  private broadcastRoomList(): void {
+    this.transport.broadcast(LOBBY_CHANNEL, 'roomList', { rooms: this.getRoomList() });
+  }
+
+  /**
+   * Register a handler that only runs for payloads passing protocol validation.
+   * Handlers also get the tick the client sent the message at, or the current
+   * tick if it didn't send a valid one (as older clients don't).
+   */
+  private onMessage<K extends ClientMessageType>(
+    connection: ServerConnection,
+    clientId: string,
+    event: K,
+    handler: (data: ClientMessages[K], tick: number) => void
+  ): void {
+    const listener = (data: unknown, tick: unknown) => {
+      const result = validateClientMessage(event, data);
+
+      if (!result.ok) {
+        console.warn(`Rejected '${event}' from ${clientId}: ${result.reason}`);
+        return;
+      }
+
+      const tickResult = validateTick(tick);
+      handler(result.value, tickResult.ok ? tickResult.value : timeToTick(Date.now()));
+    };
+
+    connection.on(event, listener);
+  }
+
+  /**
+   * Register a handler for a message that only makes sense once the client is in a room
+   */
+  private onRoomMessage<K extends ClientMessageType>(
+    session: ClientSession,
+    event: K,
+    handler: (room: Room, data: ClientMessages[K], tick: number) => void
+  ): void {
+    this.onMessage(session.connection, session.id, event, (data, tick) => {
+      if (session.room) handler(session.room, data, tick);
+    });
+  }
+
+  private handleConnection(connection: ServerConnection): void {
+    // Wait for the client to introduce itself before doing anything else
+    this.onMessage(connection, connection.id, 'hello', (hello) => {
+      if (hello.protocolVersion !== PROTOCOL_VERSION) {
+        console.warn(`Client ${connection.id} uses protocol ${hello.protocolVersion}, expected ${PROTOCOL_VERSION}`);
+        connection.emit('rejected', {
+          reason: `Protocol version ${hello.protocolVersion} is not supported (server uses ${PROTOCOL_VERSION})`
+        });
+        connection.disconnect();
+        return;
+      }
+
+      // Ignore repeated handshakes
+      connection.removeAllListeners('hello');
+
+      const resumable = hello.resumeToken ? this.sessions.get(hello.resumeToken) : undefined;
+      const profile = hello.profileToken ? this.profiles.getByToken(hello.profileToken) : undefined;
+
+      if (resumable) {
+        this.resumeSession(resumable, connection);
+      } else {
+        this.startSession(connection, profile?.id || null);
+      }
+    });
+  }
+
+  private startSession(connection: ServerConnection, profileId: string | null): void {
+    const session: ClientSession = {
+      id: crypto.randomUUID(),
+      token: crypto.randomUUID(),
+      connection,
+      room: null,
+      expiryTimer: null,
+      violations: new ViolationTracker(),
+      profileId,
+      chatLimiter: new ChatRateLimiter(),
+      mutedIds: new Set()
+    };
+    this.sessions.set(session.token, session);
+
+    this.attachConnection(session, connection, false);
+    console.log(`Client ${session.id} connected`);
+
+    // New clients start out browsing the lobby
+    connection.join(LOBBY_CHANNEL);
+    connection.emit('roomList', { rooms: this.getRoomList() });
+  }
+
+  /**
+   * Move a session onto a new connection and bring the client back up to date
+   */
+  private resumeSession(session: ClientSession, connection: ServerConnection): void {
+    if (session.expiryTimer) {
+      clearTimeout(session.expiryTimer);
+      session.expiryTimer = null;
+    }
+
+    // The old connection may not have noticed it's dead yet
+    const previous = session.connection;
+    this.attachConnection(session, connection, true);
+    previous.disconnect();
+
+    console.log(`Client ${session.id} resumed its session`);
+
+    const room = session.room;
+    const netId = room?.getNetId(session.id);
+
+    if (!room || netId === undefined) {
+      connection.join(LOBBY_CHANNEL);
+      connection.emit('roomList', { rooms: this.getRoomList() });
+      return;
+    }
+
+    connection.join(room.getMemberChannel());
+    connection.emit('roomJoined', { room: room.getInfo(), netId });
+
+    if (room.getStatus() !== 'playing') return;
+
+    if (room.getPlayer(session.id) || room.isSpectating(session.id)) {
+      // Anything could have happened while we were away, so resend the world from scratch
+      connection.join(room.getChannel());
+      room.resetSnapshots(session.id);
+      connection.emit('playerList', {
+        players: room.getPlayers()
+          .filter(player => player.id !== session.id)
+          .map(toJoinedMessage)
+      });
+      connection.emit('pickupList', room.getPickupList());
+
+      // Along with how our own tank fared, in case it was hit or killed meanwhile
+      const player = room.getPlayer(session.id);
+      if (player) {
+        connection.emit('playerState', {
+          position: player.position,
+          heading: player.heading,
+          speed: player.speed,
+          lastProcessedInput: player.lastProcessedInput,
+          health: player.health,
+          dead: player.health <= 0
+        });
+      }
+    } else {
+      connection.emit('matchStarted', room.getMatchStarted());
+    }
+  }
+
+  /**
+   * Move the session onto a connection and start handling its messages
+   */
+  private attachConnection(session: ClientSession, connection: ServerConnection, resumed: boolean): void {
+    session.connection = connection;
+
+    // Put the connection in the client's own channel so it can be excluded from broadcasts
+    connection.join(session.id);
+
+    connection.emit('welcome', {
+      protocolVersion: PROTOCOL_VERSION,
+      clientId: session.id,
+      sessionToken: session.token,
+      resumed,
+      profile: session.profileId ? this.profiles.get(session.profileId) : undefined
+    });
+
+    this.onMessage(connection, session.id, 'ping', (data) => {
+      connection.emit('pong', { ...data, serverTime: Date.now(), tickTime: this.tickTime });
+    });
+
+    this.registerProfileHandlers(session, connection);
+    this.registerLobbyHandlers(session, connection);
+    this.registerGameHandlers(session, connection);
+
+    connection.onDisconnect((reason, intentional) => {
+      // Replaced by a newer connection
+      if (session.connection !== connection) return;
+
+      if (intentional) {
+        this.endSession(session);
+        return;
+      }
+
+      // Keep the session (and the player's tank) around in case the client comes back
+      console.log(`Client ${session.id} dropped (${reason}), keeping session for ${RESUME_WINDOW / 1000}s`);
+      session.expiryTimer = setTimeout(() => this.endSession(session), RESUME_WINDOW);
+    });
+  }
+
+  /**
+   * Note a message that broke the game's rules. Clients that keep doing it are kicked.
+   */
+  private reportViolation(session: ClientSession, reason: string): void {
+    console.warn(`Client ${session.id} ${reason}`);
+
+    if (!session.violations.record()) return;
+
+    console.warn(`Kicking client ${session.id} for repeated violations`);
+    session.connection.emit('kicked', { reason: `Kicked by the server: ${reason}` });
+
+    // Disconnecting on purpose ends the session, so the client can't resume it
+    session.connection.disconnect();
+  }
+
+  /**
+   * Add to the stats of whoever is playing as the client, if they logged in
+   */
+  private recordStats(clientId: string, stats: Partial<ProfileStats>, mode: GameMode): void {
+    for (const session of this.sessions.values()) {
+      if (session.id !== clientId) continue;
+
+      if (session.profileId) this.profiles.addStats(session.profileId, stats, mode);
+      return;
+    }
+  }
+
+  /**
+   * Tell the room about a hit the server accepted and count it towards both
+   * players' stats
+   */
+  private announceHit(room: Room, shooterId: string, hit: PlayerHitMessage): void {
+    room.broadcast('playerHit', hit);
+
+    const { mode } = room.getSettings();
+    const killed = room.getPlayer(hit.playerId)?.health === 0;
+    // Taking out a teammate is nothing to be proud of
+    const scored = killed && !room.areTeammates(shooterId, hit.playerId);
+    this.recordStats(shooterId, { hits: 1, damageDealt: hit.damage, kills: scored ? 1 : 0 }, mode);
+    if (killed) this.recordStats(hit.playerId, { deaths: 1 }, mode);
+  }
+
+  /**
+   * Wrap up a finished match: credit the winner (or the whole winning team) and
+   * take everyone out of the game
+   */
+  private endMatch(room: Room, result: MatchEndedMessage): void {
+    const { mode } = room.getSettings();
+    const winners = result.winningTeam
+      ? result.scores.filter(score => score.team === result.winningTeam).map(score => score.id)
+      : [result.winnerId];
+
+    winners.forEach(id => this.recordStats(id, { wins: 1 }, mode));
+    this.saveReplay(room);
+
+    for (const session of this.sessions.values()) {
+      if (session.room === room) session.connection.leave(room.getChannel());
+    }
+
+    const winner = result.winningTeam ? `team ${result.winningTeam}` : result.winnerId;
+    console.log(`Match in room ${room.getName()} (${room.getId()}) won by ${winner}`);
+  }
+
+  /**
+   * Hand the room's recording of its match, if any, to the replay store
+   */
+  private saveReplay(room: Room): void {
+    const replay = room.takeReplay();
+    if (!replay || !this.replays) return;
+
+    const time = new Date(replay.startedAt).toISOString().replace(/[:.]/g, '-');
+    this.replays.save(`${time}-${room.getId()}${REPLAY_FILE_EXTENSION}`, replay.data);
+  }
+
+  /**
+   * The name a client plays under; logged in clients always use their profile's
+   */
+  private getUsername(session: ClientSession, requested: string): string {
+    const profile = session.profileId ? this.profiles.get(session.profileId) : undefined;
+    return profile?.username || requested;
+  }
+
+  /**
+   * Carry out a line typed into the chat box, which may be a slash command
+   */
+  private handleChat(session: ClientSession, room: Room, text: string): void {
+    const username = room.getMemberName(session.id);
+    if (!username) return;
+
+    const command = parseChatCommand(text);
+
+    switch (command.type) {
+      case 'help':
+        CHAT_HELP.forEach(line => this.sendSystemMessage(session, line));
+        return;
+
+      case 'invalid':
+        this.sendSystemMessage(session, command.reason);
+        return;
+
+      case 'mute':
+      case 'unmute': {
+        const targetId = room.findMember(command.username);
+        if (!targetId || targetId === session.id) {
+          this.sendSystemMessage(session, `Nobody else called ${command.username} is in this room`);
+          return;
+        }
+
+        if (command.type === 'mute') {
+          session.mutedIds.add(targetId);
+          this.sendSystemMessage(session, `Muted ${room.getMemberName(targetId)}`);
+        } else {
+          session.mutedIds.delete(targetId);
+          this.sendSystemMessage(session, `Unmuted ${room.getMemberName(targetId)}`);
+        }
+        return;
+      }
+    }
+
+    if (!command.message) return;
+
+    if (!session.chatLimiter.allow()) {
+      this.sendSystemMessage(session, 'You are sending messages too fast');
+      return;
+    }
+
+    const message: ChatMessage = {
+      id: session.id,
+      username,
+      message: this.chatFilter(command.message),
+      timestamp: Date.now(),
+      channel: command.type === 'whisper' ? 'whisper' : command.channel
+    };
+
+    if (command.type === 'whisper') {
+      const targetId = room.findMember(command.to);
+      if (!targetId || targetId === session.id) {
+        this.sendSystemMessage(session, `Nobody else called ${command.to} is in this room`);
+        return;
+      }
+
+      this.deliverChat([session.id, targetId], { ...message, to: room.getMemberName(targetId) });
+    } else if (command.channel === 'team') {
+      const team = room.getTeam(session.id);
+      if (team === null) {
+        this.sendSystemMessage(session, 'There are no teams in this mode');
+        return;
+      }
+
+      this.deliverChat(room.getMemberIds().filter(id => room.getTeam(id) === team), message);
+    } else {
+      room.addChatHistory(message);
+      this.deliverChat(room.getMemberIds(), message);
+    }
+  }
+
+  /**
+   * Send a chat message to the given clients, except those that muted its sender
+   */
+  private deliverChat(recipientIds: string[], message: ChatMessage): void {
+    for (const session of this.sessions.values()) {
+      if (!recipientIds.includes(session.id)) continue;
+      if (message.id && session.mutedIds.has(message.id)) continue;
+
+      session.connection.emit('chatMessage', message);
+    }
+  }
+
+  private sendSystemMessage(session: ClientSession, text: string): void {
+    session.connection.emit('chatMessage', {
+      username: 'Server',
+      message: text,
+      timestamp: Date.now(),
+      channel: 'system'
+    });
+  }
+
+  private endSession(session: ClientSession): void {
+    if (session.expiryTimer) {
+      clearTimeout(session.expiryTimer);
+      session.expiryTimer = null;
+    }
+
+    this.leaveRoom(session);
+    this.sessions.delete(session.token);
+    console.log(`Client ${session.id} disconnected`);
+  }
+
+  private registerProfileHandlers(session: ClientSession, connection: ServerConnection): void {
+    this.onMessage(connection, session.id, 'login', (data) => {
+      const { profile, token } = this.profiles.create(data.username);
+      session.profileId = profile.id;
+
+      console.log(`Client ${session.id} logged in as ${profile.username} (${profile.id})`);
+      connection.emit('profile', { profile, token });
+    });
+
+    this.onMessage(connection, session.id, 'logout', () => {
+      session.profileId = null;
+    });
+
+    this.onMessage(connection, session.id, 'updateProfile', (data) => {
+      const profile = session.profileId ? this.profiles.update(session.profileId, data) : undefined;
+
+      if (!profile) {
+        console.warn(`Client ${session.id} tried to update a profile without logging in`);
+        return;
+      }
+
+      connection.emit('profile', { profile });
+    });
+  }
+
+  private registerLobbyHandlers(session: ClientSession, connection: ServerConnection): void {
+    this.onMessage(connection, session.id, 'listRooms', () => {
+      connection.emit('roomList', { rooms: this.getRoomList() });
+    });
+
+    this.onMessage(connection, session.id, 'createRoom', (data) => {
+      const room = new Room(
+        {
+          id: crypto.randomUUID().slice(0, 8),
+          name: data.name,
+          maxPlayers: data.maxPlayers,
+          mode: data.mode,
+          friendlyFire: data.friendlyFire
+        },
+        this.transport,
+        () => this.broadcastRoomList(),
+        this.interestRadius,
+        !!this.replays,
+        this.countdownDuration
+      );
+
+      this.rooms.set(room.getId(), room);
+      console.log(`Room created: ${room.getName()} (${room.getId()})`);
+
+      this.joinRoom(session, room, this.getUsername(session, data.username), false);
+    });
+
+    this.onMessage(connection, session.id, 'joinRoom', (data) => {
+      const room = this.rooms.get(data.roomId);
+      const spectate = !!data.spectate;
+
+      if (!room) {
+        connection.emit('lobbyError', { reason: 'That room no longer exists' });
+      } else if (room.hasMember(session.id)) {
+        this.joinRoom(session, room, this.getUsername(session, data.username), spectate);
+      } else if (spectate && room.isFullOfSpectators()) {
+        connection.emit('lobbyError', { reason: `${room.getName()} has no room for more spectators` });
+      } else if (!spectate && room.isFull()) {
+        connection.emit('lobbyError', { reason: `${room.getName()} is full` });
+      } else {
+        this.joinRoom(session, room, this.getUsername(session, data.username), spectate);
+      }
+    });
+
+    this.onMessage(connection, session.id, 'leaveRoom', () => {
+      this.leaveRoom(session);
+
+      // Bring the client's copy of its lifetime stats up to date after the match
+      const profile = session.profileId ? this.profiles.get(session.profileId) : undefined;
+      if (profile) connection.emit('profile', { profile });
+    });
+
+    this.onMessage(connection, session.id, 'getLeaderboard', (data) => {
+      connection.emit('leaderboard', { ...data, ...this.profiles.getLeaderboard(data) });
+    });
+
+    this.onRoomMessage(session, 'setReady', (room, data) => {
+      room.setReady(session.id, data.ready);
+    });
+  }
+
+  private joinRoom(session: ClientSession, room: Room, username: string, spectate: boolean): void {
+    if (session.room === room) return;
+
+    // Only one room at a time
+    this.leaveRoom(session);
+
+    // Switch channels first so the room's change notifications reach the right people
+    const { connection } = session;
+    connection.leave(LOBBY_CHANNEL);
+    connection.join(room.getMemberChannel());
+
+    const netId = room.addMember(session.id, username, spectate);
+    session.room = room;
+
+    connection.emit('roomJoined', { room: room.getInfo(), netId });
+    connection.emit('chatHistory', { messages: room.getChatHistory() });
+
+    console.log(`Client ${session.id} ${spectate ? 'is spectating' : 'joined'} room ${room.getName()} (${room.getId()})`);
+
+    // Matches in progress can be joined straight away
+    if (room.getStatus() === 'playing') {
+      connection.emit('matchStarted', room.getMatchStarted());
+    }
+  }
+
+  private leaveRoom(session: ClientSession): void {
+    const room = session.room;
+    if (!room) return;
+
+    const { connection } = session;
+    const wasSpawned = !!room.getPlayer(session.id);
+
+    connection.leave(room.getChannel());
+    connection.leave(room.getMemberChannel());
+    connection.join(LOBBY_CHANNEL);
+
+    session.room = null;
+    room.removeMember(session.id);
+
+    if (wasSpawned) {
+      room.broadcast('playerLeft', { id: session.id });
+    }
+
+    console.log(`Client ${session.id} left room ${room.getName()} (${room.getId()})`);
+
+    // Drop rooms nobody is using anymore
+    if (room.isEmpty()) {
+      this.saveReplay(room);
+      this.rooms.delete(room.getId());
+      console.log(`Room removed: ${room.getName()} (${room.getId()})`);
+      this.broadcastRoomList();
+    }
+  }
+
+  private registerGameHandlers(session: ClientSession, connection: ServerConnection): void {
+    const clientId = session.id;
+
+    this.onRoomMessage(session, 'playerJoined', (room, data) => {
+      if (room.getStatus() !== 'playing') {
+        console.warn(`Client ${clientId} tried to spawn before the match in ${room.getId()} started`);
+        return;
+      }
+
+      const netId = room.getNetId(clientId);
+      if (netId === undefined) return;
+
+      if (room.getPlayer(clientId)) {
+        this.reportViolation(session, 'spawned twice');
+        return;
+      }
+
+      if (room.isSpectator(clientId)) {
+        this.reportViolation(session, 'tried to spawn as a spectator');
+        return;
+      }
+
+      // Logged in players always play as their profile's tank
+      const profile = session.profileId ? this.profiles.get(session.profileId) : undefined;
+
+      // Tanks spawning where they shouldn't are put back where they may
+      const spawn = room.placeSpawn(clientId, data.position);
+      if (spawn.violation) this.reportViolation(session, spawn.violation);
+
+      const state: PlayerState = {
+        id: clientId,
+        netId,
+        username: profile?.username || data.username,
+        position: spawn.position,
+        rotation: data.rotation,
+        turretRotation: 0,
+        velocity: { x: 0, y: 0, z: 0 },
+        health: TANK_MAX_HEALTH,
+        color: profile?.color ?? data.color,
+        team: room.getTeam(clientId),
+        maxHealth: TANK_MAX_HEALTH,
+        heading: data.rotation.y,
+        speed: 0,
+        lastProcessedInput: -1,
+        weapon: new WeaponState(WEAPONS[profile?.loadout || DEFAULT_WEAPON]),
+        modules: new ModuleState(),
+        effects: new Map(),
+        diedAt: null,
+        inputBudget: MAX_INPUT_BUDGET,
+        lastInputAt: Date.now()
+      };
+
+      // Tell the new player who else is playing; tanks in range follow on the next tick
+      connection.emit('playerList', { players: room.getPlayers().map(toJoinedMessage) });
+      connection.emit('pickupList', room.getPickupList());
+
+      // Only players that have spawned receive room broadcasts
+      room.setPlayer(state);
+      room.broadcastFrom(clientId, 'playerJoined', toJoinedMessage(state));
+      connection.join(room.getChannel());
+
+      this.recordStats(clientId, { matchesPlayed: 1 }, room.getSettings().mode);
+    });
+
+    // Spectators get everything players do, without a tank of their own
+    this.onRoomMessage(session, 'spectatorJoined', (room) => {
+      if (room.getStatus() !== 'playing' || !room.isSpectator(clientId) || room.isSpectating(clientId)) return;
+
+      connection.emit('playerList', { players: room.getPlayers().map(toJoinedMessage) });
+      connection.emit('pickupList', room.getPickupList());
+
+      room.addSpectator(clientId);
+      connection.join(room.getChannel());
+    });
+
+    // The result reaches clients with the next snapshot, which also acknowledges the input
+    this.onRoomMessage(session, 'playerInput', (room, data) => {
+      const violation = room.applyInput(clientId, data);
+      if (violation) this.reportViolation(session, violation);
+    });
+
+    this.onRoomMessage(session, 'snapshotAck', (room, data) => {
+      room.acknowledgeSnapshot(clientId, data.sequence);
+    });
+
+    this.onRoomMessage(session, 'playerRespawned', (room, data) => {
+      const state = room.getPlayer(clientId);
+      if (!state) return;
+
+      if (state.health > 0) {
+        this.reportViolation(session, 'respawned while alive');
+        return;
+      }
+
+      if (state.diedAt !== null && Date.now() - state.diedAt < RESPAWN_DELAY - TIMING_TOLERANCE) {
+        this.reportViolation(session, 'respawned too soon after dying');
+        return;
+      }
+
+      const spawn = room.placeSpawn(clientId, data.position);
+      if (spawn.violation) this.reportViolation(session, spawn.violation);
+
+      state.position = spawn.position;
+      state.rotation = data.rotation;
+      state.heading = data.rotation.y;
+      state.speed = 0;
+      state.health = state.maxHealth;
+      state.diedAt = null;
+      state.weapon.reset();
+      state.modules.reset();
+      state.effects.clear();
+
+      room.broadcastFrom(clientId, 'playerRespawned', {
+        id: clientId,
+        position: spawn.position,
+        rotation: data.rotation
+      });
+    });
+
+    this.onRoomMessage(session, 'projectileFired', (room, data, tick) => {
+      if (!room.getPlayer(clientId)) return;
+
+      // The room remembers the shot so hits can be validated
+      const result = room.fireProjectile(clientId, data, tick);
+
+      if (!result.ok) {
+        this.reportViolation(session, result.reason);
+        return;
+      }
+
+      // Relay it to everyone except the shooter (who spawns its own projectile locally)
+      room.broadcastFrom(clientId, 'projectileFired', result.value);
+      this.recordStats(clientId, { shotsFired: 1 }, room.getSettings().mode);
+    });
+
+    // Hits are only applied once the server agrees with the shooter
+    this.onRoomMessage(session, 'projectileHit', (room, data) => {
+      const result = room.validateHit(clientId, data);
+
+      if (!result.ok) {
+        console.warn(`Rejected hit from ${clientId} on ${data.targetId}: ${result.reason}`);
+        return;
+      }
+
+      // Only the shooter needs to know how the shell fared against the armor
+      room.sendTo(clientId, 'shotResult', result.value.result);
+      if (!result.value.hit) return;
+
+      this.announceHit(room, clientId, result.value.hit);
+
+      const ended = room.checkMatchEnd();
+      if (ended) this.endMatch(room, ended);
+    });
+
+    // Splash shells hurt every tank the server agrees was caught in the blast
+    this.onRoomMessage(session, 'projectileExploded', (room, data) => {
+      const result = room.validateExplosion(clientId, data);
+
+      if (!result.ok) {
+        console.warn(`Rejected explosion from ${clientId}: ${result.reason}`);
+        return;
+      }
+
+      result.value.forEach(hit => this.announceHit(room, clientId, hit));
+
+      const ended = room.checkMatchEnd();
+      if (ended) this.endMatch(room, ended);
+    });
+
+    // Whoever the server hears from first gets the pickup; later claims just lost the race
+    this.onRoomMessage(session, 'pickupCollected', (room, data) => {
+      const result = room.collectPickup(clientId, data);
+
+      if (!result.ok) {
+        console.warn(`Rejected pickup of ${data.pickupId} by ${clientId}: ${result.reason}`);
+        return;
+      }
+
+      room.broadcast('pickupTaken', result.value);
+    });
+
+    this.onRoomMessage(session, 'chatMessage', (room, data) => {
+      this.handleChat(session, room, data.message);
+    });
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { HitboxHistory } from './HitboxHistory';
+
+function tank(id: string, x: number, z: number, heading: number = 0) {
+  return { id, position: { x, y: 0, z }, heading };
+}
+
+describe('HitboxHistory', () => {
+  it('rewinds a tank to where it was between two frames', () => {
+    const history = new HitboxHistory();
+    history.record(1000, [tank('a', 0, 0, 0)]);
+    history.record(1100, [tank('a', 10, -20, 1)]);
+
+    const hitbox = history.getHitbox('a', 1025)!;
+    expect(hitbox.x).toBeCloseTo(2.5);
+    expect(hitbox.z).toBeCloseTo(-5);
+    expect(hitbox.heading).toBeCloseTo(0.25);
+  });
+
+  it('turns the short way round when the heading wraps', () => {
+    const history = new HitboxHistory();
+    history.record(1000, [tank('a', 0, 0, Math.PI - 0.1)]);
+    history.record(1100, [tank('a', 0, 0, -Math.PI + 0.1)]);
+
+    expect(history.getHitbox('a', 1050)!.heading).toBeCloseTo(Math.PI);
+  });
+
+  it('gives the nearest frame for times outside the history', () => {
+    const history = new HitboxHistory();
+    history.record(1000, [tank('a', 0, 0)]);
+    history.record(1100, [tank('a', 10, 0)]);
+
+    expect(history.getHitbox('a', 500)!.x).toBe(0);
+    expect(history.getHitbox('a', 2000)!.x).toBe(10);
+  });
+
+  it('only interpolates between frames the tank was in', () => {
+    const history = new HitboxHistory();
+    history.record(1000, [tank('a', 0, 0)]);
+    history.record(1050, [tank('b', 0, 0)]);
+    history.record(1100, [tank('a', 10, 0), tank('b', 0, 0)]);
+
+    expect(history.getHitbox('a', 1050)!.x).toBeCloseTo(5);
+    expect(history.getHitbox('c', 1050)).toBeUndefined();
+  });
+
+  it('forgets frames more than a second old', () => {
+    const history = new HitboxHistory();
+    history.record(1000, [tank('a', 0, 0)]);
+    history.record(1500, [tank('a', 5, 0)]);
+    history.record(2100, [tank('a', 10, 0)]);
+
+    // The oldest frame has gone, so earlier times get the oldest one left
+    expect(history.getHitbox('a', 1000)!.x).toBe(5);
+  });
+});
@@ -0,0 +1,66 @@
+import { Vector3Data } from '../../shared/protocol';
+import { angleDifference } from '../../shared/TankMovement';
+import { HullPose } from '../../shared/Armor';
+
+// A tank's hull as it was at some moment
+export type Hitbox = HullPose;
+
+interface HitboxFrame {
+  timestamp: number;
+  hitboxes: Map<string, Hitbox>;
+}
+
+// How much history to keep for rewinding
+const HISTORY_DURATION = 1000; // ms
+
+/**
+ * Recent tank positions, so hits can be checked against where a target was
+ * at the time the shooter saw it rather than where it is now
+ */
+export class HitboxHistory {
+  private frames: HitboxFrame[] = [];
+
+  public record(timestamp: number, players: Array<{ id: string; position: Vector3Data; heading: number }>): void {
+    const hitboxes = new Map<string, Hitbox>();
+    players.forEach(player => {
+      hitboxes.set(player.id, { x: player.position.x, y: player.position.y, z: player.position.z, heading: player.heading });
+    });
+
+    this.frames.push({ timestamp, hitboxes });
+
+    while (this.frames.length > 0 && timestamp - this.frames[0].timestamp > HISTORY_DURATION) {
+      this.frames.shift();
+    }
+  }
+
+  /**
+   * Get a player's hitbox at the given server time, interpolating between recorded frames
+   */
+  public getHitbox(playerId: string, time: number): Hitbox | undefined {
+    let before: Hitbox | undefined;
+    let beforeTime = 0;
+
+    for (const frame of this.frames) {
+      const hitbox = frame.hitboxes.get(playerId);
+      if (!hitbox) continue;
+
+      if (frame.timestamp >= time) {
+        if (!before) return hitbox;
+
+        const t = (time - beforeTime) / (frame.timestamp - beforeTime);
+        return {
+          x: before.x + (hitbox.x - before.x) * t,
+          y: before.y + (hitbox.y - before.y) * t,
+          z: before.z + (hitbox.z - before.z) * t,
+          heading: before.heading + angleDifference(hitbox.heading, before.heading) * t
+        };
+      }
+
+      before = hitbox;
+      beforeTime = frame.timestamp;
+    }
+
+    // Newer than anything recorded
+    return before;
+  }
+}
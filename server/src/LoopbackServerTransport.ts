@@ -0,0 +1,202 @@
+import { ServerConnection, ServerTransport } from './ServerTransport';
+import { ServerMessages, ServerMessageType } from '../../shared/protocol';
+import { timeToTick } from '../../shared/SimulationClock';
+
+/**
+ * The client end of a loopback connection, as seen by the server
+ */
+export interface LoopbackClient {
+  receive(event: string, data: unknown, tick: number): void;
+  closed(reason: string, intentional: boolean): void;
+}
+
+/**
+ * Serves clients running in the same process, so the whole game can run in a
+ * single page without a network.
+ *
+ * Messages are copied and delivered asynchronously, the way they would be over
+ * a real connection, so neither side can see or change the other's objects.
+ */
+export class LoopbackServerTransport implements ServerTransport {
+  private connectionListeners: Array<(connection: ServerConnection) => void> = [];
+  private channels: Map<string, Set<LoopbackConnection>> = new Map();
+  private connections: Set<LoopbackConnection> = new Set();
+  private isRunning: boolean = false;
+
+  public start(): Promise<void> {
+    this.isRunning = true;
+    return Promise.resolve();
+  }
+
+  public stop(): Promise<void> {
+    this.isRunning = false;
+    Array.from(this.connections).forEach(connection => connection.disconnect());
+    return Promise.resolve();
+  }
+
+  public onConnection(listener: (connection: ServerConnection) => void): void {
+    this.connectionListeners.push(listener);
+  }
+
+  /**
+   * Open a connection for a client in this process
+   */
+  public connect(client: LoopbackClient): LoopbackConnection {
+    if (!this.isRunning) {
+      throw new Error('Local server is not running');
+    }
+
+    const connection = new LoopbackConnection(this, client);
+    this.connections.add(connection);
+
+    deliver(() => this.connectionListeners.forEach(listener => listener(connection)));
+    return connection;
+  }
+
+  public broadcast<K extends ServerMessageType>(channel: string, event: K, data: ServerMessages[K], except?: string): void {
+    const excluded = except ? this.channels.get(except) : undefined;
+
+    this.channels.get(channel)?.forEach(connection => {
+      if (!excluded?.has(connection)) {
+        connection.emit(event, data);
+      }
+    });
+  }
+
+  public joinChannel(connection: LoopbackConnection, channel: string): void {
+    if (!this.channels.has(channel)) {
+      this.channels.set(channel, new Set());
+    }
+
+    this.channels.get(channel)!.add(connection);
+  }
+
+  public leaveChannel(connection: LoopbackConnection, channel: string): void {
+    const members = this.channels.get(channel);
+    if (!members) return;
+
+    members.delete(connection);
+
+    if (members.size === 0) {
+      this.channels.delete(channel);
+    }
+  }
+
+  public removeConnection(connection: LoopbackConnection): void {
+    this.connections.delete(connection);
+  }
+}
+
+/**
+ * The server end of a loopback connection
+ */
+export class LoopbackConnection implements ServerConnection {
+  public readonly id: string = crypto.randomUUID();
+  private transport: LoopbackServerTransport;
+  private client: LoopbackClient;
+  private listeners: Map<string, Array<(data: unknown, tick: unknown) => void>> = new Map();
+  private disconnectListeners: Array<(reason: string, intentional: boolean) => void> = [];
+  private channels: Set<string> = new Set();
+  private isOpen: boolean = true;
+  private clientAttached: boolean = true; // Messages already sent still arrive until the client hangs up
+
+  constructor(transport: LoopbackServerTransport, client: LoopbackClient) {
+    this.transport = transport;
+    this.client = client;
+
+    // Every connection has a channel of its own, like a Socket.IO socket
+    this.join(this.id);
+  }
+
+  public emit<K extends ServerMessageType>(event: K, data: ServerMessages[K]): void {
+    if (!this.isOpen) return;
+
+    const copy = structuredClone(data);
+    const tick = timeToTick(Date.now());
+    deliver(() => {
+      if (this.clientAttached) this.client.receive(event, copy, tick);
+    });
+  }
+
+  public on(event: string, listener: (data: unknown, tick: unknown) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, []);
+    }
+
+    this.listeners.get(event)!.push(listener);
+  }
+
+  public removeAllListeners(event: string): void {
+    this.listeners.delete(event);
+  }
+
+  public onDisconnect(listener: (reason: string, intentional: boolean) => void): void {
+    this.disconnectListeners.push(listener);
+  }
+
+  public join(channel: string): void {
+    if (!this.isOpen) return;
+
+    this.channels.add(channel);
+    this.transport.joinChannel(this, channel);
+  }
+
+  public leave(channel: string): void {
+    this.channels.delete(channel);
+    this.transport.leaveChannel(this, channel);
+  }
+
+  /**
+   * Pass a message from the client to the server's listeners
+   */
+  public send(event: string, data: unknown, tick: number): void {
+    if (!this.isOpen) return;
+
+    const copy = structuredClone(data);
+    deliver(() => {
+      if (!this.isOpen) return;
+
+      // Copy the list, since a listener may remove itself
+      const listeners = this.listeners.get(event);
+      listeners?.slice().forEach(listener => listener(copy, tick));
+    });
+  }
+
+  /**
+   * Close the connection from the server side
+   */
+  public disconnect(): void {
+    if (!this.isOpen) return;
+
+    this.shutdown('server disconnect', true);
+    deliver(() => {
+      this.clientAttached = false;
+      this.client.closed('server disconnect', true);
+    });
+  }
+
+  /**
+   * Close the connection when the client hangs up
+   */
+  public close(reason: string, intentional: boolean): void {
+    this.clientAttached = false;
+    this.shutdown(reason, intentional);
+  }
+
+  /**
+   * Mark the connection closed and tell the server's listeners why
+   */
+  private shutdown(reason: string, intentional: boolean): void {
+    if (!this.isOpen) return;
+
+    this.isOpen = false;
+    Array.from(this.channels).forEach(channel => this.leave(channel));
+    this.transport.removeConnection(this);
+
+    this.disconnectListeners.forEach(listener => listener(reason, intentional));
+  }
+}
+
+function deliver(callback: () => void): void {
+  setTimeout(callback, 0);
+}
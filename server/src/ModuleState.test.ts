@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { ModuleState } from './ModuleState';
+import { MODULES, REPAIR_TIME } from '../../shared/Modules';
+
+const REPAIR = REPAIR_TIME * 1000; // ms
+
+describe('ModuleState', () => {
+  it('breaks a module once it has taken its health in damage', () => {
+    const modules = new ModuleState();
+
+    modules.damage('gun', MODULES.gun.health - 1, 0);
+    expect(modules.getBroken(0)).toEqual([]);
+
+    modules.damage('gun', 1, 0);
+    expect(modules.getBroken(0)).toEqual(['gun']);
+  });
+
+  it('fixes every broken module once a repair has run its course', () => {
+    const modules = new ModuleState();
+    modules.damage('tracks', 100, 0);
+    modules.damage('engine', 100, 0);
+
+    modules.repair(1000);
+    expect(modules.getBroken(1000 + REPAIR / 2)).toEqual(['tracks', 'engine']);
+    expect(modules.getBroken(1000 + REPAIR)).toEqual([]);
+  });
+
+  it('only repairs when something is broken', () => {
+    const modules = new ModuleState();
+
+    // Nothing to fix yet, so this doesn't start a repair that would cover the later break
+    modules.repair(0);
+    modules.damage('gun', 100, 1000);
+    expect(modules.getBroken(REPAIR + 1000)).toEqual(['gun']);
+  });
+
+  it('does not restart a repair under way', () => {
+    const modules = new ModuleState();
+    modules.damage('gun', 100, 0);
+
+    modules.repair(0);
+    modules.repair(REPAIR / 2);
+    expect(modules.getBroken(REPAIR)).toEqual([]);
+  });
+
+  it('starts over in working order after a reset', () => {
+    const modules = new ModuleState();
+    modules.damage('gun', 100, 0);
+    modules.reset();
+
+    expect(modules.getBroken(0)).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  TankModule,
+  ModuleHealth,
+  REPAIR_TIME,
+  createModuleHealth,
+  getBrokenModules
+} from '../../shared/Modules';
+import { TIMING_TOLERANCE } from './WeaponState';
+
+/**
+ * The server's copy of a tank's module health, following the same rules as
+ * Tank.damageModule() and Tank.startRepair() so the server knows what a tank
+ * can do while something is broken.
+ */
+export class ModuleState {
+  private health: ModuleHealth = createModuleHealth();
+  private repairEndsAt: number | null = null;
+
+  /**
+   * Wear a module down by the damage of a hit that got through to it
+   */
+  public damage(module: TankModule, amount: number, now: number = Date.now()): void {
+    this.updateRepair(now);
+    this.health[module] = Math.max(0, this.health[module] - amount);
+  }
+
+  /**
+   * Start repairing, if anything is broken and no repair is under way
+   */
+  public repair(now: number = Date.now()): void {
+    this.updateRepair(now);
+
+    if (this.repairEndsAt === null && getBrokenModules(this.health).length > 0) {
+      this.repairEndsAt = now + REPAIR_TIME * 1000 - TIMING_TOLERANCE;
+    }
+  }
+
+  public getBroken(now: number = Date.now()): TankModule[] {
+    this.updateRepair(now);
+    return getBrokenModules(this.health);
+  }
+
+  /**
+   * Every module back in working order, e.g. after a respawn
+   */
+  public reset(): void {
+    this.health = createModuleHealth();
+    this.repairEndsAt = null;
+  }
+
+  private updateRepair(now: number): void {
+    if (this.repairEndsAt !== null && now >= this.repairEndsAt) {
+      this.health = createModuleHealth();
+      this.repairEndsAt = null;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryProfileStore } from './ProfileStore';
+import { LeaderboardRequest } from '../../shared/protocol';
+
+const DAY = 24 * 60 * 60 * 1000; // ms
+
+// Wednesday 2024-01-10, in the week starting Monday 2024-01-08 (UTC)
+const NOW = Date.UTC(2024, 0, 10, 12);
+const LAST_WEEK = NOW - 7 * DAY;
+
+const request: LeaderboardRequest = { period: 'allTime', sortBy: 'kills', offset: 0, limit: 10 };
+
+function createStore(): { store: MemoryProfileStore; ids: Record<string, string> } {
+  const store = new MemoryProfileStore();
+  const ids: Record<string, string> = {};
+
+  for (const username of ['alice', 'bob', 'carol', 'dave']) {
+    ids[username] = store.create(username).profile.id;
+  }
+
+  store.addStats(ids.alice, { kills: 5, deaths: 1 }, 'deathmatch', NOW);
+  store.addStats(ids.bob, { kills: 8, deaths: 3 }, 'teamDeathmatch', NOW);
+  store.addStats(ids.carol, { kills: 5, wins: 1 }, 'deathmatch', LAST_WEEK);
+  store.addStats(ids.carol, { kills: 2 }, 'deathmatch', NOW);
+
+  return { store, ids };
+}
+
+describe('MemoryProfileStore.getLeaderboard', () => {
+  it('ranks everyone with stats, highest first', () => {
+    const { store } = createStore();
+    const page = store.getLeaderboard(request, NOW);
+
+    // Dave has nothing to show, so isn't ranked
+    expect(page.total).toBe(3);
+    expect(page.entries.map(entry => [entry.rank, entry.username, entry.kills])).toEqual([
+      [1, 'bob', 8],
+      [2, 'carol', 7],
+      [3, 'alice', 5]
+    ]);
+  });
+
+  it('breaks ties by name', () => {
+    const { store } = createStore();
+    const page = store.getLeaderboard({ ...request, period: 'weekly', sortBy: 'wins' }, NOW);
+
+    // Nobody has won this week
+    expect(page.entries.map(entry => entry.username)).toEqual(['alice', 'bob', 'carol']);
+  });
+
+  it('pages through the ranking', () => {
+    const { store } = createStore();
+
+    const first = store.getLeaderboard({ ...request, limit: 2 }, NOW);
+    const second = store.getLeaderboard({ ...request, offset: 2, limit: 2 }, NOW);
+
+    expect(first.total).toBe(3);
+    expect(first.entries.map(entry => entry.username)).toEqual(['bob', 'carol']);
+    expect(second.total).toBe(3);
+    expect(second.entries.map(entry => [entry.rank, entry.username])).toEqual([[3, 'alice']]);
+  });
+
+  it('only counts this week\'s stats in the weekly period', () => {
+    const { store } = createStore();
+    const page = store.getLeaderboard({ ...request, period: 'weekly' }, NOW);
+
+    expect(page.entries.map(entry => [entry.username, entry.kills])).toEqual([
+      ['bob', 8],
+      ['alice', 5],
+      ['carol', 2]
+    ]);
+  });
+
+  it('starts a new week on Monday, UTC', () => {
+    const { store } = createStore();
+    const sunday = Date.UTC(2024, 0, 14, 23, 59);
+    const monday = Date.UTC(2024, 0, 15);
+
+    expect(store.getLeaderboard({ ...request, period: 'weekly' }, sunday).total).toBe(3);
+    expect(store.getLeaderboard({ ...request, period: 'weekly' }, monday).total).toBe(0);
+  });
+
+  it('narrows the ranking down to one mode', () => {
+    const { store } = createStore();
+    const page = store.getLeaderboard({ ...request, mode: 'deathmatch', sortBy: 'wins' }, NOW);
+
+    expect(page.entries.map(entry => [entry.username, entry.wins, entry.kills])).toEqual([
+      ['carol', 1, 7],
+      ['alice', 0, 5]
+    ]);
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  GameMode,
+  PlayerProfile,
+  ProfileStats,
+  UpdateProfileRequest,
+  LeaderboardEntry,
+  LeaderboardRequest,
+  LeaderboardStats,
+  DEFAULT_TANK_COLOR
+} from '../../shared/protocol';
+import { DEFAULT_WEAPON } from '../../shared/Weapons';
+
+/**
+ * Leaderboard stats earned in one mode during one week
+ */
+export interface StatsBucket {
+  mode: GameMode;
+  week: number; // Start of the week (ms)
+  stats: LeaderboardStats;
+}
+
+/**
+ * A profile together with the token that logs in to it
+ */
+export interface StoredProfile {
+  token: string;
+  profile: PlayerProfile;
+  history: StatsBucket[];
+}
+
+export interface LeaderboardPage {
+  total: number;
+  entries: LeaderboardEntry[];
+}
+
+const LEADERBOARD_STATS: (keyof LeaderboardStats)[] = ['kills', 'deaths', 'damageDealt', 'wins'];
+
+const DAY = 24 * 60 * 60 * 1000; // ms
+
+/**
+ * Where player profiles live between sessions
+ */
+export interface ProfileStore {
+  create(username: string): StoredProfile;
+  getByToken(token: string): PlayerProfile | undefined;
+  get(id: string): PlayerProfile | undefined;
+  update(id: string, changes: UpdateProfileRequest): PlayerProfile | undefined;
+
+  /**
+   * Add to a profile's lifetime stats, and to its leaderboard stats for the mode
+   * when they were earned in a match
+   */
+  addStats(id: string, stats: Partial<ProfileStats>, mode?: GameMode): void;
+
+  getLeaderboard(request: LeaderboardRequest): LeaderboardPage;
+}
+
+/**
+ * Keeps profiles in memory only, so they last as long as the server does.
+ * Subclasses can persist them by overriding changed().
+ */
+export class MemoryProfileStore implements ProfileStore {
+  protected profiles: Map<string, StoredProfile> = new Map(); // By profile ID
+  private idsByToken: Map<string, string> = new Map();
+
+  constructor(profiles: StoredProfile[] = []) {
+    profiles.forEach(stored => this.add(stored));
+  }
+
+  public create(username: string): StoredProfile {
+    const stored: StoredProfile = {
+      token: crypto.randomUUID(),
+      profile: {
+        id: crypto.randomUUID(),
+        username,
+        color: DEFAULT_TANK_COLOR,
+        loadout: DEFAULT_WEAPON,
+        stats: {
+          kills: 0,
+          deaths: 0,
+          shotsFired: 0,
+          hits: 0,
+          damageDealt: 0,
+          wins: 0,
+          matchesPlayed: 0
+        }
+      },
+      history: []
+    };
+
+    this.add(stored);
+    this.changed();
+    return stored;
+  }
+
+  public getByToken(token: string): PlayerProfile | undefined {
+    const id = this.idsByToken.get(token);
+    return id ? this.get(id) : undefined;
+  }
+
+  public get(id: string): PlayerProfile | undefined {
+    return this.profiles.get(id)?.profile;
+  }
+
+  public update(id: string, changes: UpdateProfileRequest): PlayerProfile | undefined {
+    const profile = this.get(id);
+    if (!profile) return undefined;
+
+    if (changes.username !== undefined) profile.username = changes.username;
+    if (changes.color !== undefined) profile.color = changes.color;
+    if (changes.loadout !== undefined) profile.loadout = changes.loadout;
+
+    this.changed();
+    return profile;
+  }
+
+  public addStats(id: string, stats: Partial<ProfileStats>, mode?: GameMode, now: number = Date.now()): void {
+    const stored = this.profiles.get(id);
+    if (!stored) return;
+
+    for (const key of Object.keys(stats) as (keyof ProfileStats)[]) {
+      stored.profile.stats[key] += stats[key] || 0;
+    }
+
+    if (mode) {
+      const week = getWeekStart(now);
+      let bucket = stored.history.find(entry => entry.mode === mode && entry.week === week);
+
+      if (!bucket) {
+        bucket = { mode, week, stats: { kills: 0, deaths: 0, damageDealt: 0, wins: 0 } };
+        stored.history.push(bucket);
+      }
+
+      for (const key of LEADERBOARD_STATS) {
+        bucket.stats[key] += stats[key] || 0;
+      }
+    }
+
+    this.changed();
+  }
+
+  /**
+   * Rank every profile with something to show for the period, highest first
+   */
+  public getLeaderboard(request: LeaderboardRequest, now: number = Date.now()): LeaderboardPage {
+    const week = getWeekStart(now);
+    const ranked: LeaderboardEntry[] = [];
+
+    this.profiles.forEach(({ profile, history }) => {
+      let stats: LeaderboardStats;
+
+      if (request.period === 'allTime' && !request.mode) {
+        // Lifetime stats also cover anything from before the history was kept
+        stats = profile.stats;
+      } else {
+        stats = { kills: 0, deaths: 0, damageDealt: 0, wins: 0 };
+
+        history
+          .filter(bucket => (!request.mode || bucket.mode === request.mode) &&
+            (request.period === 'allTime' || bucket.week === week))
+          .forEach(bucket => LEADERBOARD_STATS.forEach(key => stats[key] += bucket.stats[key]));
+      }
+
+      if (LEADERBOARD_STATS.every(key => stats[key] === 0)) return;
+
+      ranked.push({
+        rank: 0,
+        profileId: profile.id,
+        username: profile.username,
+        kills: stats.kills,
+        deaths: stats.deaths,
+        damageDealt: stats.damageDealt,
+        wins: stats.wins
+      });
+    });
+
+    // Ties are broken by name and ID so pages stay stable between requests
+    ranked.sort((a, b) => b[request.sortBy] - a[request.sortBy] ||
+      a.username.localeCompare(b.username) || a.profileId.localeCompare(b.profileId));
+    ranked.forEach((entry, index) => entry.rank = index + 1);
+
+    return {
+      total: ranked.length,
+      entries: ranked.slice(request.offset, request.offset + request.limit)
+    };
+  }
+
+  /**
+   * Called after every change
+   */
+  protected changed(): void {}
+
+  private add(stored: StoredProfile): void {
+    // Profiles saved before wins and the history were kept
+    stored.profile.stats.wins = stored.profile.stats.wins || 0;
+    stored.history = stored.history || [];
+
+    this.profiles.set(stored.profile.id, stored);
+    this.idsByToken.set(stored.token, stored.profile.id);
+  }
+}
+
+/**
+ * Start of the week (Monday, UTC) the time falls in
+ */
+function getWeekStart(time: number): number {
+  const day = Math.floor(time / DAY);
+
+  // Day 0 was a Thursday
+  return (day - (day + 3) % 7) * DAY;
+}
@@ -0,0 +1,6 @@
+/**
+ * Where recorded matches end up. Without one the server doesn't record at all.
+ */
+export interface ReplayStore {
+  save(name: string, data: Uint8Array): void;
+}
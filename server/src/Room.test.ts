@@ -0,0 +1,577 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Room,
+  PlayerState,
+  TANK_MAX_HEALTH,
+  MAX_INPUT_BUDGET,
+  DEFAULT_INTEREST_RADIUS,
+  DEFAULT_COUNTDOWN_DURATION
+} from './Room';
+import { WeaponState, TIMING_TOLERANCE } from './WeaponState';
+import { ModuleState } from './ModuleState';
+import { LoopbackServerTransport } from './LoopbackServerTransport';
+import {
+  GameMode,
+  PlayerInputMessage,
+  ProjectileExplodedRequest,
+  ProjectileHitRequest,
+  MAX_SPECTATORS
+} from '../../shared/protocol';
+import { TANK_CANNON, SHELLS, splashDamage } from '../../shared/Weapons';
+import { timeToTick } from '../../shared/SimulationClock';
+import { MAP_SIZE, SPAWN_MARGIN } from '../../shared/Spawns';
+import { TEAMS } from '../../shared/Teams';
+import { PICKUPS, HEALTH_PICKUP_AMOUNT, scaleDamage } from '../../shared/Pickups';
+import { stepTankMovement } from '../../shared/TankMovement';
+
+const NOW = 100000; // Server time (ms), on a tick boundary
+
+function createRoom(
+  mode: GameMode = 'deathmatch',
+  friendlyFire: boolean = false,
+  transport: LoopbackServerTransport = new LoopbackServerTransport()
+): Room {
+  return new Room({ id: 'room', name: 'Test room', maxPlayers: 8, mode, friendlyFire }, transport, () => {});
+}
+
+/**
+ * Add a member to the room and spawn their tank where asked, the way GameServer does
+ */
+function spawnTank(room: Room, id: string, x: number, z: number, heading: number = 0): PlayerState {
+  const netId = room.addMember(id, id);
+  const state: PlayerState = {
+    id,
+    netId,
+    username: id,
+    position: { x, y: 0, z },
+    rotation: { x: 0, y: heading, z: 0 },
+    turretRotation: 0,
+    velocity: { x: 0, y: 0, z: 0 },
+    health: TANK_MAX_HEALTH,
+    color: 0xff0000,
+    team: room.getTeam(id),
+    maxHealth: TANK_MAX_HEALTH,
+    heading,
+    speed: 0,
+    lastProcessedInput: -1,
+    weapon: new WeaponState(TANK_CANNON),
+    modules: new ModuleState(),
+    effects: new Map(),
+    diedAt: null,
+    inputBudget: MAX_INPUT_BUDGET,
+    lastInputAt: NOW
+  };
+
+  room.setPlayer(state);
+  return state;
+}
+
+/**
+ * Have the shooter at the origin fire an AP shell straight down +Z, at the
+ * target 20 units away
+ */
+function fireAtTarget(room: Room): void {
+  room.tick(NOW);
+
+  const fired = room.fireProjectile('shooter', {
+    id: 'shell',
+    shell: 'ap',
+    position: { x: 0, y: 0.5, z: 0 },
+    direction: { x: 0, y: 0, z: 1 }
+  }, timeToTick(NOW), NOW);
+  expect(fired.ok).toBe(true);
+}
+
+// Striking the rear plate of a target facing away, as the shooter saw it when it fired
+const claim: ProjectileHitRequest = {
+  projectileId: 'shell',
+  targetId: 'target',
+  position: { x: 0, y: 0.3, z: 17.5 },
+  viewTime: NOW
+};
+const impactTime = NOW + 500;
+
+describe('Room countdown', () => {
+  const COUNTDOWN = DEFAULT_COUNTDOWN_DURATION * 1000; // ms
+
+  it('counts down once every player is ready, without waiting for spectators', () => {
+    const room = createRoom();
+    room.addMember('a', 'a');
+    room.addMember('b', 'b');
+    room.addMember('watcher', 'watcher', true);
+
+    room.setReady('a', true);
+    expect(room.getStatus()).toBe('waiting');
+
+    room.setReady('b', true);
+    expect(room.getStatus()).toBe('countdown');
+    expect(room.getInfo().countdown).toBe(DEFAULT_COUNTDOWN_DURATION);
+  });
+
+  it('goes back to waiting if someone isn\'t ready after all', () => {
+    const room = createRoom();
+    room.addMember('a', 'a');
+    room.setReady('a', true);
+
+    room.addMember('b', 'b');
+    expect(room.getStatus()).toBe('waiting');
+    expect(room.getInfo().countdown).toBe(0);
+
+    room.setReady('b', true);
+    room.setReady('a', false);
+    expect(room.getStatus()).toBe('waiting');
+  });
+
+  it('starts the match when the countdown runs out', () => {
+    const room = createRoom();
+    room.addMember('a', 'a');
+    const readyAt = Date.now();
+    room.setReady('a', true);
+
+    room.tick(readyAt + 2100);
+    expect(room.getInfo().countdown).toBe(DEFAULT_COUNTDOWN_DURATION - 2);
+
+    room.tick(readyAt + COUNTDOWN + 100);
+    expect(room.getStatus()).toBe('playing');
+    expect(room.getInfo().countdown).toBe(0);
+
+    // Readying up again only matters between matches
+    room.setReady('a', false);
+    expect(room.getStatus()).toBe('playing');
+  });
+});
+
+describe('Room.placeSpawn', () => {
+  const edge = MAP_SIZE / 2 - SPAWN_MARGIN;
+
+  it('lets tanks spawn anywhere on the map', () => {
+    const room = createRoom();
+    room.addMember('a', 'a');
+
+    expect(room.placeSpawn('a', { x: -edge, y: 3, z: 100 })).toEqual({
+      position: { x: -edge, y: 3, z: 100 },
+      violation: null
+    });
+  });
+
+  it('puts tanks spawning off the map back on it', () => {
+    const room = createRoom();
+    room.addMember('a', 'a');
+
+    expect(room.placeSpawn('a', { x: 2000, y: 3, z: -edge - 1 })).toEqual({
+      position: { x: edge, y: 3, z: -edge },
+      violation: 'spawned outside the map'
+    });
+  });
+});
+
+describe('Room.applyInput', () => {
+  /**
+   * Driving forward for a tenth of a second from a standstill at the origin,
+   * with the position the shared movement model predicts
+   */
+  function driveForward(sequence: number): PlayerInputMessage {
+    const input = {
+      sequence,
+      delta: 0.1,
+      forward: true,
+      backward: false,
+      left: false,
+      right: false,
+      turretRotation: 0,
+      reload: false,
+      repair: false,
+      shell: 'ap' as const
+    };
+    const predicted = stepTankMovement({ x: 0, z: 0, heading: 0, speed: 0 }, input, input.delta);
+
+    return { ...input, position: { x: predicted.x, y: 0, z: predicted.z }, heading: predicted.heading };
+  }
+
+  it('keeps a prediction that matches the model', () => {
+    const room = createRoom();
+    const tank = spawnTank(room, 'a', 0, 0);
+    const input = driveForward(0);
+
+    expect(room.applyInput('a', input, NOW)).toBeNull();
+    expect(tank.position).toEqual(input.position);
+    expect(tank.lastProcessedInput).toBe(0);
+  });
+
+  it('puts a tank back where the model has it when the prediction is way off', () => {
+    const room = createRoom();
+    const tank = spawnTank(room, 'a', 0, 0);
+    const input = driveForward(0);
+
+    room.applyInput('a', { ...input, position: { x: 0, y: 0, z: 50 } }, NOW);
+    expect(tank.position.z).toBeCloseTo(input.position.z);
+  });
+
+  it('flags inputs covering more time than has passed', () => {
+    const room = createRoom();
+    spawnTank(room, 'a', 0, 0);
+
+    // The budget covers a second of buffered input and no more
+    for (let sequence = 0; sequence < 10; sequence++) {
+      expect(room.applyInput('a', { ...driveForward(sequence), position: { x: 0, y: 0, z: 0 } }, NOW)).toBeNull();
+    }
+    expect(room.applyInput('a', { ...driveForward(10), position: { x: 0, y: 0, z: 0 } }, NOW))
+      .toBe('sent inputs faster than real time');
+  });
+});
+
+describe('Room.validateHit', () => {
+  /**
+   * The shooter at the origin fires an AP shell straight down +Z at the target,
+   * 20 units away and facing away from it
+   */
+  function setUp() {
+    const room = createRoom();
+    spawnTank(room, 'shooter', 0, 0);
+    const target = spawnTank(room, 'target', 0, 20);
+    fireAtTarget(room);
+
+    return { room, target };
+  }
+
+  it('damages the target for a hit that checks out', () => {
+    const { room, target } = setUp();
+    const result = room.validateHit('shooter', claim, impactTime);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.value.result).toMatchObject({ targetId: 'target', zone: 'rear', result: 'penetrated' });
+    expect(result.value.hit).toMatchObject({ playerId: 'target', killerId: 'shooter', damage: SHELLS.ap.damage });
+    expect(target.health).toBe(TANK_MAX_HEALTH - SHELLS.ap.damage);
+  });
+
+  it('checks the hit against where the shooter saw the target', () => {
+    const { room, target } = setUp();
+
+    // The target has since driven on
+    target.position = { x: 0, y: 0, z: 40 };
+    room.tick(NOW + 100);
+
+    expect(room.validateHit('shooter', { ...claim, viewTime: NOW + 100 }, impactTime))
+      .toEqual({ ok: false, reason: 'impact misses the target' });
+    expect(room.validateHit('shooter', claim, impactTime).ok).toBe(true);
+  });
+
+  it('only lets a shell hit once', () => {
+    const { room } = setUp();
+
+    expect(room.validateHit('shooter', claim, impactTime).ok).toBe(true);
+    expect(room.validateHit('shooter', claim, impactTime))
+      .toEqual({ ok: false, reason: 'unknown or expired projectile' });
+  });
+
+  it('rejects hits with another player\'s shell', () => {
+    const { room } = setUp();
+
+    expect(room.validateHit('target', { ...claim, targetId: 'shooter' }, impactTime))
+      .toEqual({ ok: false, reason: 'projectile belongs to another player' });
+  });
+
+  it('rejects impacts the shell could not have reached', () => {
+    const { room } = setUp();
+
+    expect(room.validateHit('shooter', claim, NOW + 50))
+      .toEqual({ ok: false, reason: 'impact is out of range' });
+    expect(room.validateHit('shooter', { ...claim, position: { x: 3, y: 0.3, z: 17.5 } }, impactTime))
+      .toEqual({ ok: false, reason: 'impact is off the line of fire' });
+    expect(room.validateHit('shooter', { ...claim, position: { x: 0, y: 10, z: 17.5 } }, impactTime))
+      .toEqual({ ok: false, reason: 'impact is off the shell\'s arc' });
+  });
+
+  it('rejects hits on dead tanks', () => {
+    const { room, target } = setUp();
+    target.health = 0;
+
+    expect(room.validateHit('shooter', claim, impactTime))
+      .toEqual({ ok: false, reason: 'target is already dead' });
+  });
+});
+
+describe('Room.validateExplosion', () => {
+  /**
+   * The shooter at the origin lobs an HE shell down +Z, which goes off on the
+   * ground 10 units out, half a unit short of the rear of the tank in front
+   */
+  function setUp() {
+    const room = createRoom();
+    const shooter = spawnTank(room, 'shooter', 0, 0);
+    const near = spawnTank(room, 'near', 0, 13);
+    const far = spawnTank(room, 'far', 0, 40);
+    room.tick(NOW);
+
+    // Loaded with HE well before the shot
+    shooter.weapon.select('he', NOW - 10000);
+    const fired = room.fireProjectile('shooter', {
+      id: 'shell',
+      shell: 'he',
+      position: { x: 0, y: 0.5, z: 0 },
+      direction: { x: 0, y: 0, z: 1 }
+    }, timeToTick(NOW), NOW);
+    expect(fired.ok).toBe(true);
+
+    return { room, near, far };
+  }
+
+  const explosion: ProjectileExplodedRequest = {
+    projectileId: 'shell',
+    position: { x: 0, y: 0, z: 10 },
+    viewTime: NOW,
+    targetIds: ['near', 'far']
+  };
+
+  it('damages tanks in the blast, less the further they are from it', () => {
+    const { room, near, far } = setUp();
+    const result = room.validateExplosion('shooter', explosion, impactTime);
+
+    const damage = splashDamage(SHELLS.he, 0.5);
+    expect(damage).toBeLessThan(SHELLS.he.damage);
+    expect(result).toEqual({ ok: true, value: [{ playerId: 'near', damage, killerId: 'shooter', module: undefined }] });
+    expect(near.health).toBe(TANK_MAX_HEALTH - damage);
+    expect(far.health).toBe(TANK_MAX_HEALTH);
+  });
+
+  it('counts each tank named once, and never the shooter', () => {
+    const { room, near } = setUp();
+    const claimed = { ...explosion, targetIds: ['near', 'near', 'shooter'] };
+
+    expect(room.validateExplosion('shooter', claimed, impactTime).ok).toBe(true);
+    expect(near.health).toBe(TANK_MAX_HEALTH - splashDamage(SHELLS.he, 0.5));
+    expect(room.getPlayer('shooter')!.health).toBe(TANK_MAX_HEALTH);
+  });
+
+  it('only lets splash shells explode', () => {
+    const room = createRoom();
+    spawnTank(room, 'shooter', 0, 0);
+    spawnTank(room, 'target', 0, 20);
+    fireAtTarget(room);
+
+    expect(room.validateExplosion('shooter', { ...explosion, targetIds: [] }, impactTime))
+      .toEqual({ ok: false, reason: 'shell does not explode' });
+  });
+});
+
+describe('Room area of interest', () => {
+  /**
+   * A room with a viewer connected over loopback, playing or spectating,
+   * recording which tanks it is told come into and go out of view
+   */
+  async function setUp(spectator: boolean = false) {
+    const transport = new LoopbackServerTransport();
+    await transport.start();
+
+    const events: string[] = [];
+    const connection = transport.connect({
+      receive: (event, data) => {
+        if (event === 'entityEntered' || event === 'entityLeft') {
+          events.push(`${event} ${(data as { id: string }).id}`);
+        }
+      },
+      closed: () => {}
+    });
+
+    const room = createRoom('deathmatch', false, transport);
+    if (spectator) {
+      room.addMember(connection.id, 'watcher', true);
+      room.addSpectator(connection.id);
+    } else {
+      spawnTank(room, connection.id, 0, 0);
+    }
+
+    // Messages arrive asynchronously, like over a network
+    const tick = async (now: number) => {
+      room.tick(now);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    };
+
+    return { room, events, tick };
+  }
+
+  it('only tells a player about tanks in range', async () => {
+    const { room, events, tick } = await setUp();
+    spawnTank(room, 'near', DEFAULT_INTEREST_RADIUS - 10, 0);
+    spawnTank(room, 'far', 0, DEFAULT_INTEREST_RADIUS + 10);
+
+    await tick(NOW);
+    expect(events).toEqual(['entityEntered near']);
+  });
+
+  it('lets tanks drift a little out of range before dropping them', async () => {
+    const { room, events, tick } = await setUp();
+    const tank = spawnTank(room, 'tank', DEFAULT_INTEREST_RADIUS - 10, 0);
+    await tick(NOW);
+
+    tank.position = { x: DEFAULT_INTEREST_RADIUS + 10, y: 0, z: 0 };
+    await tick(NOW + 50);
+    expect(events).toEqual(['entityEntered tank']);
+
+    tank.position = { x: DEFAULT_INTEREST_RADIUS * 2, y: 0, z: 0 };
+    await tick(NOW + 100);
+    expect(events).toEqual(['entityEntered tank', 'entityLeft tank']);
+  });
+
+  it('shows spectators every tank, wherever it is', async () => {
+    const { room, events, tick } = await setUp(true);
+    spawnTank(room, 'near', 0, 0);
+    spawnTank(room, 'far', DEFAULT_INTEREST_RADIUS * 3, 0);
+
+    await tick(NOW);
+    expect(events.sort()).toEqual(['entityEntered far', 'entityEntered near']);
+  });
+});
+
+describe('Room teams', () => {
+  it('evens out the teams as members join', () => {
+    const room = createRoom('teamDeathmatch');
+    ['a', 'b', 'c'].forEach(id => room.addMember(id, id));
+    room.addMember('watcher', 'watcher', true);
+
+    expect(['a', 'b', 'c'].map(id => room.getTeam(id))).toEqual(['red', 'blue', 'red']);
+    expect(room.getTeam('watcher')).toBeNull();
+    expect(room.areTeammates('a', 'c')).toBe(true);
+    expect(room.areTeammates('a', 'b')).toBe(false);
+  });
+
+  it('keeps tanks to their own team\'s base', () => {
+    const room = createRoom('teamDeathmatch');
+    room.addMember('red', 'red');
+
+    const base = TEAMS.red.spawn;
+    expect(room.placeSpawn('red', { x: base.x + 10, y: 0, z: base.z }).violation).toBeNull();
+
+    // Spawning in the other team's base lands on the near edge of its own
+    const spawn = room.placeSpawn('red', { x: TEAMS.blue.spawn.x, y: 0, z: TEAMS.blue.spawn.z });
+    expect(spawn.violation).toBe('spawned outside its team\'s base');
+    expect(spawn.position.x).toBeGreaterThan(base.x + base.radius);
+    expect(spawn.position.x).toBeLessThan(base.x + base.radius + 2);
+    expect(spawn.position.z).toBeCloseTo(base.z);
+  });
+
+  /**
+   * A red shooter firing at a red teammate, with a blue tank out of the way
+   */
+  function shootTeammate(friendlyFire: boolean, health: number = TANK_MAX_HEALTH) {
+    const room = createRoom('teamDeathmatch', friendlyFire);
+    spawnTank(room, 'shooter', 0, 0);
+    spawnTank(room, 'enemy', 100, 100);
+    const target = spawnTank(room, 'target', 0, 20);
+    target.health = health;
+    fireAtTarget(room);
+
+    return { room, target, result: room.validateHit('shooter', claim, impactTime) };
+  }
+
+  it('lets teammates hurt each other only with friendly fire on', () => {
+    expect(shootTeammate(false).result).toEqual({ ok: false, reason: 'friendly fire is off' });
+    expect(shootTeammate(true).result.ok).toBe(true);
+  });
+
+  it('scores nothing for killing a teammate', () => {
+    const { room, target } = shootTeammate(true, 1);
+
+    expect(target.health).toBe(0);
+    expect(room.getTeamScores()).toEqual([{ team: 'red', kills: 0 }, { team: 'blue', kills: 0 }]);
+    expect(room.getScores().find(score => score.id === 'target')?.deaths).toBe(1);
+  });
+});
+
+describe('Room.collectPickup', () => {
+  // The health pickup in the middle of the map
+  const pickup = { pickupId: 'health-1' };
+  const respawnAt = NOW + PICKUPS.health.respawnTime * 1000;
+
+  it('heals a tank that drives into a health pickup, up to full', () => {
+    const room = createRoom();
+    const tank = spawnTank(room, 'a', 1, 1);
+    tank.health = 80;
+
+    expect(room.collectPickup('a', pickup, NOW))
+      .toEqual({ ok: true, value: { pickupId: 'health-1', playerId: 'a', respawnAt } });
+    expect(tank.health).toBe(Math.min(TANK_MAX_HEALTH, 80 + HEALTH_PICKUP_AMOUNT));
+  });
+
+  it('keeps a taken pickup away until it respawns', () => {
+    const room = createRoom();
+    spawnTank(room, 'a', 0, 0);
+    spawnTank(room, 'b', 0, 0);
+    room.collectPickup('a', pickup, NOW);
+
+    expect(room.getPickupList(NOW + 1000)).toEqual({ taken: [{ pickupId: 'health-1', respawnAt }] });
+    expect(room.collectPickup('b', pickup, NOW + 1000))
+      .toEqual({ ok: false, reason: 'pickup was already taken' });
+
+    // A client bringing it back a little early still gets it
+    expect(room.collectPickup('b', pickup, respawnAt - TIMING_TOLERANCE).ok).toBe(true);
+  });
+
+  it('forgets pickups once they are back', () => {
+    const room = createRoom();
+    spawnTank(room, 'a', 0, 0);
+    room.collectPickup('a', pickup, NOW);
+
+    expect(room.getPickupList(respawnAt)).toEqual({ taken: [] });
+  });
+
+  it('rejects pickups out of reach, or for dead tanks', () => {
+    const room = createRoom();
+    const tank = spawnTank(room, 'a', 0, 30);
+
+    expect(room.collectPickup('a', pickup, NOW)).toEqual({ ok: false, reason: 'too far from the pickup' });
+    expect(room.collectPickup('a', { pickupId: 'nowhere' }, NOW)).toEqual({ ok: false, reason: 'unknown pickup' });
+
+    tank.position = { x: 0, y: 0, z: 0 };
+    tank.health = 0;
+    expect(room.collectPickup('a', pickup, NOW)).toEqual({ ok: false, reason: 'collected a pickup while dead' });
+  });
+
+  it('boosts the damage of shells fired while the damage pickup lasts', () => {
+    const room = createRoom();
+    const shooter = spawnTank(room, 'shooter', 0, 100);
+    const target = spawnTank(room, 'target', 0, 20);
+
+    // Pick up the damage boost, then drive back to take the shot
+    expect(room.collectPickup('shooter', { pickupId: 'damage-1' }, NOW).ok).toBe(true);
+    shooter.position = { x: 0, y: 0, z: 0 };
+
+    fireAtTarget(room);
+    room.validateHit('shooter', claim, impactTime);
+    expect(target.health).toBe(TANK_MAX_HEALTH - scaleDamage(SHELLS.ap.damage, true, false));
+  });
+});
+
+describe('Room spectators', () => {
+  it('keeps separate places for players and spectators', () => {
+    const room = new Room(
+      { id: 'room', name: 'Test room', maxPlayers: 2, mode: 'deathmatch', friendlyFire: false },
+      new LoopbackServerTransport(),
+      () => {}
+    );
+
+    room.addMember('a', 'a');
+    for (let i = 0; i < MAX_SPECTATORS - 1; i++) {
+      room.addMember(`watcher${i}`, `watcher${i}`, true);
+    }
+    expect(room.isFull()).toBe(false);
+    expect(room.isFullOfSpectators()).toBe(false);
+
+    room.addMember('b', 'b');
+    room.addMember('last', 'last', true);
+    expect(room.isFull()).toBe(true);
+    expect(room.isFullOfSpectators()).toBe(true);
+  });
+
+  it('leaves spectators off the teams and the scoreboard', () => {
+    const room = createRoom('teamDeathmatch');
+    room.addMember('watcher', 'watcher', true);
+    room.addMember('a', 'a');
+
+    expect(room.isSpectator('watcher')).toBe(true);
+    expect(room.getTeam('watcher')).toBeNull();
+    expect(room.getScores().map(score => score.id)).toEqual(['a']);
+  });
+});
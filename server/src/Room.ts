@@ -0,0 +1,1159 @@
+import { ServerTransport } from './ServerTransport';
+import {
+  PlayerUpdateMessage,
+  PlayerJoinedMessage,
+  PlayerInputMessage,
+  PlayerHitMessage,
+  ShotResultMessage,
+  MatchStartedMessage,
+  MatchEndedMessage,
+  ChatMessage,
+  MatchScore,
+  TeamScore,
+  ProjectileFiredMessage,
+  ProjectileFiredRequest,
+  ProjectileHitRequest,
+  ProjectileExplodedRequest,
+  PickupCollectRequest,
+  PickupTakenMessage,
+  PickupListMessage,
+  RoomInfo,
+  RoomSettings,
+  RoomStatus,
+  ServerMessages,
+  ServerMessageType,
+  MAX_SPECTATORS,
+  KILL_LIMIT,
+  TEAM_KILL_LIMIT,
+  PROTOCOL_VERSION,
+  Vector3Data
+} from '../../shared/protocol';
+import { stepTankMovement, angleDifference, TANK_MOVEMENT } from '../../shared/TankMovement';
+import { QuantizedEntity, encodeSnapshot, quantizeEntity } from '../../shared/SnapshotCodec';
+import { SnapshotHistory } from './SnapshotHistory';
+import { HitboxHistory } from './HitboxHistory';
+import { SpatialGrid } from './SpatialGrid';
+import { WeaponState, TIMING_TOLERANCE } from './WeaponState';
+import { ModuleState } from './ModuleState';
+import { ValidationResult } from '../../shared/validation';
+import { tickToTime, timeToTick } from '../../shared/SimulationClock';
+import { ReplayWriter, ReplayEventType, isReplayEvent } from '../../shared/ReplayFormat';
+import { CHAT_HISTORY_LENGTH } from './Chat';
+import { SHELLS, splashDamage } from '../../shared/Weapons';
+import { shellPosition, shellVelocity, timeToTravel, travelDistance } from '../../shared/Ballistics';
+import {
+  resolveArmorHit,
+  ricochetVelocity,
+  hitboxContains,
+  hitboxDistance,
+  TANK_HALF_LENGTH,
+  TANK_HALF_WIDTH
+} from '../../shared/Armor';
+import { TankModule, BROKEN_GUN_RELOAD, getMovementParams, moduleForHit } from '../../shared/Modules';
+import { TeamId, TEAM_IDS, TEAMS, isTeamMode, clampToSpawnArea } from '../../shared/Teams';
+import { clampToMap } from '../../shared/Spawns';
+import {
+  PickupType,
+  PICKUPS,
+  PICKUP_RADIUS,
+  HEALTH_PICKUP_AMOUNT,
+  SPEED_BOOST,
+  getPickupSpawn,
+  scaleDamage
+} from '../../shared/Pickups';
+
+export interface PlayerState extends Omit<PlayerUpdateMessage, 'timestamp'> {
+  netId: number;
+  username: string;
+  color: number;
+  team: TeamId | null;
+  maxHealth: number;
+  heading: number;
+  speed: number;
+  lastProcessedInput: number;
+  weapon: WeaponState;
+  modules: ModuleState;
+  effects: Map<PickupType, number>; // Pickup effects -> server time (ms) they wear off
+  diedAt: number | null; // Server time (ms) of the last death, while dead
+  inputBudget: number; // Seconds of input the client may still send
+  lastInputAt: number;
+}
+
+// How far a client's predicted state may drift from the server model before it is overridden
+const POSITION_TOLERANCE = 1.5;
+const HEADING_TOLERANCE = 0.2;
+
+// Longest frame the server will simulate for a single input
+export const MAX_INPUT_DELTA = 0.1; // s
+
+// Clients can't send more input time than has actually passed, give or take this much buffering
+export const MAX_INPUT_BUDGET = 1; // s
+
+// Tanks can be pushed along a little faster than they drive, e.g. by collisions
+const SPEED_TOLERANCE = 1.25;
+const MOVE_EPSILON = 0.05; // units
+
+// Moving this many times further than allowed is cheating rather than physics
+const SPEED_VIOLATION_FACTOR = 2;
+
+// Furthest a shot may start from the shooter's tank
+const MUZZLE_RANGE = 8;
+
+// Net IDs are sent as uint16
+const MAX_NET_ID = 0xffff;
+
+// Hit validation
+const MAX_REWIND = 500; // Furthest back in time a shooter's view is trusted (ms)
+const HIT_TOLERANCE = 1; // Slack around hitboxes and projectile paths (units)
+const DROP_TOLERANCE = 2; // Slack in the height of an impact along a shell's arc (units)
+
+// Furthest the middle of a tank may be from a pickup it drives into: the trigger,
+// plus the hull's corner, plus however far the client's prediction may drift
+const PICKUP_REACH = PICKUP_RADIUS + Math.hypot(TANK_HALF_WIDTH, TANK_HALF_LENGTH) + POSITION_TOLERANCE;
+
+export const TANK_MAX_HEALTH = 100; // Matches Tank.maxHealth
+
+/**
+ * What a direct hit did: the result for the shooter's HUD, plus the damage to
+ * announce if any got through
+ */
+export interface HitOutcome {
+  result: ShotResultMessage;
+  hit: PlayerHitMessage | null;
+}
+
+interface MemberState {
+  netId: number;
+  username: string;
+  ready: boolean;
+  spectator: boolean;
+  team: TeamId | null;
+  kills: number; // This match
+  deaths: number;
+}
+
+// Seconds between everyone being ready and the match starting
+export const DEFAULT_COUNTDOWN_DURATION = 5;
+
+// Area of interest: clients only hear about tanks within this distance of their own
+export const DEFAULT_INTEREST_RADIUS = 250;
+
+// Tanks drop out of interest a little further out than they come in, so one
+// moving along the edge doesn't keep appearing and disappearing
+const INTEREST_HYSTERESIS = 1.2;
+
+const GRID_CELL_SIZE = 100;
+
+export class Room {
+  private settings: RoomSettings;
+  private transport: ServerTransport;
+  private onChange: (room: Room) => void;
+  private status: RoomStatus = 'waiting';
+  private countdownEndsAt: number = 0;
+  private countdown: number = 0;
+  private startedAt: number = 0;
+  private players: Map<string, PlayerState> = new Map();
+  private spectators: Set<string> = new Set(); // Spectating members watching the match
+  private members: Map<string, MemberState> = new Map();
+  private snapshotHistories: Map<string, SnapshotHistory> = new Map();
+  private snapshotSequence: number = 0;
+  private nextNetId: number = 1;
+  private hitboxes: HitboxHistory = new HitboxHistory();
+  private projectiles: Map<string, ProjectileFiredMessage> = new Map();
+  private interestRadius: number;
+  private grid: SpatialGrid = new SpatialGrid(GRID_CELL_SIZE);
+  private interests: Map<string, Set<string>> = new Map(); // Player ID -> IDs of tanks it can see
+  private chatHistory: ChatMessage[] = [];
+  private teamKills: Map<TeamId, number> = new Map(); // This match
+  private pickupRespawns: Map<string, number> = new Map(); // Taken pickup ID -> server time (ms) it's back
+  private recordReplays: boolean;
+  private countdownDuration: number; // Seconds
+  private replay: ReplayWriter | null = null; // The match being recorded
+
+  /**
+   * @param onChange Called whenever the lobby-visible state of the room changes
+   * @param interestRadius How far from their tank players receive updates about other tanks
+   * @param recordReplays Whether to record matches for takeReplay()
+   * @param countdownDuration Seconds between everyone being ready and the match starting
+   */
+  constructor(
+    settings: RoomSettings,
+    transport: ServerTransport,
+    onChange: (room: Room) => void,
+    interestRadius: number = DEFAULT_INTEREST_RADIUS,
+    recordReplays: boolean = false,
+    countdownDuration: number = DEFAULT_COUNTDOWN_DURATION
+  ) {
+    this.settings = settings;
+    this.transport = transport;
+    this.onChange = onChange;
+    this.interestRadius = interestRadius;
+    this.recordReplays = recordReplays;
+    this.countdownDuration = countdownDuration;
+  }
+
+  public getId(): string {
+    return this.settings.id;
+  }
+
+  public getName(): string {
+    return this.settings.name;
+  }
+
+  public getSettings(): RoomSettings {
+    return { ...this.settings };
+  }
+
+  public getStatus(): RoomStatus {
+    return this.status;
+  }
+
+  /**
+   * Describe the room for the lobby
+   */
+  public getInfo(): RoomInfo {
+    return {
+      ...this.settings,
+      status: this.status,
+      countdown: this.countdown,
+      members: Array.from(this.members.entries()).map(([id, member]) => ({
+        id,
+        username: member.username,
+        ready: member.ready,
+        spectator: member.spectator,
+        team: member.team
+      })),
+      teamScores: this.getTeamScores()
+    };
+  }
+
+  /**
+   * Channel name used for broadcasting to spawned players
+   */
+  public getChannel(): string {
+    return `room:${this.settings.id}`;
+  }
+
+  /**
+   * Channel name used for broadcasting to every member, spawned or not
+   */
+  public getMemberChannel(): string {
+    return `room:${this.settings.id}:members`;
+  }
+
+  /**
+   * Add a client to the room and return the net ID its tank will use in snapshots.
+   * Spectators get one too, but never spawn a tank to use it.
+   */
+  public addMember(clientId: string, username: string, spectator: boolean = false): number {
+    const existing = this.members.get(clientId);
+    if (existing) return existing.netId;
+
+    const inUse = new Set(Array.from(this.members.values()).map(member => member.netId));
+    while (inUse.has(this.nextNetId)) {
+      this.nextNetId = this.nextNetId % MAX_NET_ID + 1;
+    }
+
+    const netId = this.nextNetId;
+    this.nextNetId = this.nextNetId % MAX_NET_ID + 1;
+
+    // Newcomers even out the teams; spectators don't play for either
+    const team = !spectator && this.hasTeams() ? this.pickTeam() : null;
+
+    this.members.set(clientId, { netId, username, ready: false, spectator, team, kills: 0, deaths: 0 });
+    this.snapshotHistories.set(clientId, new SnapshotHistory());
+
+    // A newcomer who isn't ready yet holds up the countdown
+    this.updateCountdown();
+    this.changed();
+
+    return netId;
+  }
+
+  public removeMember(clientId: string): void {
+    this.members.delete(clientId);
+    this.players.delete(clientId);
+    this.spectators.delete(clientId);
+    this.snapshotHistories.delete(clientId);
+    this.grid.remove(clientId);
+    this.interests.delete(clientId);
+    this.interests.forEach(interest => interest.delete(clientId));
+
+    this.updateCountdown();
+    this.changed();
+  }
+
+  public setReady(clientId: string, ready: boolean): void {
+    const member = this.members.get(clientId);
+    if (!member || member.ready === ready) return;
+
+    member.ready = ready;
+
+    this.updateCountdown();
+    this.changed();
+  }
+
+  public getNetId(clientId: string): number | undefined {
+    return this.members.get(clientId)?.netId;
+  }
+
+  public hasMember(clientId: string): boolean {
+    return this.members.has(clientId);
+  }
+
+  public getMemberIds(): string[] {
+    return Array.from(this.members.keys());
+  }
+
+  public getMemberName(clientId: string): string | undefined {
+    return this.members.get(clientId)?.username;
+  }
+
+  /**
+   * Look up a member by name, ignoring case
+   */
+  public findMember(username: string): string | undefined {
+    const wanted = username.toLowerCase();
+
+    for (const [id, member] of this.members) {
+      if (member.username.toLowerCase() === wanted) return id;
+    }
+
+    return undefined;
+  }
+
+  public hasTeams(): boolean {
+    return isTeamMode(this.settings.mode);
+  }
+
+  /**
+   * The team a member plays for, or null in modes without teams
+   */
+  public getTeam(clientId: string): TeamId | null {
+    return this.members.get(clientId)?.team ?? null;
+  }
+
+  /**
+   * Whether two members play for the same team
+   */
+  public areTeammates(clientId: string, otherId: string): boolean {
+    const team = this.getTeam(clientId);
+    return team !== null && team === this.getTeam(otherId);
+  }
+
+  /**
+   * Kills each team has made this match, or nothing in modes without teams
+   */
+  public getTeamScores(): TeamScore[] {
+    if (!this.hasTeams()) return [];
+
+    return TEAM_IDS.map(team => ({ team, kills: this.teamKills.get(team) || 0 }));
+  }
+
+  /**
+   * The team with the fewest players, for balancing out a newcomer
+   */
+  private pickTeam(): TeamId {
+    const counts = new Map<TeamId, number>(TEAM_IDS.map(team => [team, 0]));
+    this.members.forEach(member => {
+      if (member.team) counts.set(member.team, counts.get(member.team)! + 1);
+    });
+
+    return TEAM_IDS.reduce((smallest, team) => counts.get(team)! < counts.get(smallest)! ? team : smallest);
+  }
+
+  public addChatHistory(message: ChatMessage): void {
+    this.record('chatMessage', message);
+    this.chatHistory.push(message);
+    if (this.chatHistory.length > CHAT_HISTORY_LENGTH) this.chatHistory.shift();
+  }
+
+  public getChatHistory(): ChatMessage[] {
+    return [...this.chatHistory];
+  }
+
+  public getMemberCount(): number {
+    return this.members.size;
+  }
+
+  public isSpectator(clientId: string): boolean {
+    return !!this.members.get(clientId)?.spectator;
+  }
+
+  public isFull(): boolean {
+    return this.countMembers(false) >= this.settings.maxPlayers;
+  }
+
+  public isFullOfSpectators(): boolean {
+    return this.countMembers(true) >= MAX_SPECTATORS;
+  }
+
+  private countMembers(spectators: boolean): number {
+    return Array.from(this.members.values()).filter(member => member.spectator === spectators).length;
+  }
+
+  public isEmpty(): boolean {
+    return this.members.size === 0;
+  }
+
+  public setPlayer(state: PlayerState): void {
+    this.players.set(state.id, state);
+    this.interests.set(state.id, new Set());
+    this.grid.update(state.id, state.position.x, state.position.z);
+  }
+
+  /**
+   * Start sending a spectator the match as it happens, with every tank in view
+   */
+  public addSpectator(clientId: string): void {
+    this.spectators.add(clientId);
+    this.interests.set(clientId, new Set());
+  }
+
+  public isSpectating(clientId: string): boolean {
+    return this.spectators.has(clientId);
+  }
+
+  /**
+   * Hold a position a client wants to spawn at to where tanks may spawn: their
+   * team's base in team modes, anywhere on the map otherwise. Returns the
+   * position, moved to the nearest allowed point if need be, and the rule it
+   * broke if any.
+   */
+  public placeSpawn(clientId: string, position: Vector3Data): { position: Vector3Data; violation: string | null } {
+    const team = this.getTeam(clientId);
+    if (team) {
+      const { x, z } = clampToSpawnArea(TEAMS[team].spawn, position, POSITION_TOLERANCE);
+      if (x !== position.x || z !== position.z) {
+        return { position: { x, y: position.y, z }, violation: 'spawned outside its team\'s base' };
+      }
+    }
+
+    const clamped = clampToMap(position);
+    if (clamped.x !== position.x || clamped.z !== position.z) {
+      return { position: clamped, violation: 'spawned outside the map' };
+    }
+
+    return { position, violation: null };
+  }
+
+  public getPlayer(clientId: string): PlayerState | undefined {
+    return this.players.get(clientId);
+  }
+
+  public getPlayers(): PlayerState[] {
+    return Array.from(this.players.values());
+  }
+
+  /**
+   * Simulate one input from a player's client. The client's own prediction is kept when it
+   * stays close to the server model, since only the client knows about terrain and obstacles.
+   * Returns the rule the input broke, if any; the state is kept within the rules regardless.
+   */
+  public applyInput(clientId: string, input: PlayerInputMessage, now: number = Date.now()): string | null {
+    const state = this.players.get(clientId);
+    if (!state) return null;
+
+    // Ignore stale or duplicated inputs
+    if (input.sequence <= state.lastProcessedInput) return null;
+
+    let violation: string | null = null;
+
+    // Each input spends the time it covers, and time is only earned by waiting for it
+    state.inputBudget = Math.min(MAX_INPUT_BUDGET, state.inputBudget + (now - state.lastInputAt) / 1000);
+    state.lastInputAt = now;
+
+    let delta = Math.max(0, Math.min(MAX_INPUT_DELTA, input.delta));
+    if (delta > state.inputBudget) {
+      violation = 'sent inputs faster than real time';
+      delta = Math.max(0, state.inputBudget);
+    }
+    state.inputBudget -= delta;
+
+    if (input.repair) {
+      state.modules.repair(now);
+    }
+
+    // Broken tracks or a broken engine hold the tank back, a speed boost pushes it on
+    const speedFactor = this.hasEffect(state, 'speed', now) ? SPEED_BOOST : 1;
+    const movement = getMovementParams(this.syncModules(state, now), speedFactor);
+    const simulated = stepTankMovement(
+      { x: state.position.x, z: state.position.z, heading: state.heading, speed: state.speed },
+      input,
+      delta,
+      movement
+    );
+
+    const positionError = Math.hypot(input.position.x - simulated.x, input.position.z - simulated.z);
+    const headingError = Math.abs(angleDifference(input.heading, simulated.heading));
+
+    // However close to the model, the tank can't have covered more ground than its top speed allows
+    const moved = Math.hypot(input.position.x - state.position.x, input.position.z - state.position.z);
+    const maxMove = movement.maxSpeed * delta * SPEED_TOLERANCE + MOVE_EPSILON;
+
+    // Positions far from the model are just a client that hasn't caught up with a correction yet.
+    // A module may have broken or a boost worn off since the client last heard, so only
+    // boosted top speed counts as cheating.
+    const fullMaxMove = TANK_MOVEMENT.maxSpeed * SPEED_BOOST * delta * SPEED_TOLERANCE + MOVE_EPSILON;
+    if (positionError <= POSITION_TOLERANCE && moved > fullMaxMove * SPEED_VIOLATION_FACTOR && !violation) {
+      violation = 'moved faster than the maximum speed';
+    }
+
+    if (positionError <= POSITION_TOLERANCE && moved <= maxMove) {
+      state.position = { x: input.position.x, y: input.position.y, z: input.position.z };
+    } else {
+      state.position = { x: simulated.x, y: input.position.y, z: simulated.z };
+    }
+
+    state.heading = headingError <= HEADING_TOLERANCE ? input.heading : simulated.heading;
+    state.speed = simulated.speed;
+    state.rotation = { x: 0, y: state.heading, z: 0 };
+    state.velocity = {
+      x: Math.sin(state.heading) * state.speed,
+      y: 0,
+      z: Math.cos(state.heading) * state.speed
+    };
+    state.turretRotation = input.turretRotation;
+    state.lastProcessedInput = input.sequence;
+
+    if (input.shell !== state.weapon.getShell()) {
+      state.weapon.select(input.shell, now);
+    }
+
+    if (input.reload) {
+      state.weapon.reload(now);
+    }
+
+    return violation;
+  }
+
+  public acknowledgeSnapshot(clientId: string, sequence: number): void {
+    this.snapshotHistories.get(clientId)?.acknowledge(sequence);
+  }
+
+  /**
+   * Make the next snapshot for a client a full one, and announce every tank in
+   * range again
+   */
+  public resetSnapshots(clientId: string): void {
+    this.snapshotHistories.get(clientId)?.acknowledge(-1);
+    this.interests.get(clientId)?.clear();
+  }
+
+  /**
+   * Advance the room by one server tick
+   */
+  public tick(now: number = Date.now()): void {
+    if (this.status === 'countdown') {
+      this.tickCountdown(now);
+    }
+
+    this.hitboxes.record(now, this.getPlayers());
+
+    this.projectiles.forEach((projectile, id) => {
+      if (now - projectile.firedAt > SHELLS[projectile.shell].lifetime * 1000) {
+        this.projectiles.delete(id);
+      }
+    });
+
+    this.updateInterests();
+    this.sendSnapshots(now);
+  }
+
+  /**
+   * Work out which tanks each player can see, telling clients about tanks that
+   * come into or go out of range
+   */
+  private updateInterests(): void {
+    this.players.forEach(state => this.grid.update(state.id, state.position.x, state.position.z));
+
+    this.players.forEach(state => {
+      const interest = this.interests.get(state.id);
+      if (!interest) return;
+
+      const { x, z } = state.position;
+      const nearby = new Set(this.grid.query(x, z, this.interestRadius * INTEREST_HYSTERESIS));
+
+      interest.forEach(id => {
+        if (!nearby.has(id)) {
+          interest.delete(id);
+          this.sendTo(state.id, 'entityLeft', { id });
+        }
+      });
+
+      nearby.forEach(id => {
+        if (id === state.id || interest.has(id)) return;
+
+        const other = this.players.get(id)!;
+        if (Math.hypot(other.position.x - x, other.position.z - z) > this.interestRadius) return;
+
+        interest.add(id);
+        this.sendTo(state.id, 'entityEntered', toJoinedMessage(other));
+      });
+    });
+
+    // Spectators aren't anywhere in particular, so they see the whole match
+    this.spectators.forEach(spectatorId => {
+      const interest = this.interests.get(spectatorId);
+      if (!interest) return;
+
+      this.players.forEach(state => {
+        if (interest.has(state.id)) return;
+
+        interest.add(state.id);
+        this.sendTo(spectatorId, 'entityEntered', toJoinedMessage(state));
+      });
+    });
+  }
+
+  /**
+   * The match announcement, for members that need to catch up with a match in progress
+   */
+  public getMatchStarted(): MatchStartedMessage {
+    return { room: this.getSettings(), startedAt: this.startedAt };
+  }
+
+  /**
+   * Everyone playing in the match, best first
+   */
+  public getScores(): MatchScore[] {
+    return Array.from(this.members.entries())
+      .filter(([, member]) => !member.spectator)
+      .map(([id, member]) => ({
+        id,
+        username: member.username,
+        team: member.team,
+        kills: member.kills,
+        deaths: member.deaths
+      }))
+      .sort((a, b) => b.kills - a.kills || a.deaths - b.deaths);
+  }
+
+  /**
+   * End the match once someone reaches the kill limit (or a team reaches the team
+   * limit), sending everyone back to the room to ready up for the next one.
+   * Returns the final scores if it ended.
+   */
+  public checkMatchEnd(): MatchEndedMessage | null {
+    if (this.status !== 'playing') return null;
+
+    const scores = this.getScores();
+    if (scores.length === 0) return null;
+
+    let result: MatchEndedMessage;
+
+    if (this.hasTeams()) {
+      const winner = this.getTeamScores().find(score => score.kills >= TEAM_KILL_LIMIT);
+      if (!winner) return null;
+
+      const best = scores.find(score => score.team === winner.team) || scores[0];
+      result = { winnerId: best.id, winningTeam: winner.team, scores };
+    } else {
+      if (scores[0].kills < KILL_LIMIT) return null;
+
+      result = { winnerId: scores[0].id, scores };
+    }
+
+    this.status = 'waiting';
+    this.players.forEach(state => this.grid.remove(state.id));
+    this.players.clear();
+    this.spectators.clear();
+    this.interests.clear();
+    this.projectiles.clear();
+    this.members.forEach(member => member.ready = false);
+
+    this.broadcastToMembers('matchEnded', result);
+    this.changed();
+
+    return result;
+  }
+
+  /**
+   * Start counting down once every member is ready, and stop if that changes
+   */
+  private updateCountdown(now: number = Date.now()): void {
+    if (this.status === 'playing') return;
+
+    // Spectators don't hold up the match
+    const players = Array.from(this.members.values()).filter(member => !member.spectator);
+    const allReady = players.length > 0 && players.every(member => member.ready);
+
+    if (allReady && this.status === 'waiting') {
+      this.status = 'countdown';
+      this.countdownEndsAt = now + this.countdownDuration * 1000;
+      this.countdown = Math.ceil(this.countdownDuration);
+    } else if (!allReady && this.status === 'countdown') {
+      this.status = 'waiting';
+      this.countdown = 0;
+    }
+  }
+
+  private tickCountdown(now: number): void {
+    const remaining = Math.max(0, Math.ceil((this.countdownEndsAt - now) / 1000));
+
+    if (remaining === 0) {
+      this.status = 'playing';
+      this.countdown = 0;
+      this.startedAt = this.countdownEndsAt;
+      this.members.forEach(member => {
+        member.kills = 0;
+        member.deaths = 0;
+      });
+      this.teamKills.clear();
+      this.pickupRespawns.clear();
+
+      if (this.recordReplays) {
+        this.replay = new ReplayWriter({
+          protocolVersion: PROTOCOL_VERSION,
+          room: this.getSettings(),
+          startedAt: this.startedAt,
+          startTick: timeToTick(this.startedAt)
+        });
+      }
+
+      this.broadcastToMembers('matchStarted', this.getMatchStarted());
+      this.changed();
+    } else if (remaining !== this.countdown) {
+      this.countdown = remaining;
+      this.changed();
+    }
+  }
+
+  /**
+   * Share the room's new state with its members and the lobby
+   */
+  private changed(): void {
+    this.broadcastToMembers('roomUpdated', this.getInfo());
+    this.onChange(this);
+  }
+
+  /**
+   * Check a shot against the shooter's weapon and, if it could have been fired,
+   * remember it so hits can be validated. Speed and damage come from the shell
+   * rather than the client.
+   *
+   * @param tick The tick the shooter fired at, trusted as far back as hits are rewound
+   */
+  public fireProjectile(
+    shooterId: string,
+    request: ProjectileFiredRequest,
+    tick: number,
+    now: number = Date.now()
+  ): ValidationResult<ProjectileFiredMessage> {
+    const shooter = this.players.get(shooterId);
+    if (!shooter) return { ok: false, reason: 'not spawned' };
+    if (shooter.health <= 0) return { ok: false, reason: 'fired while dead' };
+
+    const muzzleDistance = Math.hypot(
+      request.position.x - shooter.position.x,
+      request.position.z - shooter.position.z
+    );
+    if (muzzleDistance > MUZZLE_RANGE) return { ok: false, reason: 'fired from away from its tank' };
+
+    const directionLength = Math.hypot(request.direction.x, request.direction.y, request.direction.z);
+    if (directionLength === 0) return { ok: false, reason: 'fired without a direction' };
+
+    this.syncModules(shooter, now);
+    const fired = shooter.weapon.fire(request.shell, now);
+    if (!fired.ok) return fired;
+
+    const shell = SHELLS[request.shell];
+    const projectile: ProjectileFiredMessage = {
+      id: request.id,
+      shell: request.shell,
+      position: request.position,
+      direction: {
+        x: request.direction.x / directionLength,
+        y: request.direction.y / directionLength,
+        z: request.direction.z / directionLength
+      },
+      speed: shell.speed,
+      damage: shell.damage,
+      ownerId: shooterId,
+      firedAt: Math.max(now - MAX_REWIND, Math.min(now, tickToTime(tick)))
+    };
+
+    this.projectiles.set(projectile.id, projectile);
+    return { ok: true, value: projectile };
+  }
+
+  /**
+   * Check a shooter's hit claim against the target's hitbox as the shooter saw it.
+   * The target's armor decides what a valid hit does: a shell that glances off
+   * flies on from the impact, anything else is spent there and does whatever
+   * damage got through. Teammates can only hurt each other with friendly fire on,
+   * and killing one scores nothing.
+   */
+  public validateHit(
+    shooterId: string,
+    claim: ProjectileHitRequest,
+    now: number = Date.now()
+  ): ValidationResult<HitOutcome> {
+    const projectile = this.projectiles.get(claim.projectileId);
+    if (!projectile) return { ok: false, reason: 'unknown or expired projectile' };
+    if (projectile.ownerId !== shooterId) return { ok: false, reason: 'projectile belongs to another player' };
+
+    const target = this.players.get(claim.targetId);
+    if (!target) return { ok: false, reason: 'unknown target' };
+    if (target.id === shooterId) return { ok: false, reason: 'players cannot hit themselves' };
+    if (target.health <= 0) return { ok: false, reason: 'target is already dead' };
+
+    if (this.areTeammates(shooterId, target.id) && !this.settings.friendlyFire) {
+      return { ok: false, reason: 'friendly fire is off' };
+    }
+
+    const impact = this.checkImpact(projectile, claim.position, now);
+    if (!impact.ok) return impact;
+
+    // Rewind the target to what the shooter was looking at
+    const viewTime = Math.max(now - MAX_REWIND, Math.min(now, claim.viewTime));
+    const hitbox = this.hitboxes.getHitbox(target.id, viewTime);
+    if (!hitbox || !hitboxContains(hitbox, claim.position, HIT_TOLERANCE)) {
+      return { ok: false, reason: 'impact misses the target' };
+    }
+
+    const shell = SHELLS[projectile.shell];
+    const flightTime = impact.value;
+    const velocity = shellVelocity(this.getLaunchVelocity(projectile), shell, flightTime);
+    const armorHit = resolveArmorHit(shell, hitbox, claim.position, velocity);
+
+    if (armorHit.result === 'bounced') {
+      // Carry on from the impact as if fired from there, so later hits check out against the new path
+      const bounced = ricochetVelocity(velocity, armorHit.normal);
+      const speed = Math.hypot(bounced.x, bounced.y, bounced.z);
+      this.projectiles.set(projectile.id, {
+        ...projectile,
+        position: claim.position,
+        direction: { x: bounced.x / speed, y: bounced.y / speed, z: bounced.z / speed },
+        speed,
+        firedAt: projectile.firedAt + flightTime * 1000
+      });
+    } else {
+      this.projectiles.delete(projectile.id);
+    }
+
+    const result: ShotResultMessage = {
+      projectileId: projectile.id,
+      targetId: target.id,
+      zone: armorHit.zone,
+      result: armorHit.result,
+      damage: 0
+    };
+    const hit = armorHit.damage > 0
+      ? this.applyDamage(shooterId, target, armorHit.damage, moduleForHit(armorHit), now)
+      : null;
+    if (hit) result.damage = hit.damage;
+
+    return { ok: true, value: { result, hit } };
+  }
+
+  /**
+   * Check a shooter's report of a splash shell going off. The shooter names the
+   * tanks it saw in the blast; each one whose hitbox was in the splash radius when
+   * the shooter saw it takes damage falling off with distance. Tanks that were out
+   * of reach are left alone rather than failing the whole report.
+   */
+  public validateExplosion(
+    shooterId: string,
+    claim: ProjectileExplodedRequest,
+    now: number = Date.now()
+  ): ValidationResult<PlayerHitMessage[]> {
+    const projectile = this.projectiles.get(claim.projectileId);
+    if (!projectile) return { ok: false, reason: 'unknown or expired projectile' };
+    if (projectile.ownerId !== shooterId) return { ok: false, reason: 'projectile belongs to another player' };
+
+    const shell = SHELLS[projectile.shell];
+    if (shell.splashRadius <= 0) return { ok: false, reason: 'shell does not explode' };
+
+    const impact = this.checkImpact(projectile, claim.position, now);
+    if (!impact.ok) return impact;
+
+    this.projectiles.delete(projectile.id);
+
+    const viewTime = Math.max(now - MAX_REWIND, Math.min(now, claim.viewTime));
+    const hits: PlayerHitMessage[] = [];
+
+    new Set(claim.targetIds).forEach(targetId => {
+      const target = this.players.get(targetId);
+      if (!target || target.id === shooterId || target.health <= 0) return;
+      if (this.areTeammates(shooterId, target.id) && !this.settings.friendlyFire) return;
+
+      const hitbox = this.hitboxes.getHitbox(target.id, viewTime);
+      if (!hitbox) return;
+
+      const damage = splashDamage(shell, hitboxDistance(hitbox, claim.position));
+      if (damage > 0) hits.push(this.applyDamage(shooterId, target, damage, undefined, now));
+    });
+
+    return { ok: true, value: hits };
+  }
+
+  /**
+   * Check that a projectile could have been at the given point by now: along its
+   * line of fire, no further than it could have flown, and as far down its arc.
+   * Gives how long it took to get there (s).
+   */
+  private checkImpact(projectile: ProjectileFiredMessage, position: Vector3Data, now: number): ValidationResult<number> {
+    const shell = SHELLS[projectile.shell];
+    const dx = position.x - projectile.position.x;
+    const dz = position.z - projectile.position.z;
+    const distance = Math.hypot(dx, dz);
+    const directionLength = Math.hypot(projectile.direction.x, projectile.direction.z) || 1;
+    const offLine = Math.abs(dx * projectile.direction.z - dz * projectile.direction.x) / directionLength;
+    const horizontalSpeed = projectile.speed * Math.hypot(projectile.direction.x, projectile.direction.z);
+    const travel = travelDistance(horizontalSpeed, shell, (now - projectile.firedAt) / 1000) + HIT_TOLERANCE;
+
+    if (distance > travel) return { ok: false, reason: 'impact is out of range' };
+    if (offLine > HIT_TOLERANCE) return { ok: false, reason: 'impact is off the line of fire' };
+
+    const flightTime = timeToTravel(horizontalSpeed, shell, distance);
+    if (flightTime === null) return { ok: false, reason: 'impact is out of range' };
+
+    const expected = shellPosition(projectile.position, this.getLaunchVelocity(projectile), shell, flightTime);
+    if (Math.abs(position.y - expected.y) > DROP_TOLERANCE) {
+      return { ok: false, reason: 'impact is off the shell\'s arc' };
+    }
+
+    return { ok: true, value: flightTime };
+  }
+
+  private getLaunchVelocity(projectile: ProjectileFiredMessage): Vector3Data {
+    return {
+      x: projectile.direction.x * projectile.speed,
+      y: projectile.direction.y * projectile.speed,
+      z: projectile.direction.z * projectile.speed
+    };
+  }
+
+  /**
+   * Take damage off a tank on behalf of the shooter, crediting the kill if it
+   * was one, and off the module struck if the hit got through to one. The
+   * shooter's damage boost and the target's shield count towards it. Kills of
+   * teammates count as a death but score nothing.
+   */
+  private applyDamage(
+    shooterId: string,
+    target: PlayerState,
+    shellDamage: number,
+    module?: TankModule,
+    now: number = Date.now()
+  ): PlayerHitMessage {
+    const shooter = this.players.get(shooterId);
+    const damage = scaleDamage(
+      shellDamage,
+      shooter !== undefined && this.hasEffect(shooter, 'damage', now),
+      this.hasEffect(target, 'shield', now)
+    );
+
+    target.health = Math.max(0, target.health - damage);
+
+    if (module) {
+      target.modules.damage(module, damage, now);
+      this.syncModules(target, now);
+    }
+
+    if (target.health === 0) {
+      target.diedAt = now;
+
+      const killer = this.members.get(shooterId);
+      const victim = this.members.get(target.id);
+      if (victim) victim.deaths++;
+
+      if (killer && !this.areTeammates(shooterId, target.id)) {
+        killer.kills++;
+
+        if (killer.team) {
+          this.teamKills.set(killer.team, (this.teamKills.get(killer.team) || 0) + 1);
+          this.changed();
+        }
+      }
+    }
+
+    return { playerId: target.id, damage, killerId: shooterId, module };
+  }
+
+  /**
+   * Bring a tank's weapon in line with its modules, returning the broken ones
+   */
+  private syncModules(state: PlayerState, now: number): TankModule[] {
+    const broken = state.modules.getBroken(now);
+    state.weapon.setReloadFactor(broken.includes('gun') ? BROKEN_GUN_RELOAD : 1, now);
+    return broken;
+  }
+
+  /**
+   * Check a player's claim to have driven into a pickup and, if the pickup was
+   * there and the tank close enough, give them what it does and take it away
+   * until it respawns
+   */
+  public collectPickup(
+    clientId: string,
+    request: PickupCollectRequest,
+    now: number = Date.now()
+  ): ValidationResult<PickupTakenMessage> {
+    const state = this.players.get(clientId);
+    if (!state) return { ok: false, reason: 'not spawned' };
+    if (state.health <= 0) return { ok: false, reason: 'collected a pickup while dead' };
+
+    const spawn = getPickupSpawn(request.pickupId);
+    if (!spawn) return { ok: false, reason: 'unknown pickup' };
+
+    // The client brings pickups back itself, so it may be a little ahead of us
+    const respawnAt = this.pickupRespawns.get(spawn.id);
+    if (respawnAt !== undefined && now < respawnAt - TIMING_TOLERANCE) {
+      return { ok: false, reason: 'pickup was already taken' };
+    }
+
+    const distance = Math.hypot(state.position.x - spawn.x, state.position.z - spawn.z);
+    if (distance > PICKUP_REACH) return { ok: false, reason: 'too far from the pickup' };
+
+    const pickup = PICKUPS[spawn.type];
+    if (spawn.type === 'health') {
+      state.health = Math.min(state.maxHealth, state.health + HEALTH_PICKUP_AMOUNT);
+    } else if (spawn.type === 'ammo') {
+      state.weapon.refill(now);
+    } else {
+      state.effects.set(spawn.type, now + pickup.duration * 1000);
+    }
+
+    const taken = { pickupId: spawn.id, playerId: clientId, respawnAt: now + pickup.respawnTime * 1000 };
+    this.pickupRespawns.set(spawn.id, taken.respawnAt);
+    return { ok: true, value: taken };
+  }
+
+  /**
+   * Pickups still waiting to respawn, for clients that weren't around when they were taken
+   */
+  public getPickupList(now: number = Date.now()): PickupListMessage {
+    const taken: PickupListMessage['taken'] = [];
+
+    this.pickupRespawns.forEach((respawnAt, pickupId) => {
+      if (respawnAt > now) taken.push({ pickupId, respawnAt });
+    });
+
+    return { taken };
+  }
+
+  private hasEffect(state: PlayerState, effect: PickupType, now: number): boolean {
+    return (state.effects.get(effect) ?? 0) > now;
+  }
+
+  /**
+   * Sample every tank and send each spawned player a snapshot of the ones it can
+   * see, delta-encoded against the last snapshot that player acknowledged
+   */
+  private sendSnapshots(timestamp: number): void {
+    if (this.players.size === 0) return;
+
+    const sequence = this.snapshotSequence++;
+    const quantized = new Map<string, QuantizedEntity>();
+
+    this.players.forEach(state => {
+      quantized.set(state.id, quantizeEntity({
+        netId: state.netId,
+        position: state.position,
+        heading: state.heading,
+        turretRotation: state.turretRotation,
+        velocity: state.velocity,
+        health: state.health
+      }));
+    });
+
+    // The replay sees everything, like a spectator
+    this.replay?.addSnapshot(this.getReplayTick(timestamp), {
+      sequence,
+      timestamp,
+      lastProcessedInput: -1,
+      entities: new Map(Array.from(quantized.values(), entity => [entity.netId, entity]))
+    });
+
+    const viewers = [...this.players.keys(), ...this.spectators];
+
+    viewers.forEach(clientId => {
+      const history = this.snapshotHistories.get(clientId);
+      if (!history) return;
+
+      // Each client only gets its own tank and the ones in its area of interest
+      const entities = new Map<number, QuantizedEntity>();
+      [clientId, ...(this.interests.get(clientId) || [])].forEach(id => {
+        const entity = quantized.get(id);
+        if (entity) entities.set(entity.netId, entity);
+      });
+
+      const lastProcessedInput = this.players.get(clientId)?.lastProcessedInput ?? -1;
+      const snapshot = { sequence, timestamp, lastProcessedInput, entities };
+      const buffer = encodeSnapshot(snapshot, history.getBaseline());
+      history.add(snapshot);
+
+      this.sendTo(clientId, 'snapshot', buffer);
+    });
+  }
+
+  /**
+   * Stop recording the match and hand over its replay file, if one was being recorded
+   */
+  public takeReplay(): { startedAt: number; data: Uint8Array } | null {
+    if (!this.replay) return null;
+
+    const data = this.replay.getData();
+    this.replay = null;
+    return { startedAt: this.startedAt, data };
+  }
+
+  private getReplayTick(now: number): number {
+    return timeToTick(now) - timeToTick(this.startedAt);
+  }
+
+  /**
+   * Add a room event to the replay, if it's one that belongs there
+   */
+  private record<K extends ServerMessageType>(event: K, data: ServerMessages[K], now: number = Date.now()): void {
+    if (!this.replay || !isReplayEvent(event)) return;
+
+    this.replay.addEvent(this.getReplayTick(now), event as ReplayEventType, data as ServerMessages[ReplayEventType]);
+  }
+
+  /**
+   * Send an event to a single member of the room
+   */
+  public sendTo<K extends ServerMessageType>(clientId: string, event: K, data: ServerMessages[K]): void {
+    this.transport.broadcast(clientId, event, data);
+  }
+
+  /**
+   * Send an event to every member of the room, including those who haven't spawned
+   */
+  public broadcastToMembers<K extends ServerMessageType>(event: K, data: ServerMessages[K]): void {
+    this.record(event, data);
+    this.transport.broadcast(this.getMemberChannel(), event, data);
+  }
+
+  /**
+   * Send an event to every spawned player in the room
+   */
+  public broadcast<K extends ServerMessageType>(event: K, data: ServerMessages[K]): void {
+    this.record(event, data);
+    this.transport.broadcast(this.getChannel(), event, data);
+  }
+
+  /**
+   * Send an event to every spawned player in the room except the sender
+   */
+  public broadcastFrom<K extends ServerMessageType>(senderId: string, event: K, data: ServerMessages[K]): void {
+    this.record(event, data);
+    this.transport.broadcast(this.getChannel(), event, data, senderId);
+  }
+}
+
+export function toJoinedMessage(state: PlayerState): PlayerJoinedMessage {
+  return {
+    id: state.id,
+    netId: state.netId,
+    username: state.username,
+    position: state.position,
+    rotation: state.rotation,
+    health: state.health,
+    color: state.color,
+    team: state.team
+  };
+}
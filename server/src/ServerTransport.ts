@@ -0,0 +1,46 @@
+import { ServerMessages, ServerMessageType } from '../../shared/protocol';
+
+/**
+ * One client's connection to the server.
+ *
+ * Connections can be put in named channels so messages can be broadcast to a
+ * group of clients without the game code keeping track of who is in which.
+ * Every message goes out stamped with the server's current tick.
+ */
+export interface ServerConnection {
+  readonly id: string;
+
+  emit<K extends ServerMessageType>(event: K, data: ServerMessages[K]): void;
+
+  /**
+   * Listen for a message from the client. Payloads and ticks are unvalidated.
+   */
+  on(event: string, listener: (data: unknown, tick: unknown) => void): void;
+  removeAllListeners(event: string): void;
+
+  /**
+   * Listen for the connection closing. `intentional` is true when either side
+   * closed it on purpose rather than the connection dropping.
+   */
+  onDisconnect(listener: (reason: string, intentional: boolean) => void): void;
+
+  join(channel: string): void;
+  leave(channel: string): void;
+  disconnect(): void;
+}
+
+/**
+ * The means by which the game server accepts clients and talks to them
+ */
+export interface ServerTransport {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+
+  onConnection(listener: (connection: ServerConnection) => void): void;
+
+  /**
+   * Send an event to every connection in a channel, optionally leaving out
+   * those in another channel
+   */
+  broadcast<K extends ServerMessageType>(channel: string, event: K, data: ServerMessages[K], except?: string): void;
+}
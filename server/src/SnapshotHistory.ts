@@ -0,0 +1,41 @@
+import { QuantizedSnapshot, SNAPSHOT_RATE } from '../../shared/SnapshotCodec';
+
+// Snapshots older than this can no longer serve as a delta baseline
+const HISTORY_LENGTH = SNAPSHOT_RATE * 2;
+
+/**
+ * Snapshots sent to one client, used to delta-encode against the last one it acknowledged
+ */
+export class SnapshotHistory {
+  private snapshots: Map<number, QuantizedSnapshot> = new Map();
+  private lastAcknowledged: number = -1;
+
+  public add(snapshot: QuantizedSnapshot): void {
+    this.snapshots.set(snapshot.sequence, snapshot);
+
+    // Maps iterate in insertion order, so the oldest snapshots come first
+    for (const sequence of this.snapshots.keys()) {
+      if (this.snapshots.size <= HISTORY_LENGTH) break;
+      this.snapshots.delete(sequence);
+    }
+  }
+
+  public acknowledge(sequence: number): void {
+    // A negative ack means the client lost track and wants a full snapshot
+    if (sequence < 0) {
+      this.lastAcknowledged = -1;
+      return;
+    }
+
+    if (sequence > this.lastAcknowledged && this.snapshots.has(sequence)) {
+      this.lastAcknowledged = sequence;
+    }
+  }
+
+  /**
+   * Get the snapshot to encode the next delta against, or null to send a full snapshot
+   */
+  public getBaseline(): QuantizedSnapshot | null {
+    return this.snapshots.get(this.lastAcknowledged) || null;
+  }
+}
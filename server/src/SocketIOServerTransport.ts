@@ -0,0 +1,119 @@
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server, Socket } from 'socket.io';
+import { ServerConnection, ServerTransport } from './ServerTransport';
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  ServerMessages,
+  ServerMessageType
+} from '../../shared/protocol';
+import { timeToTick } from '../../shared/SimulationClock';
+
+export interface SocketIOServerTransportOptions {
+  port: number;
+  corsOrigin?: string;
+}
+
+type GameIO = Server<ClientToServerEvents, ServerToClientEvents>;
+type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+// Disconnects that were asked for, as opposed to the connection dropping
+const INTENTIONAL_DISCONNECTS = ['client namespace disconnect', 'server namespace disconnect', 'server shutting down'];
+
+/**
+ * Serves clients over Socket.IO
+ */
+export class SocketIOServerTransport implements ServerTransport {
+  private options: SocketIOServerTransportOptions;
+  private httpServer: HttpServer;
+  private io: GameIO;
+
+  constructor(options: SocketIOServerTransportOptions) {
+    this.options = options;
+
+    // Create HTTP server and attach Socket.IO to it
+    this.httpServer = createServer();
+    this.io = new Server(this.httpServer, {
+      cors: {
+        origin: options.corsOrigin || '*'
+      }
+    });
+  }
+
+  public start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  public stop(): Promise<void> {
+    return new Promise((resolve) => {
+      // Closing Socket.IO also closes the underlying HTTP server
+      this.io.close(() => resolve());
+    });
+  }
+
+  /**
+   * Get the port the server is listening on (useful when started on port 0)
+   */
+  public getPort(): number {
+    const address = this.httpServer.address() as AddressInfo | null;
+    return address ? address.port : this.options.port;
+  }
+
+  public onConnection(listener: (connection: ServerConnection) => void): void {
+    this.io.on('connection', (socket) => listener(new SocketIOConnection(socket)));
+  }
+
+  public broadcast<K extends ServerMessageType>(channel: string, event: K, data: ServerMessages[K], except?: string): void {
+    const target = except ? this.io.to(channel).except(except) : this.io.to(channel);
+
+    // Socket.IO's typed emit() can't follow the generic key, so widen it here
+    (target as unknown as Pick<Server, 'emit'>).emit(event, data, timeToTick(Date.now()));
+  }
+}
+
+class SocketIOConnection implements ServerConnection {
+  public readonly id: string;
+  private socket: GameSocket;
+
+  constructor(socket: GameSocket) {
+    this.id = socket.id;
+    this.socket = socket;
+  }
+
+  public emit<K extends ServerMessageType>(event: K, data: ServerMessages[K]): void {
+    (this.socket as unknown as Socket).emit(event, data, timeToTick(Date.now()));
+  }
+
+  public on(event: string, listener: (data: unknown, tick: unknown) => void): void {
+    (this.socket as unknown as Socket).on(event, listener);
+  }
+
+  public removeAllListeners(event: string): void {
+    (this.socket as unknown as Socket).removeAllListeners(event);
+  }
+
+  public onDisconnect(listener: (reason: string, intentional: boolean) => void): void {
+    this.socket.on('disconnect', (reason: string) => {
+      listener(reason, INTENTIONAL_DISCONNECTS.includes(reason));
+    });
+  }
+
+  public join(channel: string): void {
+    this.socket.join(channel);
+  }
+
+  public leave(channel: string): void {
+    this.socket.leave(channel);
+  }
+
+  public disconnect(): void {
+    this.socket.disconnect(true);
+  }
+}
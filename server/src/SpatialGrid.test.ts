@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialGrid } from './SpatialGrid';
+
+describe('SpatialGrid', () => {
+  it('finds entities within the radius, across cells', () => {
+    const grid = new SpatialGrid(10);
+    grid.update('near', 3, 4);
+    grid.update('nextCell', -8, 0);
+    grid.update('corner', 9, 9);
+    grid.update('far', 50, 50);
+
+    expect(grid.query(0, 0, 10).sort()).toEqual(['near', 'nextCell']);
+  });
+
+  it('follows entities as they move between cells', () => {
+    const grid = new SpatialGrid(10);
+    grid.update('tank', 0, 0);
+    grid.update('tank', 45, 45);
+
+    expect(grid.query(0, 0, 5)).toEqual([]);
+    expect(grid.query(45, 45, 5)).toEqual(['tank']);
+  });
+
+  it('forgets removed entities', () => {
+    const grid = new SpatialGrid(10);
+    grid.update('tank', 0, 0);
+    grid.update('other', 1, 1);
+    grid.remove('tank');
+
+    expect(grid.query(0, 0, 5)).toEqual(['other']);
+
+    grid.clear();
+    expect(grid.query(0, 0, 5)).toEqual([]);
+  });
+});
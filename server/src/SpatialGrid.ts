@@ -0,0 +1,97 @@
+interface GridEntry {
+  x: number;
+  z: number;
+  cell: string;
+}
+
+/**
+ * Buckets entities into square cells on the ground plane so nearby entities
+ * can be found without checking every one
+ */
+export class SpatialGrid {
+  private cellSize: number;
+  private cells: Map<string, Set<string>> = new Map();
+  private entries: Map<string, GridEntry> = new Map();
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * Add an entity or move it to a new position
+   */
+  public update(id: string, x: number, z: number): void {
+    const cell = this.getCellKey(Math.floor(x / this.cellSize), Math.floor(z / this.cellSize));
+    const entry = this.entries.get(id);
+
+    if (entry && entry.cell !== cell) {
+      this.removeFromCell(id, entry.cell);
+    }
+
+    if (!entry || entry.cell !== cell) {
+      if (!this.cells.has(cell)) {
+        this.cells.set(cell, new Set());
+      }
+      this.cells.get(cell)!.add(id);
+    }
+
+    this.entries.set(id, { x, z, cell });
+  }
+
+  public remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    this.removeFromCell(id, entry.cell);
+    this.entries.delete(id);
+  }
+
+  /**
+   * Get every entity within a radius of a point
+   */
+  public query(x: number, z: number, radius: number): string[] {
+    const result: string[] = [];
+    const radiusSquared = radius * radius;
+
+    const minX = Math.floor((x - radius) / this.cellSize);
+    const maxX = Math.floor((x + radius) / this.cellSize);
+    const minZ = Math.floor((z - radius) / this.cellSize);
+    const maxZ = Math.floor((z + radius) / this.cellSize);
+
+    for (let cellX = minX; cellX <= maxX; cellX++) {
+      for (let cellZ = minZ; cellZ <= maxZ; cellZ++) {
+        this.cells.get(this.getCellKey(cellX, cellZ))?.forEach(id => {
+          const entry = this.entries.get(id)!;
+          const dx = entry.x - x;
+          const dz = entry.z - z;
+
+          if (dx * dx + dz * dz <= radiusSquared) {
+            result.push(id);
+          }
+        });
+      }
+    }
+
+    return result;
+  }
+
+  public clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+  }
+
+  private getCellKey(cellX: number, cellZ: number): string {
+    return `${cellX},${cellZ}`;
+  }
+
+  private removeFromCell(id: string, cell: string): void {
+    const members = this.cells.get(cell);
+    if (!members) return;
+
+    members.delete(id);
+
+    if (members.size === 0) {
+      this.cells.delete(cell);
+    }
+  }
+}
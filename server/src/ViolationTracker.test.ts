@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { ViolationTracker } from './ViolationTracker';
+
+describe('ViolationTracker', () => {
+  it('gives up on a client after a burst of violations', () => {
+    const tracker = new ViolationTracker();
+
+    for (let i = 0; i < 9; i++) {
+      expect(tracker.record(i * 100)).toBe(false);
+    }
+    expect(tracker.record(1000)).toBe(true);
+  });
+
+  it('lets the odd violation go', () => {
+    const tracker = new ViolationTracker();
+
+    // One every two seconds never adds up to a kick
+    for (let i = 0; i < 50; i++) {
+      expect(tracker.record(i * 2000)).toBe(false);
+    }
+  });
+});
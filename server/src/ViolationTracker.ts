@@ -0,0 +1,24 @@
+// Only recent violations count towards a kick
+const VIOLATION_WINDOW = 10000; // ms
+const MAX_VIOLATIONS = 10;
+
+/**
+ * Counts how often a client breaks the rules. The odd violation can be lag;
+ * a steady stream of them is cheating.
+ */
+export class ViolationTracker {
+  private times: number[] = [];
+
+  /**
+   * Record a violation and return whether the client has now had too many
+   */
+  public record(now: number = Date.now()): boolean {
+    this.times.push(now);
+
+    while (this.times.length > 0 && now - this.times[0] > VIOLATION_WINDOW) {
+      this.times.shift();
+    }
+
+    return this.times.length >= MAX_VIOLATIONS;
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { WeaponState } from './WeaponState';
+import { TANK_CANNON } from '../../shared/Weapons';
+import { BROKEN_GUN_RELOAD } from '../../shared/Modules';
+
+const RELOAD = TANK_CANNON.reloadTime * 1000; // ms
+const INTERVAL = TANK_CANNON.fireInterval * 1000; // ms
+
+/**
+ * Fire the whole magazine, a shot every fire interval from the given time, and
+ * return the time of the last shot
+ */
+function emptyMagazine(weapon: WeaponState, from: number): number {
+  let now = from;
+  for (let i = 0; i < TANK_CANNON.magazineSize; i++) {
+    now = from + i * INTERVAL;
+    expect(weapon.fire(weapon.getShell(), now).ok).toBe(true);
+  }
+  return now;
+}
+
+describe('WeaponState', () => {
+  it('fires the magazine, then reloads', () => {
+    const weapon = new WeaponState(TANK_CANNON);
+    const last = emptyMagazine(weapon, 0);
+
+    expect(weapon.fire('ap', last + INTERVAL)).toEqual({ ok: false, reason: 'fired while reloading' });
+    expect(weapon.fire('ap', last + RELOAD).ok).toBe(true);
+  });
+
+  it('holds shots to the fire interval', () => {
+    const weapon = new WeaponState(TANK_CANNON);
+
+    expect(weapon.fire('ap', 1000).ok).toBe(true);
+    expect(weapon.fire('ap', 1010)).toEqual({ ok: false, reason: 'fired faster than the weapon allows' });
+    expect(weapon.fire('ap', 1000 + INTERVAL).ok).toBe(true);
+  });
+
+  it('only fires the shell that is loaded', () => {
+    const weapon = new WeaponState(TANK_CANNON);
+
+    expect(weapon.fire('he', 0)).toEqual({ ok: false, reason: 'fired a shell that was not loaded' });
+
+    weapon.select('he', 0);
+    expect(weapon.fire('he', INTERVAL)).toEqual({ ok: false, reason: 'fired while reloading' });
+    expect(weapon.fire('he', RELOAD).ok).toBe(true);
+  });
+
+  it('stretches a reload under way when the gun breaks', () => {
+    const weapon = new WeaponState(TANK_CANNON);
+    const last = emptyMagazine(weapon, 0);
+
+    // Broken halfway through, so the reload takes the broken length from when it started
+    weapon.setReloadFactor(BROKEN_GUN_RELOAD, last + RELOAD / 2);
+    expect(weapon.fire('ap', last + RELOAD).ok).toBe(false);
+    expect(weapon.fire('ap', last + RELOAD * BROKEN_GUN_RELOAD).ok).toBe(true);
+  });
+
+  it('shortens a reload under way when the gun is repaired', () => {
+    const weapon = new WeaponState(TANK_CANNON);
+    weapon.setReloadFactor(BROKEN_GUN_RELOAD, 0);
+    const last = emptyMagazine(weapon, 0);
+
+    // Repaired after the normal reload time has passed, so it's done straight away
+    weapon.setReloadFactor(1, last + RELOAD + 10);
+    expect(weapon.fire('ap', last + RELOAD + 20).ok).toBe(true);
+  });
+
+  it('keeps a reload that finished before the gun broke', () => {
+    const weapon = new WeaponState(TANK_CANNON);
+    const last = emptyMagazine(weapon, 0);
+
+    weapon.setReloadFactor(BROKEN_GUN_RELOAD, last + RELOAD);
+    expect(weapon.fire('ap', last + RELOAD + 10).ok).toBe(true);
+  });
+
+  it('does not carry a reload over to a shell with nothing left', () => {
+    const weapon = new WeaponState(TANK_CANNON);
+
+    // Use up every APCR round
+    weapon.select('apcr', 0);
+    let now = emptyMagazine(weapon, RELOAD);
+    while (weapon.fire('apcr', now + RELOAD).ok) {
+      now += RELOAD;
+    }
+
+    // Start loading AP, then switch back to the empty APCR
+    weapon.select('ap', now + RELOAD);
+    weapon.select('apcr', now + RELOAD + 10);
+    expect(weapon.fire('apcr', now + RELOAD + 20)).toEqual({ ok: false, reason: 'fired without ammo' });
+
+    // A refill loads straight away, with no reload left over from the AP
+    weapon.refill(now + RELOAD + 30);
+    expect(weapon.fire('apcr', now + RELOAD + 40).ok).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+import { WeaponDefinition, ShellId, ShellLoadout, DEFAULT_SHELL, createLoadout } from '../../shared/Weapons';
+import { ValidationResult } from '../../shared/validation';
+
+// Messages from a client can bunch up or spread out in transit, so timings get some slack
+export const TIMING_TOLERANCE = 100; // ms
+
+/**
+ * The server's copy of a tank's magazine and shell stock, following the same
+ * rules as Tank.fire(), Tank.startReload() and Tank.selectShell() so shots the
+ * client couldn't have fired are caught.
+ *
+ * The magazine holds rounds of the selected shell only; they still count towards
+ * that shell's stock until fired, so switching shells just empties it and reloads.
+ */
+export class WeaponState {
+  private weapon: WeaponDefinition;
+  private shell: ShellId = DEFAULT_SHELL;
+  private loadout: ShellLoadout = createLoadout();
+  private ammo: number;
+  private reloadStartedAt: number | null = null;
+  private lastFiredAt: number = -Infinity;
+  private reloadFactor: number = 1;
+
+  constructor(weapon: WeaponDefinition) {
+    this.weapon = weapon;
+    this.ammo = this.getCapacity();
+  }
+
+  public getWeapon(): WeaponDefinition {
+    return this.weapon;
+  }
+
+  public getShell(): ShellId {
+    return this.shell;
+  }
+
+  /**
+   * Check whether a shot could have been fired and use up a round for it
+   */
+  public fire(shell: ShellId, now: number = Date.now()): ValidationResult<null> {
+    this.updateReload(now);
+
+    if (shell !== this.shell) {
+      return { ok: false, reason: 'fired a shell that was not loaded' };
+    }
+
+    if (this.reloadStartedAt !== null) {
+      return { ok: false, reason: 'fired while reloading' };
+    }
+
+    if (this.ammo <= 0) {
+      return { ok: false, reason: 'fired without ammo' };
+    }
+
+    if (now - this.lastFiredAt < this.weapon.fireInterval * 1000 - TIMING_TOLERANCE) {
+      return { ok: false, reason: 'fired faster than the weapon allows' };
+    }
+
+    this.ammo--;
+    this.loadout[shell]--;
+    this.lastFiredAt = now;
+
+    // Auto-reload when empty
+    if (this.ammo <= 0) {
+      this.startReload(now);
+    }
+
+    return { ok: true, value: null };
+  }
+
+  /**
+   * Start a manual reload, if there is anything to reload
+   */
+  public reload(now: number = Date.now()): void {
+    this.updateReload(now);
+
+    if (this.reloadStartedAt === null && this.ammo < this.getCapacity()) {
+      this.startReload(now);
+    }
+  }
+
+  /**
+   * Switch to another shell, unloading the magazine to load it instead
+   */
+  public select(shell: ShellId, now: number = Date.now()): void {
+    if (shell === this.shell) return;
+
+    this.shell = shell;
+    this.ammo = 0;
+    this.reloadStartedAt = null;
+    this.startReload(now);
+  }
+
+  /**
+   * Fresh stock of every shell, topping up the magazine unless a reload is under way
+   */
+  public refill(now: number = Date.now()): void {
+    this.updateReload(now);
+    this.loadout = createLoadout();
+
+    if (this.reloadStartedAt === null) {
+      this.ammo = this.getCapacity();
+    }
+  }
+
+  /**
+   * Stretch reloads, including one under way, e.g. while the gun is broken.
+   * Like Tank.getReloadTime(), time already spent reloading counts towards the new length.
+   */
+  public setReloadFactor(factor: number, now: number = Date.now()): void {
+    // A reload that finished before the change stays finished
+    this.updateReload(now);
+    this.reloadFactor = factor;
+  }
+
+  /**
+   * Fresh stock and a full magazine of the selected shell, e.g. after a respawn
+   */
+  public reset(): void {
+    this.loadout = createLoadout();
+    this.ammo = this.getCapacity();
+    this.reloadStartedAt = null;
+    this.lastFiredAt = -Infinity;
+    this.reloadFactor = 1;
+  }
+
+  /**
+   * Rounds a reload puts in the magazine
+   */
+  private getCapacity(): number {
+    return Math.min(this.weapon.magazineSize, this.loadout[this.shell]);
+  }
+
+  private startReload(now: number): void {
+    // Nothing left to load
+    if (this.getCapacity() === 0) return;
+
+    this.reloadStartedAt = now;
+  }
+
+  private updateReload(now: number): void {
+    if (this.reloadStartedAt === null) return;
+
+    const reloadTime = this.weapon.reloadTime * this.reloadFactor * 1000;
+    if (now - this.reloadStartedAt >= reloadTime - TIMING_TOLERANCE) {
+      this.ammo = this.getCapacity();
+      this.reloadStartedAt = null;
+    }
+  }
+}
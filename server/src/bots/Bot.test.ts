@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Bot } from './Bot';
+import { GameServer } from '../GameServer';
+import { LoopbackServerTransport } from '../LoopbackServerTransport';
+import { LoopbackTransport } from '../../../src/network/LoopbackTransport';
+
+// Keeps the test from waiting out the usual countdown before a match starts
+const COUNTDOWN_DURATION = 0.1; // Seconds
+
+describe('Bot against a loopback GameServer', () => {
+  let transport: LoopbackServerTransport;
+  let server: GameServer;
+  let bots: Bot[];
+
+  function createBot(username: string): Bot {
+    const bot = new Bot({ serverUrl: '', username, createTransport: () => new LoopbackTransport(transport) });
+    bots.push(bot);
+    return bot;
+  }
+
+  beforeEach(async () => {
+    transport = new LoopbackServerTransport();
+    server = new GameServer({ transport, countdownDuration: COUNTDOWN_DURATION });
+    bots = [];
+
+    await server.start();
+  });
+
+  afterEach(async () => {
+    bots.forEach(bot => bot.stop());
+    await server.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('plays a match without the server finding fault with it', async () => {
+    // The server logs every rule a client breaks
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const roomId = await createBot('bot1').start(null, 2);
+    await createBot('bot2').start(roomId, 2);
+
+    await new Promise(resolve => setTimeout(resolve, 1500));
+
+    const players = server.getRoom(roomId)!.getPlayers();
+    expect(players).toHaveLength(2);
+    players.forEach(player => expect(player.lastProcessedInput).toBeGreaterThan(10));
+    expect(bots.every(bot => bot.isConnected())).toBe(true);
+    expect(bots[0].getShotsFired()).toBeGreaterThan(0);
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
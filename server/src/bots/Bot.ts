@@ -0,0 +1,332 @@
+import { NetworkManager, NetworkStats } from '../../../src/network/NetworkManager';
+import { InputPredictor } from '../../../src/network/InputPredictor';
+import { TransportFactory } from '../../../src/network/Transport';
+import { WeaponState } from '../WeaponState';
+import { TANK_MAX_HEALTH, MAX_INPUT_DELTA } from '../Room';
+import {
+  MovementInput,
+  TankMovementState,
+  angleDifference,
+  stepTankMovement
+} from '../../../shared/TankMovement';
+import { TANK_CANNON, ShellId, DEFAULT_SHELL, SHELL_IDS } from '../../../shared/Weapons';
+import { RESPAWN_DELAY } from '../../../shared/Spawns';
+import { TEAMS, randomSpawnPoint } from '../../../shared/Teams';
+import {
+  LobbyErrorMessage,
+  PlayerHitMessage,
+  PlayerStateMessage,
+  RoomJoinedMessage
+} from '../../../shared/protocol';
+
+export interface BotOptions {
+  serverUrl: string;
+  username: string;
+  createTransport?: TransportFactory; // Defaults to Socket.IO to serverUrl
+}
+
+// Inputs per second, about what the game sends at a steady frame rate
+const INPUT_RATE = 30;
+
+// Wandering
+const WANDER_INTERVAL = 3000; // ms between picking a new direction
+const WANDER_RADIUS = 150; // Bots turn back towards the middle past this distance
+const SPAWN_RADIUS = 100;
+const SPAWN_HEIGHT = 2;
+const TURRET_SPEED = 0.5; // Radians per second
+
+// Firing
+const FIRE_INTERVAL = 500; // ms between pulls of the trigger
+const MUZZLE_OFFSET = 3; // Distance from the tank to the end of the barrel
+
+// How long to wait for the server to put us in a room
+const JOIN_TIMEOUT = 10000; // ms
+
+/**
+ * A headless player for load testing.
+ *
+ * Bots talk to the server through the game's own NetworkManager, so they send
+ * exactly what a real client would: they join a room, ready up, spawn once the
+ * match starts and then wander around firing every so often. Movement is
+ * predicted with the shared tank model and reconciled through the game's own
+ * InputPredictor, so the server accepts their inputs.
+ */
+export class Bot {
+  private network: NetworkManager;
+  private username: string;
+  private state: TankMovementState = { x: 0, z: 0, heading: 0, speed: 0 };
+  private input: MovementInput = { forward: true, backward: false, left: false, right: false };
+  private predictor: InputPredictor<MovementInput>;
+  private turretRotation: number = 0;
+  private weapon: WeaponState = new WeaponState(TANK_CANNON);
+  private shell: ShellId = DEFAULT_SHELL;
+  private health: number = TANK_MAX_HEALTH;
+  private sequence: number = 0;
+  private isSpawned: boolean = false;
+  private inputTimer: ReturnType<typeof setInterval> | null = null;
+  private respawnTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastInputAt: number = 0;
+  private nextWanderAt: number = 0;
+  private nextFireAt: number = 0;
+  private shotsFired: number = 0;
+
+  constructor(options: BotOptions) {
+    this.username = options.username;
+    this.network = new NetworkManager({ serverUrl: options.serverUrl, createTransport: options.createTransport });
+
+    this.predictor = new InputPredictor<MovementInput>({
+      getPose: () => this.state,
+      rewind: data => {
+        this.state = { x: data.position.x, z: data.position.z, heading: data.heading, speed: data.speed };
+      },
+      replay: (input, delta) => {
+        this.state = stepTankMovement(this.state, input, delta);
+      }
+    });
+
+    // Rooms also announce their match to members that join while it's on
+    this.network.on('matchStarted', () => this.spawn());
+    this.network.on('matchEnded', () => this.despawn());
+    this.network.on('playerState', (data: PlayerStateMessage) => this.predictor.reconcile(data));
+    this.network.on('playerHit', (data: PlayerHitMessage) => this.handleHit(data));
+    this.network.on('sessionLost', () => this.despawn());
+  }
+
+  public getUsername(): string {
+    return this.username;
+  }
+
+  /**
+   * Connect and get into a room, creating one when no room ID is given.
+   * Resolves with the ID of the room the bot ended up in.
+   */
+  public async start(roomId: string | null, roomSize: number): Promise<string> {
+    await this.network.connect();
+
+    const joined = this.waitForRoom();
+
+    if (roomId) {
+      this.network.joinRoom({ roomId, username: this.username });
+    } else {
+      this.network.createRoom({
+        name: `Load test ${this.username}`,
+        username: this.username,
+        maxPlayers: roomSize,
+        mode: 'deathmatch',
+        friendlyFire: false
+      });
+    }
+
+    const room = await joined;
+    this.network.setReady(true);
+
+    return room.room.id;
+  }
+
+  public stop(): void {
+    this.despawn();
+    this.network.disconnect();
+  }
+
+  public isConnected(): boolean {
+    return this.network.isConnectedToServer();
+  }
+
+  public getStats(): NetworkStats {
+    return this.network.getNetworkStats();
+  }
+
+  public getShotsFired(): number {
+    return this.shotsFired;
+  }
+
+  private waitForRoom(): Promise<RoomJoinedMessage> {
+    return new Promise((resolve, reject) => {
+      const finish = (error: Error | null, joined?: RoomJoinedMessage) => {
+        clearTimeout(timer);
+        this.network.off('roomJoined', onJoined);
+        this.network.off('lobbyError', onError);
+
+        if (error) {
+          reject(error);
+        } else {
+          resolve(joined!);
+        }
+      };
+
+      const onJoined = (data: RoomJoinedMessage) => finish(null, data);
+      const onError = (data: LobbyErrorMessage) => finish(new Error(data.reason));
+      const timer = setTimeout(() => finish(new Error('Timed out joining a room')), JOIN_TIMEOUT);
+
+      this.network.on('roomJoined', onJoined);
+      this.network.on('lobbyError', onError);
+    });
+  }
+
+  private spawn(): void {
+    if (this.isSpawned) return;
+
+    this.placeRandomly(Math.random() * Math.PI * 2);
+
+    this.network.sendPlayerJoined({
+      username: this.username,
+      position: { x: this.state.x, y: SPAWN_HEIGHT, z: this.state.z },
+      rotation: { x: 0, y: this.state.heading, z: 0 },
+      color: Math.floor(Math.random() * 0xffffff)
+    });
+
+    this.resetTank();
+    this.isSpawned = true;
+    this.lastInputAt = Date.now();
+    this.inputTimer = setInterval(() => this.update(), 1000 / INPUT_RATE);
+  }
+
+  private despawn(): void {
+    this.isSpawned = false;
+
+    if (this.inputTimer) {
+      clearInterval(this.inputTimer);
+      this.inputTimer = null;
+    }
+
+    if (this.respawnTimer) {
+      clearTimeout(this.respawnTimer);
+      this.respawnTimer = null;
+    }
+  }
+
+  private placeRandomly(heading: number): void {
+    // In team modes the server only lets tanks spawn in their team's base
+    const team = this.network.getTeam();
+    if (team) {
+      const { x, z } = randomSpawnPoint(TEAMS[team].spawn);
+      this.state = { x, z, heading, speed: 0 };
+      return;
+    }
+
+    const angle = Math.random() * Math.PI * 2;
+    const distance = Math.random() * SPAWN_RADIUS;
+
+    this.state = { x: Math.cos(angle) * distance, z: Math.sin(angle) * distance, heading, speed: 0 };
+  }
+
+  private resetTank(): void {
+    this.health = TANK_MAX_HEALTH;
+    this.weapon.reset();
+    this.shell = this.weapon.getShell();
+    this.predictor.clear();
+  }
+
+  /**
+   * Drive for one input step: wander, aim, maybe fire, and tell the server
+   */
+  private update(now: number = Date.now()): void {
+    const delta = Math.min(MAX_INPUT_DELTA, (now - this.lastInputAt) / 1000);
+    this.lastInputAt = now;
+
+    if (!this.network.isInRoom() || this.health <= 0 || delta <= 0) return;
+
+    if (now >= this.nextWanderAt) {
+      this.wander();
+      this.nextWanderAt = now + WANDER_INTERVAL * (0.5 + Math.random());
+    }
+
+    const input = { ...this.input };
+    this.state = stepTankMovement(this.state, input, delta);
+    this.turretRotation += TURRET_SPEED * delta;
+
+    const sequence = ++this.sequence;
+    this.predictor.record(sequence, input, delta);
+
+    this.network.sendPlayerInput({
+      sequence,
+      delta,
+      ...input,
+      turretRotation: this.turretRotation,
+      position: { x: this.state.x, y: SPAWN_HEIGHT, z: this.state.z },
+      heading: this.state.heading,
+      shell: this.shell,
+      reload: false,
+      repair: false
+    });
+
+    if (now >= this.nextFireAt) {
+      this.nextFireAt = now + FIRE_INTERVAL;
+      this.fire(now);
+    }
+  }
+
+  /**
+   * Pick a new way to drive, heading back towards the middle when too far out
+   */
+  private wander(): void {
+    const { x, z, heading } = this.state;
+    let turn = Math.floor(Math.random() * 3) - 1; // -1 right, 0 straight, 1 left
+
+    if (Math.hypot(x, z) > WANDER_RADIUS) {
+      // Positive Z is forward at heading 0, so the middle is at atan2(-x, -z)
+      turn = Math.sign(angleDifference(Math.atan2(-x, -z), heading));
+    }
+
+    this.input = {
+      forward: Math.random() < 0.8,
+      backward: false,
+      left: turn > 0,
+      right: turn < 0
+    };
+  }
+
+  private fire(now: number): void {
+    // Keep to the magazine and reload rules, or the server throws the shot away
+    const fired = this.weapon.fire(this.shell, now);
+    if (!fired.ok) {
+      // Out of this shell for good: move on to the next one, like a player would
+      if (fired.reason === 'fired without ammo') {
+        this.shell = SHELL_IDS[(SHELL_IDS.indexOf(this.shell) + 1) % SHELL_IDS.length];
+        this.weapon.select(this.shell, now);
+
+        // The server only hears about the switch with the next input, so give it a moment more
+        this.nextFireAt = now + TANK_CANNON.reloadTime * 1000 + FIRE_INTERVAL;
+      }
+      return;
+    }
+
+    const aim = this.state.heading + this.turretRotation;
+    const direction = { x: Math.sin(aim), y: 0, z: Math.cos(aim) };
+
+    this.network.sendProjectileFired({
+      id: `bot_${this.network.getClientId().slice(0, 8)}_${this.shotsFired++}`,
+      shell: this.shell,
+      position: {
+        x: this.state.x + direction.x * MUZZLE_OFFSET,
+        y: SPAWN_HEIGHT + 1,
+        z: this.state.z + direction.z * MUZZLE_OFFSET
+      },
+      direction
+    });
+  }
+
+  private handleHit(data: PlayerHitMessage): void {
+    if (data.playerId !== this.network.getClientId() || this.health <= 0) return;
+
+    this.health -= data.damage;
+    if (this.health > 0) return;
+
+    this.respawnTimer = setTimeout(() => {
+      this.respawnTimer = null;
+      this.respawn();
+    }, RESPAWN_DELAY);
+  }
+
+  private respawn(): void {
+    // Respawned tanks face the way Tank.reset() leaves them
+    this.placeRandomly(0);
+
+    this.network.sendPlayerRespawned({
+      position: { x: this.state.x, y: SPAWN_HEIGHT, z: this.state.z },
+      rotation: { x: 0, y: 0, z: 0 }
+    });
+
+    this.resetTank();
+  }
+}
@@ -0,0 +1,106 @@
+import { parseArgs } from 'util';
+import { Bot } from './Bot';
+import { DEFAULT_SERVER_URL } from '../../../src/network/NetworkManager';
+import { MAX_ROOM_SIZE, MIN_ROOM_SIZE } from '../../../shared/protocol';
+
+/**
+ * Load test: connects a crowd of bots to a running server and reports how it copes.
+ *
+ *   npm run bots -- --count 32 --room-size 16 --duration 60
+ *
+ * Bots fill rooms of --room-size one after the other, the first in each room
+ * creating it. Every few seconds the server's tick time, the traffic per bot and
+ * any dropped messages are printed, and once more as a summary at the end.
+ */
+
+const REPORT_INTERVAL = 5000; // ms
+
+const { values: args } = parseArgs({
+  options: {
+    count: { type: 'string', default: '8' },
+    url: { type: 'string', default: process.env.SERVER_URL || DEFAULT_SERVER_URL },
+    'room-size': { type: 'string', default: String(MAX_ROOM_SIZE) },
+    ramp: { type: 'string', default: '100' }, // ms between bots joining
+    duration: { type: 'string', default: '60' } // s, 0 to run until interrupted
+  }
+});
+
+const count = Math.max(1, Number(args.count) || 1);
+const roomSize = Math.max(MIN_ROOM_SIZE, Math.min(MAX_ROOM_SIZE, Number(args['room-size']) || MAX_ROOM_SIZE));
+const ramp = Math.max(0, Number(args.ramp) || 0);
+const duration = Math.max(0, Number(args.duration) || 0);
+
+const bots: Bot[] = [];
+const startedAt = Date.now();
+let peakTickTime = 0;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB/s` : `${bytes.toFixed(0)} B/s`;
+}
+
+function report(label: string): void {
+  const connected = bots.filter(bot => bot.isConnected());
+  const stats = connected.map(bot => bot.getStats());
+
+  // Every bot hears the same figure from the server; take the freshest average
+  const tickTime = average(stats.map(stat => stat.serverTickTime));
+  peakTickTime = Math.max(peakTickTime, tickTime);
+
+  const received = stats.map(stat => stat.bytesReceivedPerSecond);
+  const elapsed = Math.round((Date.now() - startedAt) / 1000);
+
+  console.log([
+    `[${label} ${elapsed}s] ${connected.length}/${count} bots connected`,
+    `server tick ${tickTime.toFixed(2)} ms (peak ${peakTickTime.toFixed(2)} ms)`,
+    `per bot in ${formatBytes(average(received))} (max ${formatBytes(Math.max(0, ...received))})` +
+      ` out ${formatBytes(average(stats.map(stat => stat.bytesSentPerSecond)))}`,
+    `snapshots ${average(stats.map(stat => stat.snapshotRate)).toFixed(1)}/s`,
+    `rtt ${average(stats.map(stat => stat.rtt)).toFixed(0)} ms`,
+    `dropped ${stats.reduce((sum, stat) => sum + stat.droppedMessages, 0)} messages`,
+    `shots ${bots.reduce((sum, bot) => sum + bot.getShotsFired(), 0)}`
+  ].join(', '));
+}
+
+function shutdown(): void {
+  clearInterval(reportTimer);
+  report('summary');
+
+  bots.forEach(bot => bot.stop());
+  process.exit(0);
+}
+
+const reportTimer = setInterval(() => report('load'), REPORT_INTERVAL);
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+console.log(`Starting ${count} bots against ${args.url} in rooms of ${roomSize}`);
+
+let roomId: string | null = null;
+
+for (let i = 0; i < count; i++) {
+  const bot = new Bot({ serverUrl: args.url!, username: `Bot${i + 1}` });
+  bots.push(bot);
+
+  // The first bot of each room creates it
+  if (i % roomSize === 0) roomId = null;
+
+  try {
+    roomId = await bot.start(roomId, roomSize);
+  } catch (error) {
+    console.error(`${bot.getUsername()} couldn't join:`, error instanceof Error ? error.message : error);
+  }
+
+  await wait(ramp);
+}
+
+console.log(`All bots started in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+
+if (duration > 0) {
+  setTimeout(shutdown, duration * 1000);
+}
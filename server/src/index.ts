@@ -0,0 +1,43 @@
+import { GameServer } from './GameServer';
+import { SocketIOServerTransport } from './SocketIOServerTransport';
+import { FileProfileStore } from './FileProfileStore';
+import { FileReplayStore } from './FileReplayStore';
+import { createWordFilter } from './Chat';
+
+const port = Number(process.env.PORT) || 3000;
+
+const transport = new SocketIOServerTransport({
+  port,
+  corsOrigin: process.env.CORS_ORIGIN
+});
+
+const profiles = new FileProfileStore(process.env.PROFILE_FILE || 'data/profiles.json');
+
+const server = new GameServer({
+  transport,
+  interestRadius: Number(process.env.INTEREST_RADIUS) || undefined,
+  profiles,
+  chatFilter: createWordFilter((process.env.CHAT_BLOCKLIST || '').split(',')),
+  replays: new FileReplayStore(process.env.REPLAY_DIR || 'data/replays')
+});
+
+server.start()
+  .then(() => {
+    console.log(`Tank Mayhem server listening on port ${transport.getPort()}`);
+  })
+  .catch(error => {
+    console.error('Failed to start server:', error);
+    process.exit(1);
+  });
+
+// Shut down cleanly so clients get a proper disconnect
+const shutdown = () => {
+  console.log('Shutting down server...');
+  server.stop().then(() => {
+    profiles.flush();
+    process.exit(0);
+  });
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
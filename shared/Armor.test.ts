@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { resolveArmorHit, ricochetVelocity, hitboxContains, hitboxDistance, HullPose } from './Armor';
+import { SHELLS } from './Weapons';
+
+const hull: HullPose = { x: 0, y: 0, z: 0, heading: 0 };
+
+// A shell flying at the given angle from head on into the front plate (forward is +Z)
+function intoFront(angle: number, speed = 60) {
+  return { x: speed * Math.sin(angle), y: 0, z: -speed * Math.cos(angle) };
+}
+
+describe('resolveArmorHit', () => {
+  it('penetrates the front plate head on', () => {
+    const hit = resolveArmorHit(SHELLS.ap, hull, { x: 0, y: 0.2, z: 2.5 }, intoFront(0));
+
+    expect(hit.zone).toBe('front');
+    expect(hit.result).toBe('penetrated');
+    expect(hit.angle).toBeCloseTo(0);
+    expect(hit.damage).toBe(SHELLS.ap.damage);
+    expect(hit.normal.z).toBeCloseTo(1);
+  });
+
+  it('bounces off plate struck too steeply', () => {
+    const hit = resolveArmorHit(SHELLS.ap, hull, { x: 0, y: 0.2, z: 2.5 }, intoFront(75 * Math.PI / 180));
+
+    expect(hit.zone).toBe('front');
+    expect(hit.result).toBe('bounced');
+    expect(hit.damage).toBe(0);
+  });
+
+  it('fails to get through plate made thicker by the angle', () => {
+    // AP gets through 90mm head on, but not the 90 / cos(45) it faces at 45 degrees
+    const hit = resolveArmorHit(SHELLS.ap, hull, { x: 0, y: 0.2, z: 2.5 }, intoFront(45 * Math.PI / 180));
+
+    expect(hit.result).toBe('nonPenetrating');
+    expect(hit.damage).toBe(0);
+  });
+
+  it('lets explosive shells do part of their damage against armor they cannot get through', () => {
+    const hit = resolveArmorHit(SHELLS.he, hull, { x: 0, y: 0.2, z: 2.5 }, intoFront(0));
+
+    expect(hit.result).toBe('nonPenetrating');
+    expect(hit.damage).toBeGreaterThan(0);
+    expect(hit.damage).toBeLessThan(SHELLS.he.damage);
+  });
+
+  it('finds the thin rear plate and the turret', () => {
+    const rear = resolveArmorHit(SHELLS.he, hull, { x: 0, y: 0.2, z: -2.5 }, { x: 0, y: 0, z: 40 });
+    expect(rear.zone).toBe('rear');
+    expect(rear.face).toBe('rear');
+    expect(rear.result).toBe('penetrated');
+
+    const turret = resolveArmorHit(SHELLS.ap, hull, { x: 0, y: 1, z: 1.5 }, intoFront(0));
+    expect(turret.zone).toBe('turret');
+    expect(turret.face).toBe('front');
+  });
+
+  it('works in the tank\'s frame whichever way it faces', () => {
+    // Facing +X, so a shell flying along -X strikes the front
+    const turned = { ...hull, heading: Math.PI / 2 };
+    const hit = resolveArmorHit(SHELLS.ap, turned, { x: 2.5, y: 0.2, z: 0 }, { x: -60, y: 0, z: 0 });
+
+    expect(hit.zone).toBe('front');
+    expect(hit.result).toBe('penetrated');
+    expect(hit.normal.x).toBeCloseTo(1);
+    expect(hit.normal.z).toBeCloseTo(0);
+  });
+});
+
+describe('ricochetVelocity', () => {
+  it('mirrors the shell off the plate and slows it down', () => {
+    const bounced = ricochetVelocity({ x: 10, y: 0, z: -5 }, { x: 0, y: 0, z: 1 });
+
+    expect(bounced.x).toBeGreaterThan(0);
+    expect(bounced.z).toBeGreaterThan(0);
+    expect(Math.hypot(bounced.x, bounced.z)).toBeLessThan(Math.hypot(10, 5));
+  });
+});
+
+describe('hitboxContains', () => {
+  it('follows the hull round as the tank turns', () => {
+    // Just past the side of a tank facing +Z, but inside its length once it faces +X
+    const point = { x: 2.3, y: 0, z: 0 };
+
+    expect(hitboxContains(hull, point, 0)).toBe(false);
+    expect(hitboxContains(hull, point, 0.5)).toBe(true);
+    expect(hitboxContains({ ...hull, heading: Math.PI / 2 }, point, 0)).toBe(true);
+  });
+});
+
+describe('hitboxDistance', () => {
+  it('measures from the nearest edge of the hull', () => {
+    expect(hitboxDistance(hull, { x: 1, y: 0, z: 1 })).toBe(0);
+    expect(hitboxDistance(hull, { x: 5, y: 0, z: 0 })).toBeCloseTo(3);
+    expect(hitboxDistance(hull, { x: 5, y: 0, z: 6.5 })).toBeCloseTo(5);
+  });
+});
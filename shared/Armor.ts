@@ -0,0 +1,177 @@
+import { ShellDefinition } from './Weapons';
+import { Vector3Data } from './protocol';
+
+/**
+ * Tank armor, shared by the server, which decides what a hit does, and the
+ * client, which bounces shells off tanks and resolves hits offline.
+ *
+ * Whether a shell gets through depends on the armor it strikes and how steeply:
+ * plate hit at an angle is thicker along the shell's path, and hit steeply enough
+ * the shell glances off instead of biting.
+ */
+
+export const ARMOR_ZONES = ['front', 'side', 'rear', 'turret'] as const;
+export type ArmorZone = typeof ARMOR_ZONES[number];
+
+export const HIT_RESULTS = ['penetrated', 'bounced', 'nonPenetrating'] as const;
+export type HitResult = typeof HIT_RESULTS[number];
+
+// Plate thickness of each zone (mm), to compare with a shell's penetration
+export const ARMOR_THICKNESS: Record<ArmorZone, number> = {
+  front: 90,
+  side: 50,
+  rear: 30,
+  turret: 110
+};
+
+// Half size of the hull and turret collision boxes (see Tank.createPhysicsBody)
+export const TANK_HALF_WIDTH = 2.0;
+export const TANK_HALF_LENGTH = 2.5;
+const TURRET_HALF_WIDTH = 1.0;
+const TURRET_HALF_LENGTH = 1.5;
+const TURRET_BOTTOM = 0.6; // Height above the middle of the hull
+
+// Shells meeting armor further than this from head on glance off (radians)
+const RICOCHET_ANGLE = 70 * Math.PI / 180;
+
+// Share of its speed a shell keeps when it glances off
+const RICOCHET_SPEED_KEPT = 0.7;
+
+// Share of their damage explosive shells still do when they burst against armor they can't get through
+const NON_PENETRATING_BLAST = 0.5;
+
+/**
+ * Where and how a tank was hit
+ */
+export interface ArmorHit {
+  zone: ArmorZone;
+  face: 'front' | 'side' | 'rear'; // Side of the hull or turret struck
+  result: HitResult;
+  angle: number; // From head on (radians)
+  damage: number;
+  normal: Vector3Data; // Outward facing normal of the plate struck, in world space
+}
+
+/**
+ * A tank's position and heading, where its hull is centered
+ */
+export interface HullPose {
+  x: number;
+  y: number;
+  z: number;
+  heading: number; // 0 faces positive Z
+}
+
+/**
+ * Check whether a point lies within a hitbox, grown by the given tolerance.
+ * Only the horizontal plane is checked, since terrain height differs between clients.
+ */
+export function hitboxContains(hitbox: HullPose, point: Vector3Data, tolerance: number): boolean {
+  const { x, z } = toHitboxFrame(hitbox, point);
+
+  return Math.abs(x) <= TANK_HALF_WIDTH + tolerance &&
+    Math.abs(z) <= TANK_HALF_LENGTH + tolerance;
+}
+
+/**
+ * Horizontal distance from a point to the nearest edge of a hitbox, 0 inside it
+ */
+export function hitboxDistance(hitbox: HullPose, point: Vector3Data): number {
+  const { x, z } = toHitboxFrame(hitbox, point);
+
+  return Math.hypot(
+    Math.max(0, Math.abs(x) - TANK_HALF_WIDTH),
+    Math.max(0, Math.abs(z) - TANK_HALF_LENGTH)
+  );
+}
+
+/**
+ * A point relative to the middle of a hitbox, rotated into the tank's frame
+ * (forward is +Z at heading 0)
+ */
+function toHitboxFrame(hitbox: HullPose, point: Vector3Data): { x: number; z: number } {
+  const dx = point.x - hitbox.x;
+  const dz = point.z - hitbox.z;
+  const sin = Math.sin(hitbox.heading);
+  const cos = Math.cos(hitbox.heading);
+
+  return { x: dx * cos - dz * sin, z: dx * sin + dz * cos };
+}
+
+/**
+ * Work out what a shell striking a tank at the given point, flying with the given
+ * velocity, does to it
+ */
+export function resolveArmorHit(
+  shell: ShellDefinition,
+  hull: HullPose,
+  point: Vector3Data,
+  velocity: Vector3Data
+): ArmorHit {
+  const sin = Math.sin(hull.heading);
+  const cos = Math.cos(hull.heading);
+
+  // Into the tank's frame, where forward is +Z
+  const dx = point.x - hull.x;
+  const dz = point.z - hull.z;
+  const x = dx * cos - dz * sin;
+  const z = dx * sin + dz * cos;
+  const vx = velocity.x * cos - velocity.z * sin;
+  const vz = velocity.x * sin + velocity.z * cos;
+
+  const onTurret = point.y - hull.y >= TURRET_BOTTOM;
+  const halfWidth = onTurret ? TURRET_HALF_WIDTH : TANK_HALF_WIDTH;
+  const halfLength = onTurret ? TURRET_HALF_LENGTH : TANK_HALF_LENGTH;
+
+  // The face the shell is nearest to, out of those it is flying into
+  const faces = [
+    { zone: 'front' as const, nx: 0, nz: 1, gap: halfLength - z },
+    { zone: 'rear' as const, nx: 0, nz: -1, gap: halfLength + z },
+    { zone: 'side' as const, nx: 1, nz: 0, gap: halfWidth - x },
+    { zone: 'side' as const, nx: -1, nz: 0, gap: halfWidth + x }
+  ];
+  const facing = faces.filter(face => face.nx * vx + face.nz * vz < 0);
+  const face = (facing.length > 0 ? facing : faces).reduce((nearest, candidate) =>
+    candidate.gap < nearest.gap ? candidate : nearest
+  );
+
+  const speed = Math.hypot(velocity.x, velocity.y, velocity.z) || 1;
+  const headOn = Math.max(0, -(face.nx * vx + face.nz * vz) / speed);
+  const angle = Math.acos(Math.min(1, headOn));
+  const zone: ArmorZone = onTurret ? 'turret' : face.zone;
+  const struck = { zone, face: face.zone };
+
+  // Back into world space
+  const normal = {
+    x: face.nx * cos + face.nz * sin,
+    y: 0,
+    z: -face.nx * sin + face.nz * cos
+  };
+
+  if (angle > RICOCHET_ANGLE) {
+    return { ...struck, result: 'bounced', angle, damage: 0, normal };
+  }
+
+  // Plate is thicker along a slanted path through it
+  const effectiveArmor = ARMOR_THICKNESS[zone] / Math.max(headOn, Math.cos(RICOCHET_ANGLE));
+
+  if (shell.penetration >= effectiveArmor) {
+    return { ...struck, result: 'penetrated', angle, damage: shell.damage, normal };
+  }
+
+  const damage = shell.splashRadius > 0 ? Math.round(shell.damage * NON_PENETRATING_BLAST) : 0;
+  return { ...struck, result: 'nonPenetrating', angle, damage, normal };
+}
+
+/**
+ * Velocity of a shell glancing off a plate with the given normal
+ */
+export function ricochetVelocity(velocity: Vector3Data, normal: Vector3Data): Vector3Data {
+  const along = velocity.x * normal.x + velocity.y * normal.y + velocity.z * normal.z;
+
+  return {
+    x: (velocity.x - 2 * along * normal.x) * RICOCHET_SPEED_KEPT,
+    y: (velocity.y - 2 * along * normal.y) * RICOCHET_SPEED_KEPT,
+    z: (velocity.z - 2 * along * normal.z) * RICOCHET_SPEED_KEPT
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { shellPosition, shellVelocity, travelDistance, timeToTravel, traceTrajectory } from './Ballistics';
+import { SHELLS } from './Weapons';
+
+const origin = { x: 10, y: 2, z: -5 };
+const velocity = { x: 30, y: 8, z: 40 };
+
+describe('shellPosition', () => {
+  it('follows plain projectile motion without drag', () => {
+    const shell = { ...SHELLS.ap, drag: 0 };
+    const position = shellPosition(origin, velocity, shell, 2);
+
+    expect(position.x).toBeCloseTo(origin.x + velocity.x * 2);
+    expect(position.y).toBeCloseTo(origin.y + velocity.y * 2 - 0.5 * shell.gravity * 4);
+    expect(position.z).toBeCloseTo(origin.z + velocity.z * 2);
+  });
+
+  it('falls short of the drag free path with drag', () => {
+    const shell = SHELLS.ap;
+    const withDrag = shellPosition(origin, velocity, shell, 2);
+    const withoutDrag = shellPosition(origin, velocity, { ...shell, drag: 0 }, 2);
+
+    expect(withDrag.x).toBeLessThan(withoutDrag.x);
+    expect(withDrag.z).toBeLessThan(withoutDrag.z);
+  });
+
+  it('moves at the speed shellVelocity gives', () => {
+    const shell = SHELLS.he;
+    const time = 1.5;
+    const step = 1e-4;
+
+    const before = shellPosition(origin, velocity, shell, time - step);
+    const after = shellPosition(origin, velocity, shell, time + step);
+    const expected = shellVelocity(velocity, shell, time);
+
+    expect((after.x - before.x) / (2 * step)).toBeCloseTo(expected.x, 3);
+    expect((after.y - before.y) / (2 * step)).toBeCloseTo(expected.y, 3);
+    expect((after.z - before.z) / (2 * step)).toBeCloseTo(expected.z, 3);
+  });
+
+  it('starts at the origin with the launch velocity', () => {
+    const shell = SHELLS.heat;
+
+    expect(shellPosition(origin, velocity, shell, 0)).toEqual(origin);
+    expect(shellVelocity(velocity, shell, 0)).toEqual(velocity);
+  });
+});
+
+describe('travelDistance', () => {
+  it('matches the horizontal distance shellPosition covers', () => {
+    const shell = SHELLS.apcr;
+    const position = shellPosition(origin, velocity, shell, 2.5);
+    const horizontalSpeed = Math.hypot(velocity.x, velocity.z);
+
+    expect(travelDistance(horizontalSpeed, shell, 2.5)).toBeCloseTo(
+      Math.hypot(position.x - origin.x, position.z - origin.z)
+    );
+  });
+});
+
+describe('timeToTravel', () => {
+  it('undoes travelDistance', () => {
+    for (const shell of Object.values(SHELLS)) {
+      const distance = travelDistance(50, shell, 1.25);
+      expect(timeToTravel(50, shell, distance)).toBeCloseTo(1.25);
+    }
+  });
+
+  it('is null past where drag stops the shell', () => {
+    const shell = SHELLS.he;
+
+    expect(timeToTravel(40, shell, 40 / shell.drag + 1)).toBeNull();
+    expect(timeToTravel(0, shell, 10)).toBeNull();
+    expect(timeToTravel(40, shell, 0)).toBe(0);
+  });
+});
+
+describe('traceTrajectory', () => {
+  it('ends where the shell reaches the ground', () => {
+    const shell = SHELLS.he;
+    const { points, impact } = traceTrajectory(origin, { x: 20, y: 5, z: 0 }, shell, () => 0, 0.05);
+
+    expect(impact).not.toBeNull();
+    expect(impact!.y).toBeLessThanOrEqual(0);
+    expect(points[0]).toEqual(origin);
+    expect(points[points.length - 1]).toBe(impact);
+  });
+
+  it('has no impact when the lifetime runs out first', () => {
+    const shell = SHELLS.apcr;
+    const { impact } = traceTrajectory(origin, velocity, shell, () => -1000, 0.05);
+
+    expect(impact).toBeNull();
+  });
+});
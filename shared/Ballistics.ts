@@ -0,0 +1,121 @@
+import { ShellDefinition } from './Weapons';
+import { Vector3Data } from './protocol';
+
+/**
+ * Shell flight model shared by the client, which flies shells and previews where
+ * they'll land, and the server, which checks hits against it.
+ *
+ * Shells are pulled down by their shell's gravity and slowed by drag in
+ * proportion to their speed. That has a closed form, so a shell's position at any
+ * age comes out the same everywhere regardless of frame rate.
+ */
+
+// Below this, drag is treated as none to avoid dividing by almost zero
+const MIN_DRAG = 1e-6;
+
+/**
+ * Where a shell launched from origin with the given velocity is after time (s)
+ */
+export function shellPosition(
+  origin: Vector3Data,
+  velocity: Vector3Data,
+  shell: ShellDefinition,
+  time: number
+): Vector3Data {
+  const { gravity, drag } = shell;
+
+  if (drag < MIN_DRAG) {
+    return {
+      x: origin.x + velocity.x * time,
+      y: origin.y + velocity.y * time - 0.5 * gravity * time * time,
+      z: origin.z + velocity.z * time
+    };
+  }
+
+  // Fraction of the launch speed spent by now, over the drag
+  const spent = (1 - Math.exp(-drag * time)) / drag;
+  const terminal = gravity / drag; // Falling speed drag and gravity balance out at
+
+  return {
+    x: origin.x + velocity.x * spent,
+    y: origin.y + (velocity.y + terminal) * spent - terminal * time,
+    z: origin.z + velocity.z * spent
+  };
+}
+
+/**
+ * Velocity of a shell launched with the given velocity after time (s)
+ */
+export function shellVelocity(velocity: Vector3Data, shell: ShellDefinition, time: number): Vector3Data {
+  const { gravity, drag } = shell;
+
+  if (drag < MIN_DRAG) {
+    return { x: velocity.x, y: velocity.y - gravity * time, z: velocity.z };
+  }
+
+  const decay = Math.exp(-drag * time);
+  const terminal = gravity / drag;
+
+  return {
+    x: velocity.x * decay,
+    y: (velocity.y + terminal) * decay - terminal,
+    z: velocity.z * decay
+  };
+}
+
+/**
+ * Horizontal distance a shell launched with the given horizontal speed covers in time (s)
+ */
+export function travelDistance(horizontalSpeed: number, shell: ShellDefinition, time: number): number {
+  if (shell.drag < MIN_DRAG) {
+    return horizontalSpeed * time;
+  }
+
+  return horizontalSpeed * (1 - Math.exp(-shell.drag * time)) / shell.drag;
+}
+
+/**
+ * How long a shell launched with the given horizontal speed takes to cover a
+ * horizontal distance, or null if drag stops it short of there
+ */
+export function timeToTravel(horizontalSpeed: number, shell: ShellDefinition, distance: number): number | null {
+  if (distance <= 0) return 0;
+  if (horizontalSpeed <= 0) return null;
+
+  if (shell.drag < MIN_DRAG) {
+    return distance / horizontalSpeed;
+  }
+
+  const remaining = 1 - distance * shell.drag / horizontalSpeed;
+  if (remaining <= 0) return null;
+
+  return -Math.log(remaining) / shell.drag;
+}
+
+/**
+ * A shell's path until it hits the ground or its lifetime runs out, sampled every
+ * step (s). Used for the aim arc and the range finder.
+ */
+export function traceTrajectory(
+  origin: Vector3Data,
+  velocity: Vector3Data,
+  shell: ShellDefinition,
+  groundHeightAt: (x: number, z: number) => number,
+  step: number
+): { points: Vector3Data[]; impact: Vector3Data | null } {
+  const points: Vector3Data[] = [origin];
+
+  for (let time = step; time <= shell.lifetime; time += step) {
+    const point = shellPosition(origin, velocity, shell, time);
+
+    if (point.y <= groundHeightAt(point.x, point.z)) {
+      // Close enough to where it lands; the terrain is coarser than a step anyway
+      points.push(point);
+      return { points, impact: point };
+    }
+
+    points.push(point);
+  }
+
+  return { points, impact: null };
+}
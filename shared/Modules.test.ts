@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { BROKEN_ENGINE_SPEED, getMovementParams, moduleForHit } from './Modules';
+import { TANK_MOVEMENT } from './TankMovement';
+
+describe('moduleForHit', () => {
+  it('finds the module behind the plate struck', () => {
+    expect(moduleForHit({ zone: 'turret', face: 'front' })).toBe('gun');
+    expect(moduleForHit({ zone: 'turret', face: 'side' })).toBe('turretRing');
+    expect(moduleForHit({ zone: 'rear', face: 'rear' })).toBe('engine');
+    expect(moduleForHit({ zone: 'front', face: 'front' })).toBe('tracks');
+    expect(moduleForHit({ zone: 'side', face: 'side' })).toBe('tracks');
+  });
+});
+
+describe('getMovementParams', () => {
+  it('stops a tank with broken tracks, boost or not', () => {
+    const params = getMovementParams(['tracks', 'engine'], 1.5);
+
+    expect(params.maxSpeed).toBe(0);
+    expect(params.turnSpeed).toBe(0);
+  });
+
+  it('slows a tank with a broken engine, on top of any boost', () => {
+    expect(getMovementParams(['engine']).maxSpeed).toBe(TANK_MOVEMENT.maxSpeed * BROKEN_ENGINE_SPEED);
+    expect(getMovementParams(['engine'], 2).maxSpeed).toBe(TANK_MOVEMENT.maxSpeed * 2 * BROKEN_ENGINE_SPEED);
+    expect(getMovementParams([])).toEqual(TANK_MOVEMENT);
+  });
+});
@@ -0,0 +1,88 @@
+import { ArmorHit } from './Armor';
+import { TANK_MOVEMENT, TankMovementParams } from './TankMovement';
+
+/**
+ * Tank modules, shared by the server, which damages them and enforces what a
+ * broken one does, and the client, which drives and fires with them.
+ *
+ * Hits that get through the armor also wear down the module behind the plate
+ * struck. A module worn down to nothing is broken until repaired:
+ * - tracks: the tank can't move or turn
+ * - turret ring: the turret turns at half speed
+ * - engine: the tank can only reach part of its top speed
+ * - gun: reloads take longer
+ */
+
+export const TANK_MODULES = ['tracks', 'turretRing', 'engine', 'gun'] as const;
+export type TankModule = typeof TANK_MODULES[number];
+
+export interface ModuleDefinition {
+  name: string;
+  health: number; // Damage it takes to break
+}
+
+export const MODULES: Record<TankModule, ModuleDefinition> = {
+  tracks: { name: 'Tracks', health: 30 },
+  turretRing: { name: 'Turret ring', health: 30 },
+  engine: { name: 'Engine', health: 40 },
+  gun: { name: 'Gun', health: 30 }
+};
+
+export const REPAIR_TIME = 5; // Seconds to fix every broken module
+
+// What broken modules do
+export const BROKEN_TURRET_RING_SPEED = 0.5; // Share of the turret's turn speed left
+export const BROKEN_ENGINE_SPEED = 0.5; // Share of the tank's top speed left
+export const BROKEN_GUN_RELOAD = 1.5; // Reloads take this many times as long
+
+/**
+ * Health left in each of a tank's modules
+ */
+export type ModuleHealth = Record<TankModule, number>;
+
+/**
+ * Every module in working order, as a tank spawns
+ */
+export function createModuleHealth(): ModuleHealth {
+  return Object.fromEntries(TANK_MODULES.map(module => [module, MODULES[module].health])) as ModuleHealth;
+}
+
+/**
+ * Modules worn down to nothing
+ */
+export function getBrokenModules(health: ModuleHealth): TankModule[] {
+  return TANK_MODULES.filter(module => health[module] <= 0);
+}
+
+/**
+ * The module behind the armor a hit struck: the gun faces forward out of the
+ * turret with the ring all around it, the engine sits at the back and the tracks
+ * run along the front and sides
+ */
+export function moduleForHit(hit: Pick<ArmorHit, 'zone' | 'face'>): TankModule {
+  if (hit.zone === 'turret') return hit.face === 'front' ? 'gun' : 'turretRing';
+  if (hit.zone === 'rear') return 'engine';
+  return 'tracks';
+}
+
+/**
+ * How a tank with the given modules broken drives, with its top speed and
+ * acceleration scaled by speedFactor (a speed boost, say)
+ */
+export function getMovementParams(broken: readonly TankModule[], speedFactor = 1): TankMovementParams {
+  if (broken.includes('tracks')) {
+    return { ...TANK_MOVEMENT, engineAcceleration: 0, turnSpeed: 0, maxSpeed: 0 };
+  }
+
+  const boosted = {
+    ...TANK_MOVEMENT,
+    engineAcceleration: TANK_MOVEMENT.engineAcceleration * speedFactor,
+    maxSpeed: TANK_MOVEMENT.maxSpeed * speedFactor
+  };
+
+  if (broken.includes('engine')) {
+    return { ...boosted, maxSpeed: boosted.maxSpeed * BROKEN_ENGINE_SPEED };
+  }
+
+  return boosted;
+}
@@ -0,0 +1,69 @@
+/**
+ * Pickups lying around the map, shared by the server, which decides who gets
+ * each one and enforces what it does, and the client, which shows them and
+ * drives and fires with their effects.
+ *
+ * Every client generates its own terrain, so pickups sit at fixed points on the
+ * map rather than anywhere random, and float over whatever ground is there.
+ */
+
+export const PICKUP_TYPES = ['health', 'ammo', 'speed', 'damage', 'shield'] as const;
+export type PickupType = typeof PICKUP_TYPES[number];
+
+export interface PickupDefinition {
+  name: string;
+  color: number; // 0xRRGGBB, for the pickup, its HUD timer and minimap marker
+  respawnTime: number; // Seconds before it's back after being taken
+  duration: number; // Seconds its effect lasts, 0 for ones that act straight away
+}
+
+export const PICKUPS: Record<PickupType, PickupDefinition> = {
+  health: { name: 'Health', color: 0x33dd55, respawnTime: 30, duration: 0 },
+  ammo: { name: 'Ammo', color: 0xffcc00, respawnTime: 30, duration: 0 },
+  speed: { name: 'Speed', color: 0x33ccff, respawnTime: 45, duration: 10 },
+  damage: { name: 'Damage', color: 0xff5533, respawnTime: 60, duration: 10 },
+  shield: { name: 'Shield', color: 0xaa66ff, respawnTime: 60, duration: 10 }
+};
+
+// What pickups do
+export const HEALTH_PICKUP_AMOUNT = 50;
+export const SPEED_BOOST = 1.5; // Top speed and acceleration multiplier
+export const DAMAGE_BOOST = 1.5; // Damage multiplier for shells fired by the tank
+export const SHIELD_DAMAGE = 0.5; // Share of damage that still gets through a shield
+
+export const PICKUP_RADIUS = 2.5; // Size of the trigger a tank drives into (units)
+
+/**
+ * A point a pickup spawns at; x and z are on the map, the height is up to each client
+ */
+export interface PickupSpawn {
+  id: string;
+  type: PickupType;
+  x: number;
+  z: number;
+}
+
+// Mirrored across the middle so neither team's base is closer to any pickup
+export const PICKUP_SPAWNS: PickupSpawn[] = [
+  { id: 'health-1', type: 'health', x: 0, z: 0 },
+  { id: 'health-2', type: 'health', x: -120, z: 120 },
+  { id: 'health-3', type: 'health', x: 120, z: 120 },
+  { id: 'ammo-1', type: 'ammo', x: -120, z: -120 },
+  { id: 'ammo-2', type: 'ammo', x: 120, z: -120 },
+  { id: 'speed-1', type: 'speed', x: 0, z: 200 },
+  { id: 'speed-2', type: 'speed', x: 0, z: -200 },
+  { id: 'damage-1', type: 'damage', x: 0, z: 100 },
+  { id: 'shield-1', type: 'shield', x: 0, z: -100 }
+];
+
+export function getPickupSpawn(id: string): PickupSpawn | undefined {
+  return PICKUP_SPAWNS.find(spawn => spawn.id === id);
+}
+
+/**
+ * Damage a shell does once the shooter's damage boost and the target's shield
+ * are taken into account
+ */
+export function scaleDamage(damage: number, boosted: boolean, shielded: boolean): number {
+  return Math.round(damage * (boosted ? DAMAGE_BOOST : 1) * (shielded ? SHIELD_DAMAGE : 1));
+}
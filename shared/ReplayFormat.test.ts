@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { ReplayWriter, ReplayHeader, readReplay, REPLAY_MAGIC } from './ReplayFormat';
+import { QuantizedSnapshot, quantizeEntity } from './SnapshotCodec';
+import { PROTOCOL_VERSION } from './protocol';
+
+const header: ReplayHeader = {
+  protocolVersion: PROTOCOL_VERSION,
+  room: { id: 'room', name: 'Test room', maxPlayers: 4, mode: 'deathmatch', friendlyFire: false },
+  startedAt: 100000,
+  startTick: 2000
+};
+
+function createSnapshot(sequence: number, x: number): QuantizedSnapshot {
+  const entity = quantizeEntity({
+    netId: 1,
+    position: { x, y: 0, z: 10 },
+    heading: 0.5,
+    turretRotation: 0,
+    velocity: { x: 5, y: 0, z: 0 },
+    health: 100
+  });
+
+  return { sequence, timestamp: 100000 + sequence * 50, lastProcessedInput: -1, entities: new Map([[1, entity]]) };
+}
+
+function recordMatch(): ArrayBuffer {
+  const writer = new ReplayWriter(header);
+  writer.addSnapshot(0, createSnapshot(0, 0));
+  writer.addEvent(1, 'chatMessage', { id: 'a', username: 'alice', message: 'gg', timestamp: 100050, channel: 'all' });
+  writer.addSnapshot(1, createSnapshot(1, 0.25));
+  writer.addSnapshot(2, createSnapshot(2, 0.5));
+
+  return writer.getData().buffer as ArrayBuffer;
+}
+
+describe('ReplayFormat', () => {
+  it('reads back what was recorded', () => {
+    const replay = readReplay(recordMatch());
+
+    expect(replay.header).toEqual(header);
+    expect(replay.snapshots).toEqual([createSnapshot(0, 0), createSnapshot(1, 0.25), createSnapshot(2, 0.5)]);
+    expect(replay.events).toEqual([{
+      tick: 1,
+      type: 'chatMessage',
+      data: { id: 'a', username: 'alice', message: 'gg', timestamp: 100050, channel: 'all' }
+    }]);
+  });
+
+  it('rejects files that are not replays', () => {
+    const buffer = recordMatch();
+    new DataView(buffer).setUint32(0, REPLAY_MAGIC + 1, true);
+
+    expect(() => readReplay(buffer)).toThrow('Not a replay file');
+  });
+
+  it('rejects files cut short', () => {
+    const buffer = recordMatch();
+
+    expect(() => readReplay(buffer.slice(0, buffer.byteLength - 3))).toThrow(/truncated/);
+  });
+
+  it('rejects replays from another version of the game', () => {
+    const writer = new ReplayWriter({ ...header, protocolVersion: PROTOCOL_VERSION + 1 });
+
+    expect(() => readReplay(writer.getData().buffer as ArrayBuffer)).toThrow('different version');
+  });
+});
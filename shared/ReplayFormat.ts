@@ -0,0 +1,204 @@
+import { PROTOCOL_VERSION, RoomSettings, ServerMessages } from './protocol';
+import { QuantizedSnapshot, encodeSnapshot, decodeSnapshot } from './SnapshotCodec';
+import { validateReplayHeader, validateServerMessage } from './validation';
+
+/**
+ * Recorded matches.
+ *
+ * A replay is everything a spectator would have seen: the snapshot of every tank
+ * each tick, and the room events in between. Snapshots are delta-encoded against
+ * the one before, so a file mostly holds what actually moved.
+ *
+ * Layout (little endian):
+ *   header: u32 magic, u16 format version, u32 header length, JSON ReplayHeader
+ *   record: u8 kind, u32 tick (since the match started), u32 length, payload
+ *     snapshot: an encoded snapshot (see SnapshotCodec)
+ *     event: JSON [event name, data] of one of REPLAY_EVENTS
+ */
+
+export const REPLAY_MAGIC = 0x50524d54; // 'TMRP'
+export const REPLAY_FORMAT_VERSION = 1;
+export const REPLAY_FILE_EXTENSION = '.replay';
+
+// Server messages worth keeping; the rest are about the lobby or a single client's view
+export const REPLAY_EVENTS = [
+  'playerJoined',
+  'playerLeft',
+  'playerRespawned',
+  'projectileFired',
+  'playerHit',
+  'pickupTaken',
+  'chatMessage',
+  'matchEnded',
+  'roomUpdated' // For team scores
+] as const;
+export type ReplayEventType = typeof REPLAY_EVENTS[number];
+
+// Record kinds
+const RECORD_SNAPSHOT = 1;
+const RECORD_EVENT = 2;
+
+const PREAMBLE_SIZE = 4 + 2 + 4;
+const RECORD_HEADER_SIZE = 1 + 4 + 4;
+
+export interface ReplayHeader {
+  protocolVersion: number;
+  room: RoomSettings;
+  startedAt: number; // Server time (ms) the match started at
+  startTick: number; // Record ticks count from here
+}
+
+export interface ReplayEvent<K extends ReplayEventType = ReplayEventType> {
+  tick: number;
+  type: K;
+  data: ServerMessages[K];
+}
+
+export interface Replay {
+  header: ReplayHeader;
+  snapshots: QuantizedSnapshot[]; // In order, timestamps are server time
+  events: ReplayEvent[]; // In order
+}
+
+export function isReplayEvent(event: string): event is ReplayEventType {
+  return (REPLAY_EVENTS as readonly string[]).includes(event);
+}
+
+/**
+ * Builds a replay file as the match goes
+ */
+export class ReplayWriter {
+  private chunks: Uint8Array[] = [];
+  private size: number = 0;
+  private previous: QuantizedSnapshot | null = null;
+  private encoder = new TextEncoder();
+
+  constructor(header: ReplayHeader) {
+    const json = this.encoder.encode(JSON.stringify(header));
+    const preamble = new DataView(new ArrayBuffer(PREAMBLE_SIZE));
+
+    preamble.setUint32(0, REPLAY_MAGIC, true);
+    preamble.setUint16(4, REPLAY_FORMAT_VERSION, true);
+    preamble.setUint32(6, json.byteLength, true);
+
+    this.push(new Uint8Array(preamble.buffer));
+    this.push(json);
+  }
+
+  public addSnapshot(tick: number, snapshot: QuantizedSnapshot): void {
+    const data = new Uint8Array(encodeSnapshot(snapshot, this.previous));
+    this.previous = snapshot;
+    this.addRecord(RECORD_SNAPSHOT, tick, data);
+  }
+
+  public addEvent<K extends ReplayEventType>(tick: number, type: K, data: ServerMessages[K]): void {
+    this.addRecord(RECORD_EVENT, tick, this.encoder.encode(JSON.stringify([type, data])));
+  }
+
+  /**
+   * The whole file so far
+   */
+  public getData(): Uint8Array {
+    const data = new Uint8Array(this.size);
+    let offset = 0;
+
+    this.chunks.forEach(chunk => {
+      data.set(chunk, offset);
+      offset += chunk.byteLength;
+    });
+
+    return data;
+  }
+
+  private addRecord(kind: number, tick: number, payload: Uint8Array): void {
+    const header = new DataView(new ArrayBuffer(RECORD_HEADER_SIZE));
+
+    header.setUint8(0, kind);
+    header.setUint32(1, Math.max(0, tick), true);
+    header.setUint32(5, payload.byteLength, true);
+
+    this.push(new Uint8Array(header.buffer));
+    this.push(payload);
+  }
+
+  private push(chunk: Uint8Array): void {
+    this.chunks.push(chunk);
+    this.size += chunk.byteLength;
+  }
+}
+
+/**
+ * Read a replay file. Files come from wherever the player got them, so
+ * anything malformed throws rather than reaching the game.
+ */
+export function readReplay(buffer: ArrayBuffer): Replay {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  let offset = 0;
+
+  const ensure = (bytes: number) => {
+    if (offset + bytes > view.byteLength) {
+      throw new Error(`Replay truncated at byte ${offset}`);
+    }
+  };
+
+  ensure(PREAMBLE_SIZE);
+  if (view.getUint32(0, true) !== REPLAY_MAGIC) {
+    throw new Error('Not a replay file');
+  }
+
+  const version = view.getUint16(4, true);
+  if (version !== REPLAY_FORMAT_VERSION) {
+    throw new Error(`Unsupported replay format version ${version}`);
+  }
+
+  const headerLength = view.getUint32(6, true);
+  offset = PREAMBLE_SIZE;
+  ensure(headerLength);
+
+  const headerResult = validateReplayHeader(JSON.parse(decoder.decode(new Uint8Array(buffer, offset, headerLength))));
+  if (!headerResult.ok) {
+    throw new Error(`Invalid replay header: ${headerResult.reason}`);
+  }
+  if (headerResult.value.protocolVersion !== PROTOCOL_VERSION) {
+    throw new Error('Replay was recorded by a different version of the game');
+  }
+  offset += headerLength;
+
+  const replay: Replay = { header: headerResult.value, snapshots: [], events: [] };
+  let previous: QuantizedSnapshot | undefined;
+
+  while (offset < view.byteLength) {
+    ensure(RECORD_HEADER_SIZE);
+    const kind = view.getUint8(offset);
+    const tick = view.getUint32(offset + 1, true);
+    const length = view.getUint32(offset + 5, true);
+    offset += RECORD_HEADER_SIZE;
+
+    ensure(length);
+    const payload = new Uint8Array(buffer, offset, length);
+    offset += length;
+
+    if (kind === RECORD_SNAPSHOT) {
+      const baseline = previous;
+      previous = decodeSnapshot(payload, sequence => sequence === baseline?.sequence ? baseline : undefined);
+      replay.snapshots.push(previous);
+    } else if (kind === RECORD_EVENT) {
+      const [type, data] = JSON.parse(decoder.decode(payload));
+      if (typeof type !== 'string' || !isReplayEvent(type)) {
+        throw new Error(`Unknown replay event '${type}'`);
+      }
+
+      const result = validateServerMessage(type, data);
+      if (!result.ok) {
+        throw new Error(`Invalid replay event '${type}': ${result.reason}`);
+      }
+
+      replay.events.push({ tick, type, data: result.value });
+    } else {
+      throw new Error(`Unknown replay record kind ${kind}`);
+    }
+  }
+
+  return replay;
+}
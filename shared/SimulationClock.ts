@@ -0,0 +1,24 @@
+/**
+ * The shared timeline of the simulation.
+ *
+ * Server time is the server's wall clock in milliseconds; clients estimate it
+ * from ping round trips. Ticks number the fixed steps the server runs at, so a
+ * tick refers to the same moment on every machine however its messages arrived.
+ */
+
+export const TICK_RATE = 20; // Ticks per second
+export const TICK_INTERVAL = 1000 / TICK_RATE; // ms
+
+/**
+ * The tick a moment in server time falls in
+ */
+export function timeToTick(serverTime: number): number {
+  return Math.floor(serverTime / TICK_INTERVAL);
+}
+
+/**
+ * The server time a tick starts at
+ */
+export function tickToTime(tick: number): number {
+  return tick * TICK_INTERVAL;
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  NO_BASELINE,
+  QuantizedSnapshot,
+  SnapshotEntity,
+  quantizeEntity,
+  dequantizeEntity,
+  encodeSnapshot,
+  decodeSnapshot,
+  getSnapshotBaseline
+} from './SnapshotCodec';
+
+function createEntity(netId: number, x: number): SnapshotEntity {
+  return {
+    netId,
+    position: { x, y: 1.5, z: -20.25 },
+    heading: 0.5,
+    turretRotation: -1.25,
+    velocity: { x: 3.5, y: 0, z: -7.25 },
+    health: 80
+  };
+}
+
+function createSnapshot(sequence: number, entities: SnapshotEntity[]): QuantizedSnapshot {
+  return {
+    sequence,
+    timestamp: 1000 + sequence * 50,
+    lastProcessedInput: sequence * 2,
+    entities: new Map(entities.map(entity => [entity.netId, quantizeEntity(entity)]))
+  };
+}
+
+describe('quantizeEntity', () => {
+  it('keeps state to within its wire precision', () => {
+    const entity = createEntity(1, 123.456);
+    const restored = dequantizeEntity(quantizeEntity(entity));
+
+    expect(restored.position.x).toBeCloseTo(entity.position.x, 1);
+    expect(restored.position.z).toBeCloseTo(entity.position.z, 1);
+    expect(restored.heading).toBeCloseTo(entity.heading, 3);
+    expect(restored.turretRotation).toBeCloseTo(entity.turretRotation, 3);
+    expect(restored.velocity.z).toBeCloseTo(entity.velocity.z, 2);
+    expect(restored.health).toBe(entity.health);
+  });
+});
+
+describe('encodeSnapshot', () => {
+  it('round trips a full snapshot', () => {
+    const snapshot = createSnapshot(1, [createEntity(1, 10), createEntity(2, -10)]);
+    const buffer = encodeSnapshot(snapshot, null);
+
+    expect(getSnapshotBaseline(buffer)).toBe(NO_BASELINE);
+    expect(decodeSnapshot(buffer, () => undefined)).toEqual(snapshot);
+  });
+
+  it('round trips a delta against its baseline', () => {
+    const baseline = createSnapshot(1, [createEntity(1, 10), createEntity(2, -10), createEntity(3, 0)]);
+    const moved = { ...createEntity(2, -5), health: 40 };
+    const snapshot = createSnapshot(2, [createEntity(1, 10), moved, createEntity(4, 30)]);
+
+    const full = encodeSnapshot(snapshot, null);
+    const delta = encodeSnapshot(snapshot, baseline);
+    expect(delta.byteLength).toBeLessThan(full.byteLength);
+    expect(getSnapshotBaseline(delta)).toBe(1);
+
+    const decoded = decodeSnapshot(delta, sequence => (sequence === 1 ? baseline : undefined));
+    expect(decoded).toEqual(snapshot);
+    expect(decoded.entities.has(3)).toBe(false);
+
+    // The baseline is left as it was, for later deltas against it
+    expect(baseline.entities.get(2)).toEqual(quantizeEntity(createEntity(2, -10)));
+  });
+
+  it('sends only the header when nothing changed', () => {
+    const baseline = createSnapshot(1, [createEntity(1, 10)]);
+    const delta = encodeSnapshot(createSnapshot(2, [createEntity(1, 10)]), baseline);
+    expect(decodeSnapshot(delta, () => baseline).entities).toEqual(baseline.entities);
+    expect(delta.byteLength).toBe(encodeSnapshot(createSnapshot(2, []), null).byteLength);
+  });
+
+  it('fails to decode without its baseline', () => {
+    const baseline = createSnapshot(1, [createEntity(1, 10)]);
+    const delta = encodeSnapshot(createSnapshot(2, [createEntity(1, 12)]), baseline);
+
+    expect(() => decodeSnapshot(delta, () => undefined)).toThrow('Missing baseline');
+  });
+
+  it('fails to decode a truncated buffer', () => {
+    const buffer = encodeSnapshot(createSnapshot(1, [createEntity(1, 10)]), null);
+
+    expect(() => decodeSnapshot(buffer.slice(0, buffer.byteLength - 1), () => undefined)).toThrow('truncated');
+  });
+});
@@ -0,0 +1,299 @@
+import { Vector3Data } from './protocol';
+import { TICK_RATE } from './SimulationClock';
+
+/**
+ * Binary, delta-compressed world snapshots.
+ *
+ * The server samples every tank at a fixed rate, quantizes the state and encodes
+ * only the fields that changed since the last snapshot the client acknowledged.
+ *
+ * Layout (little endian):
+ *   header: u32 sequence, u32 baseSequence (NO_BASELINE for a full snapshot),
+ *           f64 timestamp, i32 lastProcessedInput, u16 entity count, u16 removed count
+ *   entity: u16 netId, u8 field mask, then the fields present in the mask
+ *   removed: u16 netId per entity dropped since the baseline
+ */
+
+export const SNAPSHOT_RATE = TICK_RATE; // Snapshots per second, one every tick
+export const NO_BASELINE = 0xffffffff;
+
+// Quantization
+const POSITION_SCALE = 32; // 1/32 unit precision, +-1024 units in an int16
+const VELOCITY_SCALE = 100; // 1/100 unit/s precision, +-327 units/s in an int16
+const ANGLE_STEPS = 65536; // Full turn in a uint16
+
+// Field mask bits
+const FIELD_POSITION = 1 << 0;
+const FIELD_HEADING = 1 << 1;
+const FIELD_TURRET = 1 << 2;
+const FIELD_VELOCITY = 1 << 3;
+const FIELD_HEALTH = 1 << 4;
+
+const HEADER_SIZE = 4 + 4 + 8 + 4 + 2 + 2;
+
+export interface SnapshotEntity {
+  netId: number;
+  position: Vector3Data;
+  heading: number;
+  turretRotation: number;
+  velocity: Vector3Data;
+  health: number;
+}
+
+/**
+ * Entity state as it travels on the wire; deltas are computed on these integers
+ * so both sides agree exactly on what changed.
+ */
+export interface QuantizedEntity {
+  netId: number;
+  px: number;
+  py: number;
+  pz: number;
+  heading: number;
+  turret: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  health: number;
+}
+
+export interface QuantizedSnapshot {
+  sequence: number;
+  timestamp: number;
+  lastProcessedInput: number;
+  entities: Map<number, QuantizedEntity>;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function quantizeInt16(value: number, scale: number): number {
+  return clamp(Math.round(value * scale), -32768, 32767);
+}
+
+function quantizeAngle(angle: number): number {
+  const turn = angle / (Math.PI * 2);
+  return Math.round((turn - Math.floor(turn)) * ANGLE_STEPS) % ANGLE_STEPS;
+}
+
+function dequantizeAngle(value: number): number {
+  const angle = (value / ANGLE_STEPS) * Math.PI * 2;
+  return angle > Math.PI ? angle - Math.PI * 2 : angle;
+}
+
+export function quantizeEntity(entity: SnapshotEntity): QuantizedEntity {
+  return {
+    netId: entity.netId,
+    px: quantizeInt16(entity.position.x, POSITION_SCALE),
+    py: quantizeInt16(entity.position.y, POSITION_SCALE),
+    pz: quantizeInt16(entity.position.z, POSITION_SCALE),
+    heading: quantizeAngle(entity.heading),
+    turret: quantizeAngle(entity.turretRotation),
+    vx: quantizeInt16(entity.velocity.x, VELOCITY_SCALE),
+    vy: quantizeInt16(entity.velocity.y, VELOCITY_SCALE),
+    vz: quantizeInt16(entity.velocity.z, VELOCITY_SCALE),
+    health: clamp(Math.round(entity.health), 0, 255)
+  };
+}
+
+export function dequantizeEntity(entity: QuantizedEntity): SnapshotEntity {
+  return {
+    netId: entity.netId,
+    position: {
+      x: entity.px / POSITION_SCALE,
+      y: entity.py / POSITION_SCALE,
+      z: entity.pz / POSITION_SCALE
+    },
+    heading: dequantizeAngle(entity.heading),
+    turretRotation: dequantizeAngle(entity.turret),
+    velocity: {
+      x: entity.vx / VELOCITY_SCALE,
+      y: entity.vy / VELOCITY_SCALE,
+      z: entity.vz / VELOCITY_SCALE
+    },
+    health: entity.health
+  };
+}
+
+function getChangedFields(entity: QuantizedEntity, base: QuantizedEntity | undefined): number {
+  if (!base) {
+    return FIELD_POSITION | FIELD_HEADING | FIELD_TURRET | FIELD_VELOCITY | FIELD_HEALTH;
+  }
+
+  let mask = 0;
+  if (entity.px !== base.px || entity.py !== base.py || entity.pz !== base.pz) mask |= FIELD_POSITION;
+  if (entity.heading !== base.heading) mask |= FIELD_HEADING;
+  if (entity.turret !== base.turret) mask |= FIELD_TURRET;
+  if (entity.vx !== base.vx || entity.vy !== base.vy || entity.vz !== base.vz) mask |= FIELD_VELOCITY;
+  if (entity.health !== base.health) mask |= FIELD_HEALTH;
+  return mask;
+}
+
+function getFieldsSize(mask: number): number {
+  let size = 2 + 1;
+  if (mask & FIELD_POSITION) size += 6;
+  if (mask & FIELD_HEADING) size += 2;
+  if (mask & FIELD_TURRET) size += 2;
+  if (mask & FIELD_VELOCITY) size += 6;
+  if (mask & FIELD_HEALTH) size += 1;
+  return size;
+}
+
+/**
+ * Encode a snapshot, as a delta against the baseline when one is given
+ */
+export function encodeSnapshot(snapshot: QuantizedSnapshot, baseline: QuantizedSnapshot | null): ArrayBuffer {
+  const changed: Array<{ entity: QuantizedEntity; mask: number }> = [];
+  const removed: number[] = [];
+  let size = HEADER_SIZE;
+
+  snapshot.entities.forEach(entity => {
+    const mask = getChangedFields(entity, baseline?.entities.get(entity.netId));
+    if (mask === 0) return;
+
+    changed.push({ entity, mask });
+    size += getFieldsSize(mask);
+  });
+
+  baseline?.entities.forEach((_, netId) => {
+    if (!snapshot.entities.has(netId)) {
+      removed.push(netId);
+      size += 2;
+    }
+  });
+
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  view.setUint32(offset, snapshot.sequence, true); offset += 4;
+  view.setUint32(offset, baseline ? baseline.sequence : NO_BASELINE, true); offset += 4;
+  view.setFloat64(offset, snapshot.timestamp, true); offset += 8;
+  view.setInt32(offset, snapshot.lastProcessedInput, true); offset += 4;
+  view.setUint16(offset, changed.length, true); offset += 2;
+  view.setUint16(offset, removed.length, true); offset += 2;
+
+  changed.forEach(({ entity, mask }) => {
+    view.setUint16(offset, entity.netId, true); offset += 2;
+    view.setUint8(offset, mask); offset += 1;
+
+    if (mask & FIELD_POSITION) {
+      view.setInt16(offset, entity.px, true); offset += 2;
+      view.setInt16(offset, entity.py, true); offset += 2;
+      view.setInt16(offset, entity.pz, true); offset += 2;
+    }
+    if (mask & FIELD_HEADING) {
+      view.setUint16(offset, entity.heading, true); offset += 2;
+    }
+    if (mask & FIELD_TURRET) {
+      view.setUint16(offset, entity.turret, true); offset += 2;
+    }
+    if (mask & FIELD_VELOCITY) {
+      view.setInt16(offset, entity.vx, true); offset += 2;
+      view.setInt16(offset, entity.vy, true); offset += 2;
+      view.setInt16(offset, entity.vz, true); offset += 2;
+    }
+    if (mask & FIELD_HEALTH) {
+      view.setUint8(offset, entity.health); offset += 1;
+    }
+  });
+
+  removed.forEach(netId => {
+    view.setUint16(offset, netId, true); offset += 2;
+  });
+
+  return buffer;
+}
+
+/**
+ * Read the baseline sequence a snapshot was encoded against, or NO_BASELINE
+ */
+export function getSnapshotBaseline(data: ArrayBuffer | ArrayBufferView): number {
+  const view = toDataView(data);
+  return view.byteLength >= HEADER_SIZE ? view.getUint32(4, true) : NO_BASELINE;
+}
+
+/**
+ * Decode a snapshot, applying it on top of its baseline.
+ * Throws if the buffer is malformed or the baseline isn't available.
+ */
+export function decodeSnapshot(
+  data: ArrayBuffer | ArrayBufferView,
+  getBaseline: (sequence: number) => QuantizedSnapshot | undefined
+): QuantizedSnapshot {
+  const view = toDataView(data);
+  let offset = 0;
+
+  const ensure = (bytes: number) => {
+    if (offset + bytes > view.byteLength) {
+      throw new Error(`Snapshot truncated at byte ${offset}`);
+    }
+  };
+
+  ensure(HEADER_SIZE);
+  const sequence = view.getUint32(offset, true); offset += 4;
+  const baseSequence = view.getUint32(offset, true); offset += 4;
+  const timestamp = view.getFloat64(offset, true); offset += 8;
+  const lastProcessedInput = view.getInt32(offset, true); offset += 4;
+  const changedCount = view.getUint16(offset, true); offset += 2;
+  const removedCount = view.getUint16(offset, true); offset += 2;
+
+  let baseline: QuantizedSnapshot | undefined;
+  if (baseSequence !== NO_BASELINE) {
+    baseline = getBaseline(baseSequence);
+    if (!baseline) {
+      throw new Error(`Missing baseline snapshot ${baseSequence}`);
+    }
+  }
+
+  // Start from a copy of the baseline so it can still be used for later deltas
+  const entities = new Map<number, QuantizedEntity>();
+  baseline?.entities.forEach((entity, netId) => entities.set(netId, { ...entity }));
+
+  for (let i = 0; i < changedCount; i++) {
+    ensure(3);
+    const netId = view.getUint16(offset, true); offset += 2;
+    const mask = view.getUint8(offset); offset += 1;
+    ensure(getFieldsSize(mask) - 3);
+
+    const entity: QuantizedEntity = entities.get(netId) || {
+      netId, px: 0, py: 0, pz: 0, heading: 0, turret: 0, vx: 0, vy: 0, vz: 0, health: 0
+    };
+
+    if (mask & FIELD_POSITION) {
+      entity.px = view.getInt16(offset, true); offset += 2;
+      entity.py = view.getInt16(offset, true); offset += 2;
+      entity.pz = view.getInt16(offset, true); offset += 2;
+    }
+    if (mask & FIELD_HEADING) {
+      entity.heading = view.getUint16(offset, true); offset += 2;
+    }
+    if (mask & FIELD_TURRET) {
+      entity.turret = view.getUint16(offset, true); offset += 2;
+    }
+    if (mask & FIELD_VELOCITY) {
+      entity.vx = view.getInt16(offset, true); offset += 2;
+      entity.vy = view.getInt16(offset, true); offset += 2;
+      entity.vz = view.getInt16(offset, true); offset += 2;
+    }
+    if (mask & FIELD_HEALTH) {
+      entity.health = view.getUint8(offset); offset += 1;
+    }
+
+    entities.set(netId, entity);
+  }
+
+  for (let i = 0; i < removedCount; i++) {
+    ensure(2);
+    entities.delete(view.getUint16(offset, true)); offset += 2;
+  }
+
+  return { sequence, timestamp, lastProcessedInput, entities };
+}
+
+function toDataView(data: ArrayBuffer | ArrayBufferView): DataView {
+  return data instanceof ArrayBuffer
+    ? new DataView(data)
+    : new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
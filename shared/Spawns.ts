@@ -0,0 +1,25 @@
+import { Vector3Data } from './protocol';
+
+/**
+ * Where and when tanks may spawn, shared by the client, which picks spawn points,
+ * and the server, which holds clients to them.
+ */
+
+export const MAP_SIZE = 1000; // Units across the terrain, centered on the origin
+export const SPAWN_MARGIN = 50; // Tanks spawn at least this far in from the edge of the map
+
+export const RESPAWN_DELAY = 3000; // Shortest wait between dying and respawning (ms)
+
+/**
+ * The nearest point to a position that is far enough in from the edge of the map
+ * to spawn at. Height is left alone, since only clients know the terrain.
+ */
+export function clampToMap(position: Vector3Data): Vector3Data {
+  const limit = MAP_SIZE / 2 - SPAWN_MARGIN;
+
+  return {
+    x: Math.max(-limit, Math.min(limit, position.x)),
+    y: position.y,
+    z: Math.max(-limit, Math.min(limit, position.z))
+  };
+}
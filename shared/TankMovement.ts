@@ -0,0 +1,94 @@
+/**
+ * Deterministic tank movement model shared by client prediction and the server.
+ *
+ * Only the horizontal plane is simulated: height follows the terrain on each
+ * client, so the server takes it from the client's report.
+ */
+export const TANK_MOVEMENT = {
+  engineAcceleration: 5, // Engine force (10 * 1000) over tank mass (2000)
+  reverseFactor: 0.7, // Slower reverse
+  damping: 0.9, // Fraction of speed lost per second
+  turnSpeed: 2, // Radians per second
+  maxSpeed: 20
+};
+
+export type TankMovementParams = typeof TANK_MOVEMENT;
+
+export interface MovementInput {
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+}
+
+export interface TankMovementState {
+  x: number;
+  z: number;
+  heading: number;
+  speed: number;
+}
+
+/**
+ * Advance the tank's speed along its heading by one input step
+ */
+export function stepTankSpeed(
+  speed: number,
+  input: MovementInput,
+  delta: number,
+  params: TankMovementParams = TANK_MOVEMENT
+): number {
+  let acceleration = 0;
+
+  if (input.forward) {
+    acceleration += params.engineAcceleration;
+  }
+
+  if (input.backward) {
+    acceleration -= params.engineAcceleration * params.reverseFactor;
+  }
+
+  const nextSpeed = (speed + acceleration * delta) * Math.pow(1 - params.damping, delta);
+
+  return Math.max(-params.maxSpeed, Math.min(params.maxSpeed, nextSpeed));
+}
+
+/**
+ * Get the hull turn rate for an input (right wins when both are held)
+ */
+export function getTurnRate(input: MovementInput, params: TankMovementParams = TANK_MOVEMENT): number {
+  if (input.right) return -params.turnSpeed;
+  if (input.left) return params.turnSpeed;
+  return 0;
+}
+
+/**
+ * Apply one input step to a tank's horizontal state
+ */
+export function stepTankMovement(
+  state: TankMovementState,
+  input: MovementInput,
+  delta: number,
+  params: TankMovementParams = TANK_MOVEMENT
+): TankMovementState {
+  const speed = stepTankSpeed(state.speed, input, delta, params);
+  const heading = state.heading + getTurnRate(input, params) * delta;
+
+  // Positive Z is forward at heading 0
+  return {
+    x: state.x + Math.sin(heading) * speed * delta,
+    z: state.z + Math.cos(heading) * speed * delta,
+    heading,
+    speed
+  };
+}
+
+/**
+ * Smallest signed difference between two angles
+ */
+export function angleDifference(a: number, b: number): number {
+  const difference = (a - b) % (Math.PI * 2);
+
+  if (difference > Math.PI) return difference - Math.PI * 2;
+  if (difference < -Math.PI) return difference + Math.PI * 2;
+  return difference;
+}
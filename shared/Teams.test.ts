@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { SpawnArea, clampToSpawnArea, randomSpawnPoint, isTeamMode } from './Teams';
+
+const area: SpawnArea = { x: 100, z: -50, radius: 10 };
+
+describe('clampToSpawnArea', () => {
+  it('leaves points inside the area alone', () => {
+    expect(clampToSpawnArea(area, { x: 105, z: -45 })).toEqual({ x: 105, z: -45 });
+  });
+
+  it('brings points outside to the nearest edge, grown by the tolerance', () => {
+    expect(clampToSpawnArea(area, { x: 100, z: 0 })).toEqual({ x: 100, z: -40 });
+    expect(clampToSpawnArea(area, { x: 130, z: -50 }, 2)).toEqual({ x: 112, z: -50 });
+  });
+});
+
+describe('randomSpawnPoint', () => {
+  it('stays inside the area', () => {
+    for (let i = 0; i < 100; i++) {
+      const point = randomSpawnPoint(area);
+      expect(Math.hypot(point.x - area.x, point.z - area.z)).toBeLessThanOrEqual(area.radius);
+    }
+  });
+});
+
+describe('isTeamMode', () => {
+  it('only puts tanks on teams in team modes', () => {
+    expect(isTeamMode('teamDeathmatch')).toBe(true);
+    expect(isTeamMode('deathmatch')).toBe(false);
+  });
+});
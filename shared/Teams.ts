@@ -0,0 +1,63 @@
+import { GameMode } from './protocol';
+
+/**
+ * Teams in team modes, shared by the server, which assigns them, and the client,
+ * which spawns and colors tanks by them
+ */
+export interface Team {
+  id: TeamId;
+  name: string;
+  color: number; // 0xRRGGBB, for nameplates, the minimap and scores
+  spawn: SpawnArea;
+}
+
+/**
+ * Circle on the ground a team's tanks spawn in
+ */
+export interface SpawnArea {
+  x: number;
+  z: number;
+  radius: number;
+}
+
+export const TEAM_IDS = ['red', 'blue'] as const;
+export type TeamId = typeof TEAM_IDS[number];
+
+export const TEAMS: Record<TeamId, Team> = {
+  red: { id: 'red', name: 'Red', color: 0xe03c3c, spawn: { x: -200, z: 0, radius: 40 } },
+  blue: { id: 'blue', name: 'Blue', color: 0x3c7de0, spawn: { x: 200, z: 0, radius: 40 } }
+};
+
+// Modes where tanks play for a team rather than for themselves
+const TEAM_MODES: readonly GameMode[] = ['teamDeathmatch'];
+
+export function isTeamMode(mode: GameMode): boolean {
+  return TEAM_MODES.includes(mode);
+}
+
+/**
+ * A random point in a spawn area, spread evenly over it
+ */
+export function randomSpawnPoint(area: SpawnArea): { x: number; z: number } {
+  const angle = Math.random() * Math.PI * 2;
+  const distance = Math.sqrt(Math.random()) * area.radius;
+
+  return { x: area.x + Math.cos(angle) * distance, z: area.z + Math.sin(angle) * distance };
+}
+
+/**
+ * The nearest point in a spawn area to the given one, grown by the given tolerance
+ */
+export function clampToSpawnArea(
+  area: SpawnArea,
+  point: { x: number; z: number },
+  tolerance: number = 0
+): { x: number; z: number } {
+  const dx = point.x - area.x;
+  const dz = point.z - area.z;
+  const distance = Math.hypot(dx, dz);
+  const radius = area.radius + tolerance;
+  if (distance <= radius) return { x: point.x, z: point.z };
+
+  return { x: area.x + dx / distance * radius, z: area.z + dz / distance * radius };
+}
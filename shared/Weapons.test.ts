@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { SHELLS, splashDamage } from './Weapons';
+
+describe('splashDamage', () => {
+  it('falls off from full at the center to nothing at the edge', () => {
+    const he = SHELLS.he;
+
+    expect(splashDamage(he, 0)).toBe(he.damage);
+    expect(splashDamage(he, he.splashRadius / 2)).toBe(Math.round(he.damage / 2));
+    expect(splashDamage(he, he.splashRadius)).toBe(0);
+    expect(splashDamage(he, he.splashRadius * 2)).toBe(0);
+  });
+
+  it('does nothing for shells without a blast', () => {
+    expect(splashDamage(SHELLS.ap, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,100 @@
+import shellData from './shells.json';
+
+/**
+ * Weapon stats shared by the client, which fires, and the server, which checks
+ * every shot against them. What a shot does once it leaves the barrel depends
+ * on the shell loaded (see ShellDefinition).
+ */
+export interface WeaponDefinition {
+  name: string;
+  magazineSize: number; // Shots before having to reload
+  reloadTime: number; // Seconds, also the time it takes to switch shells
+  fireInterval: number; // Minimum seconds between shots
+}
+
+export const TANK_CANNON: WeaponDefinition = {
+  name: 'Cannon',
+  magazineSize: 5,
+  reloadTime: 2,
+  fireInterval: 0.25
+};
+
+/**
+ * Weapons players can pick for their loadout, by id
+ */
+export const WEAPONS = {
+  cannon: TANK_CANNON
+} satisfies Record<string, WeaponDefinition>;
+
+export type WeaponId = keyof typeof WEAPONS;
+export const WEAPON_IDS = Object.keys(WEAPONS) as WeaponId[];
+export const DEFAULT_WEAPON: WeaponId = 'cannon';
+
+/**
+ * A type of shell, as listed in shells.json
+ */
+export interface ShellDefinition {
+  name: string;
+  speed: number; // Units per second
+  damage: number;
+  gravity: number; // Units per second squared pulling the shell down
+  drag: number; // How quickly air resistance slows the shell down (per second)
+  lifetime: number; // Seconds before the shell is gone
+  splashRadius: number; // Units around the impact that also take damage, 0 for none
+  penetration: number; // Armor it can punch through (mm)
+  ammo: number; // Rounds a tank carries into battle
+}
+
+export type ShellId = keyof typeof shellData;
+
+export const SHELLS: Record<ShellId, ShellDefinition> = parseShells(shellData);
+export const SHELL_IDS = Object.keys(SHELLS) as ShellId[];
+export const DEFAULT_SHELL: ShellId = 'ap';
+
+/**
+ * Damage a shell's blast does to a tank at the given distance from it: full at
+ * the center, fading out to nothing at the edge of the splash radius
+ */
+export function splashDamage(shell: ShellDefinition, distance: number): number {
+  if (shell.splashRadius <= 0 || distance >= shell.splashRadius) return 0;
+
+  return Math.round(shell.damage * (1 - Math.max(0, distance) / shell.splashRadius));
+}
+
+/**
+ * Rounds of each shell a tank has left
+ */
+export type ShellLoadout = Record<ShellId, number>;
+
+/**
+ * What a tank spawns with: every shell's full allowance
+ */
+export function createLoadout(): ShellLoadout {
+  return Object.fromEntries(SHELL_IDS.map(id => [id, SHELLS[id].ammo])) as ShellLoadout;
+}
+
+/**
+ * Check the shell table, so a bad edit fails loudly at startup rather than mid-match
+ */
+function parseShells(data: Record<string, unknown>): Record<ShellId, ShellDefinition> {
+  const numbers: (keyof ShellDefinition)[] = [
+    'speed', 'damage', 'gravity', 'drag', 'lifetime', 'splashRadius', 'penetration', 'ammo'
+  ];
+
+  Object.entries(data).forEach(([id, shell]) => {
+    const record = shell as Record<string, unknown>;
+
+    if (typeof record?.name !== 'string') {
+      throw new Error(`Shell '${id}' needs a name`);
+    }
+
+    numbers.forEach(key => {
+      const value = record[key];
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new Error(`Shell '${id}' needs a ${key} of zero or more`);
+      }
+    });
+  });
+
+  return data as Record<ShellId, ShellDefinition>;
+}
@@ -0,0 +1,510 @@
+/**
+ * Network protocol shared by the game client and server.
+ *
+ * Bump PROTOCOL_VERSION whenever a message shape changes so mismatched
+ * clients are turned away during the handshake instead of desyncing.
+ */
+import { WeaponId, ShellId } from './Weapons';
+import { TeamId } from './Teams';
+import { ArmorZone, HitResult } from './Armor';
+import { TankModule } from './Modules';
+
+export const PROTOCOL_VERSION = 20;
+
+export interface Vector3Data {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Handshake
+export interface HelloMessage {
+  protocolVersion: number;
+  resumeToken?: string; // Session token from a previous welcome, to pick up where we left off
+  profileToken?: string; // Token from a previous login, to play as that profile
+}
+
+export interface WelcomeMessage {
+  protocolVersion: number;
+  clientId: string;
+  sessionToken: string;
+  resumed: boolean; // Whether the session from resumeToken was restored
+  profile?: PlayerProfile; // Present when profileToken was recognized
+}
+
+// Heartbeat (the server echoes pings back as pongs, adding its clock for time sync)
+export interface PingMessage {
+  id: number;
+  sentAt: number; // Client time (ms)
+}
+
+export interface PongMessage extends PingMessage {
+  serverTime: number; // Server time the ping was answered at (ms)
+  tickTime: number; // How long the server has been taking to run a tick, on average (ms)
+}
+
+export interface RejectedMessage {
+  reason: string;
+}
+
+/**
+ * Sent right before the server disconnects a client for breaking the rules
+ */
+export interface KickedMessage {
+  reason: string;
+}
+
+// Profiles (the token is the only credential, there are no passwords)
+export const DEFAULT_TANK_COLOR = 0x3366ff;
+
+export interface ProfileStats extends LeaderboardStats {
+  shotsFired: number;
+  hits: number;
+  matchesPlayed: number;
+}
+
+export interface PlayerProfile {
+  id: string;
+  username: string;
+  color: number; // Tank color as 0xRRGGBB
+  loadout: WeaponId;
+  stats: ProfileStats;
+}
+
+export interface LoginRequest {
+  username: string; // Creates a new profile under this name
+}
+
+export interface UpdateProfileRequest {
+  username?: string;
+  color?: number;
+  loadout?: WeaponId;
+}
+
+export interface ProfileMessage {
+  profile: PlayerProfile;
+  token?: string; // Only sent on login; keep it to log back in later
+}
+
+// Lobby
+export const GAME_MODES = ['deathmatch', 'teamDeathmatch'] as const;
+export type GameMode = typeof GAME_MODES[number];
+
+export const MIN_ROOM_SIZE = 2;
+export const MAX_ROOM_SIZE = 16;
+
+// Spectators don't count towards a room's player limit, but have one of their own
+export const MAX_SPECTATORS = 8;
+
+export type RoomStatus = 'waiting' | 'countdown' | 'playing';
+
+export interface RoomSettings {
+  id: string;
+  name: string;
+  maxPlayers: number;
+  mode: GameMode;
+  friendlyFire: boolean; // Whether teammates can hurt each other
+}
+
+export interface RoomMember {
+  id: string;
+  username: string;
+  ready: boolean;
+  spectator: boolean; // Watching rather than playing
+  team: TeamId | null; // Assigned by the server in team modes
+}
+
+export interface TeamScore {
+  team: TeamId;
+  kills: number;
+}
+
+export interface RoomInfo extends RoomSettings {
+  status: RoomStatus;
+  countdown: number; // Seconds until the match starts while counting down
+  members: RoomMember[];
+  teamScores: TeamScore[]; // This match's, empty in modes without teams
+}
+
+export interface RoomListMessage {
+  rooms: RoomInfo[];
+}
+
+export interface RoomJoinedMessage {
+  room: RoomInfo;
+  netId: number; // Compact ID identifying our tank in snapshots
+}
+
+export interface LobbyErrorMessage {
+  reason: string;
+}
+
+export interface MatchStartedMessage {
+  room: RoomSettings;
+  startedAt: number; // Server time (ms)
+}
+
+// A deathmatch ends as soon as someone gets this many kills
+export const KILL_LIMIT = 10;
+
+// A team deathmatch ends once a team gets this many kills between them
+export const TEAM_KILL_LIMIT = 25;
+
+export interface MatchScore {
+  id: string;
+  username: string;
+  team: TeamId | null;
+  kills: number;
+  deaths: number;
+}
+
+/**
+ * Sent to the room's members when the match is over. Everyone goes back to the
+ * room and readies up again for the next one.
+ */
+export interface MatchEndedMessage {
+  winnerId: string; // The best player on the winning team, in team modes
+  winningTeam?: TeamId;
+  scores: MatchScore[]; // Best first
+}
+
+// Leaderboard
+export const LEADERBOARD_PERIODS = ['allTime', 'weekly'] as const;
+export type LeaderboardPeriod = typeof LEADERBOARD_PERIODS[number];
+
+export const LEADERBOARD_SORT_KEYS = ['wins', 'kills', 'deaths', 'damageDealt'] as const;
+export type LeaderboardSortKey = typeof LEADERBOARD_SORT_KEYS[number];
+
+export const MAX_LEADERBOARD_PAGE = 50;
+
+/**
+ * The stats players are ranked by, kept per profile for all time and per mode and week
+ */
+export interface LeaderboardStats {
+  kills: number;
+  deaths: number;
+  damageDealt: number;
+  wins: number;
+}
+
+export interface LeaderboardRequest {
+  period: LeaderboardPeriod; // Weeks start on Monday, UTC
+  mode?: GameMode; // Every mode when left out
+  sortBy: LeaderboardSortKey; // Highest first
+  offset: number;
+  limit: number;
+}
+
+export interface LeaderboardEntry extends LeaderboardStats {
+  rank: number;
+  profileId: string;
+  username: string;
+}
+
+export interface LeaderboardMessage extends LeaderboardRequest {
+  total: number; // Ranked profiles across every page
+  entries: LeaderboardEntry[];
+}
+
+// Gameplay
+
+/**
+ * A player spawned in the room. Their tank only appears once it comes within
+ * range (see EntityEnteredMessage).
+ */
+export interface PlayerJoinedMessage {
+  id: string;
+  netId: number;
+  username: string;
+  position: Vector3Data;
+  rotation: Vector3Data;
+  health: number;
+  color: number;
+  team: TeamId | null;
+}
+
+export interface PlayerLeftMessage {
+  id: string;
+}
+
+/**
+ * Everyone else spawned in the room, sent when the client spawns or resumes its
+ * session. Tanks in range follow as EntityEnteredMessages.
+ */
+export interface PlayerListMessage {
+  players: PlayerJoinedMessage[];
+}
+
+/**
+ * A tank came within the client's area of interest and will be in snapshots
+ * from now on
+ */
+export type EntityEnteredMessage = PlayerJoinedMessage;
+
+/**
+ * A tank left the client's area of interest and won't be in snapshots anymore
+ */
+export interface EntityLeftMessage {
+  id: string;
+}
+
+/**
+ * State of a remote tank, decoded from a snapshot
+ */
+export interface PlayerUpdateMessage {
+  id: string;
+  timestamp: number; // Server time (ms) the state was sampled at
+  position: Vector3Data;
+  rotation: Vector3Data;
+  turretRotation: number;
+  health: number;
+  velocity: Vector3Data;
+}
+
+/**
+ * Authoritative state of the receiving client's own tank, decoded from a snapshot
+ * or sent when its session is resumed
+ */
+export interface PlayerStateMessage {
+  position: Vector3Data;
+  heading: number;
+  speed: number;
+  lastProcessedInput: number;
+  health: number;
+  dead: boolean;
+}
+
+export interface PlayerRespawnedMessage {
+  id: string;
+  position: Vector3Data;
+  rotation: Vector3Data;
+}
+
+export interface ProjectileFiredMessage {
+  id: string;
+  shell: ShellId;
+  position: Vector3Data;
+  direction: Vector3Data;
+  speed: number;
+  damage: number;
+  ownerId: string;
+  firedAt: number; // Server time (ms)
+}
+
+export interface PlayerHitMessage {
+  playerId: string;
+  damage: number;
+  killerId?: string;
+  module?: TankModule; // Module the hit got through to, which takes the same damage
+}
+
+/**
+ * What a shell did to the tank it struck, told to the shooter only
+ */
+export interface ShotResultMessage {
+  projectileId: string;
+  targetId: string;
+  zone: ArmorZone;
+  result: HitResult;
+  damage: number;
+}
+
+/**
+ * A player drove into a pickup and got what it does; it's back at respawnAt
+ */
+export interface PickupTakenMessage {
+  pickupId: string;
+  playerId: string;
+  respawnAt: number; // Server time (ms)
+}
+
+/**
+ * Pickups that are taken and when each is back, sent when the client spawns or
+ * resumes its session. The rest are waiting to be picked up.
+ */
+export interface PickupListMessage {
+  taken: Omit<PickupTakenMessage, 'playerId'>[];
+}
+
+// Chat
+export const CHAT_CHANNELS = ['all', 'team', 'whisper', 'system'] as const;
+export type ChatChannel = typeof CHAT_CHANNELS[number];
+
+export interface ChatMessage {
+  id?: string; // Sender's client ID, left out for system messages
+  username: string;
+  message: string;
+  timestamp: number;
+  channel: ChatChannel;
+  to?: string; // Recipient's name, for whispers
+}
+
+/**
+ * Recent messages of a room, sent to new members so they know what's being talked about
+ */
+export interface ChatHistoryMessage {
+  messages: ChatMessage[];
+}
+
+/**
+ * One frame of local input, along with the state the client predicted from it
+ */
+export interface PlayerInputMessage {
+  sequence: number;
+  delta: number;
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  turretRotation: number;
+  reload: boolean;
+  repair: boolean;
+  shell: ShellId; // Selected shell; switching to another one reloads
+  position: Vector3Data;
+  heading: number;
+}
+
+/**
+ * Tells the server which snapshot the next delta may be encoded against
+ * (a negative sequence asks for a full snapshot)
+ */
+export interface SnapshotAckMessage {
+  sequence: number;
+}
+
+/**
+ * A shooter's claim that its projectile hit a tank; the server validates it
+ * against where the target was when the shooter saw it, then broadcasts playerHit
+ */
+export interface ProjectileHitRequest {
+  projectileId: string;
+  targetId: string;
+  position: Vector3Data; // Impact point
+  viewTime: number; // Server time (ms) of the target state the shooter was seeing
+}
+
+/**
+ * A shooter's report that its splash shell went off against the ground or an
+ * obstacle. Only the shooter's client knows its world objects, so it names the
+ * tanks the blast could reach; the server checks they were in range and works
+ * out the damage, then broadcasts playerHit for each.
+ */
+export interface ProjectileExplodedRequest {
+  projectileId: string;
+  position: Vector3Data; // Where the shell went off
+  viewTime: number; // Server time (ms) of the tank states the shooter was seeing
+  targetIds: string[]; // Tanks in the blast radius with nothing in between
+}
+
+/**
+ * A client's claim that its tank drove into a pickup; the server checks the
+ * pickup is there and the tank close enough, then broadcasts pickupTaken
+ */
+export interface PickupCollectRequest {
+  pickupId: string;
+}
+
+// Client requests (IDs and timestamps are assigned by the server)
+export interface CreateRoomRequest {
+  name: string;
+  username: string;
+  maxPlayers: number;
+  mode: GameMode;
+  friendlyFire: boolean;
+}
+
+export interface JoinRoomRequest {
+  roomId: string;
+  username: string;
+  spectate?: boolean; // Join to watch, without a tank
+}
+
+export interface SetReadyRequest {
+  ready: boolean;
+}
+
+// Health, teams and weapon stats come from the server, not the client
+export type PlayerJoinRequest = Omit<PlayerJoinedMessage, 'id' | 'netId' | 'health' | 'team'>;
+export type PlayerRespawnRequest = Omit<PlayerRespawnedMessage, 'id'>;
+export type ProjectileFiredRequest = Omit<ProjectileFiredMessage, 'ownerId' | 'speed' | 'damage' | 'firedAt'>;
+
+/**
+ * Plain text goes to everyone in the room; the server also understands slash
+ * commands such as /team, /w and /mute (see /help)
+ */
+export interface ChatMessageRequest {
+  message: string;
+}
+
+/**
+ * Messages sent from the server to clients, keyed by event name
+ */
+export interface ServerMessages {
+  welcome: WelcomeMessage;
+  rejected: RejectedMessage;
+  kicked: KickedMessage;
+  pong: PongMessage;
+  roomList: RoomListMessage;
+  roomJoined: RoomJoinedMessage;
+  roomUpdated: RoomInfo;
+  lobbyError: LobbyErrorMessage;
+  matchStarted: MatchStartedMessage;
+  playerJoined: PlayerJoinedMessage;
+  playerLeft: PlayerLeftMessage;
+  playerList: PlayerListMessage;
+  entityEntered: EntityEnteredMessage;
+  entityLeft: EntityLeftMessage;
+  snapshot: ArrayBuffer; // Binary, see SnapshotCodec
+  playerState: PlayerStateMessage;
+  playerRespawned: PlayerRespawnedMessage;
+  projectileFired: ProjectileFiredMessage;
+  playerHit: PlayerHitMessage;
+  shotResult: ShotResultMessage;
+  pickupTaken: PickupTakenMessage;
+  pickupList: PickupListMessage;
+  chatMessage: ChatMessage;
+  chatHistory: ChatHistoryMessage;
+  profile: ProfileMessage;
+  matchEnded: MatchEndedMessage;
+  leaderboard: LeaderboardMessage;
+}
+
+/**
+ * Messages sent from clients to the server, keyed by event name
+ */
+export interface ClientMessages {
+  hello: HelloMessage;
+  ping: PingMessage;
+  listRooms: Record<string, never>;
+  createRoom: CreateRoomRequest;
+  joinRoom: JoinRoomRequest;
+  leaveRoom: Record<string, never>;
+  setReady: SetReadyRequest;
+  playerJoined: PlayerJoinRequest;
+  spectatorJoined: Record<string, never>;
+  playerInput: PlayerInputMessage;
+  snapshotAck: SnapshotAckMessage;
+  playerRespawned: PlayerRespawnRequest;
+  projectileFired: ProjectileFiredRequest;
+  projectileHit: ProjectileHitRequest;
+  projectileExploded: ProjectileExplodedRequest;
+  pickupCollected: PickupCollectRequest;
+  chatMessage: ChatMessageRequest;
+  login: LoginRequest;
+  logout: Record<string, never>;
+  updateProfile: UpdateProfileRequest;
+  getLeaderboard: LeaderboardRequest;
+}
+
+export type ServerMessageType = keyof ServerMessages;
+export type ClientMessageType = keyof ClientMessages;
+
+// Socket.IO event maps derived from the message tables. Every message is sent along
+// with the sender's simulation tick (see SimulationClock).
+export type ServerToClientEvents = {
+  [K in ServerMessageType]: (data: ServerMessages[K], tick: number) => void;
+};
+
+export type ClientToServerEvents = {
+  [K in ClientMessageType]: (data: ClientMessages[K], tick: number) => void;
+};
@@ -0,0 +1,374 @@
+import {
+  GAME_MODES,
+  CHAT_CHANNELS,
+  LEADERBOARD_PERIODS,
+  LEADERBOARD_SORT_KEYS,
+  MAX_LEADERBOARD_PAGE,
+  MIN_ROOM_SIZE,
+  MAX_ROOM_SIZE,
+  ClientMessages,
+  ClientMessageType,
+  ServerMessages,
+  ServerMessageType
+} from './protocol';
+import { WEAPON_IDS, SHELL_IDS } from './Weapons';
+import { TEAM_IDS } from './Teams';
+import { ARMOR_ZONES, HIT_RESULTS } from './Armor';
+import { TANK_MODULES } from './Modules';
+import { ReplayHeader } from './ReplayFormat';
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: string };
+
+/**
+ * A check returns a reason string when the value is invalid, or null when it passes
+ */
+type Check = (value: unknown, path: string) => string | null;
+
+const MAX_ID_LENGTH = 64;
+const MAX_USERNAME_LENGTH = 32;
+const MAX_CHAT_LENGTH = 200;
+const MAX_ROOM_NAME_LENGTH = 32;
+
+// Primitive checks
+const finiteNumber: Check = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? null : `${path} must be a finite number`;
+
+const boolean: Check = (value, path) =>
+  typeof value === 'boolean' ? null : `${path} must be a boolean`;
+
+const integer: Check = (value, path) =>
+  typeof value === 'number' && Number.isInteger(value) ? null : `${path} must be an integer`;
+
+const binary: Check = (value, path) =>
+  value instanceof ArrayBuffer || ArrayBuffer.isView(value) ? null : `${path || 'payload'} must be binary`;
+
+function integerInRange(min: number, max: number): Check {
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isInteger(value)) return `${path} must be an integer`;
+    if (value < min || value > max) return `${path} must be between ${min} and ${max}`;
+    return null;
+  };
+}
+
+function oneOf(values: readonly string[]): Check {
+  return (value, path) =>
+    typeof value === 'string' && values.includes(value) ? null : `${path} must be one of ${values.join(', ')}`;
+}
+
+function array(item: Check, maxLength: number = Infinity): Check {
+  return (value, path) => {
+    if (!Array.isArray(value)) return `${path} must be an array`;
+    if (value.length > maxLength) return `${path} must have at most ${maxLength} items`;
+
+    for (let i = 0; i < value.length; i++) {
+      const reason = item(value[i], `${path}[${i}]`);
+      if (reason) return reason;
+    }
+
+    return null;
+  };
+}
+
+function string(maxLength: number, allowEmpty: boolean = false): Check {
+  return (value, path) => {
+    if (typeof value !== 'string') return `${path} must be a string`;
+    if (!allowEmpty && value.length === 0) return `${path} must not be empty`;
+    if (value.length > maxLength) return `${path} must be at most ${maxLength} characters`;
+    return null;
+  };
+}
+
+function optional(check: Check): Check {
+  return (value, path) => (value === undefined ? null : check(value, path));
+}
+
+function nullable(check: Check): Check {
+  return (value, path) => (value === null ? null : check(value, path));
+}
+
+function object(shape: Record<string, Check>): Check {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return `${path || 'payload'} must be an object`;
+    }
+
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(shape)) {
+      const reason = shape[key](record[key], path ? `${path}.${key}` : key);
+      if (reason) return reason;
+    }
+
+    return null;
+  };
+}
+
+// Composite checks
+const id = string(MAX_ID_LENGTH);
+const vector3 = object({ x: finiteNumber, y: finiteNumber, z: finiteNumber });
+
+const tankColor = integerInRange(0, 0xffffff);
+const username = string(MAX_USERNAME_LENGTH);
+const team = oneOf(TEAM_IDS);
+const shell = oneOf(SHELL_IDS);
+
+const playerProfile = object({
+  id,
+  username,
+  color: tankColor,
+  loadout: oneOf(WEAPON_IDS),
+  stats: object({
+    kills: integer,
+    deaths: integer,
+    shotsFired: integer,
+    hits: integer,
+    damageDealt: finiteNumber,
+    wins: integer,
+    matchesPlayed: integer
+  })
+});
+
+const chatMessage = object({
+  id: optional(id),
+  username,
+  message: string(MAX_CHAT_LENGTH),
+  timestamp: finiteNumber,
+  channel: oneOf(CHAT_CHANNELS),
+  to: optional(username)
+});
+
+const leaderboardRequestShape = {
+  period: oneOf(LEADERBOARD_PERIODS),
+  mode: optional(oneOf(GAME_MODES)),
+  sortBy: oneOf(LEADERBOARD_SORT_KEYS),
+  offset: integerInRange(0, Number.MAX_SAFE_INTEGER),
+  limit: integerInRange(1, MAX_LEADERBOARD_PAGE)
+};
+
+const roomSettingsShape = {
+  id,
+  name: string(MAX_ROOM_NAME_LENGTH),
+  maxPlayers: integerInRange(MIN_ROOM_SIZE, MAX_ROOM_SIZE),
+  mode: oneOf(GAME_MODES),
+  friendlyFire: boolean
+};
+
+const roomInfo = object({
+  ...roomSettingsShape,
+  status: oneOf(['waiting', 'countdown', 'playing']),
+  countdown: finiteNumber,
+  members: array(object({
+    id,
+    username: string(MAX_USERNAME_LENGTH),
+    ready: boolean,
+    spectator: boolean,
+    team: nullable(team)
+  })),
+  teamScores: array(object({ team, kills: integer }))
+});
+
+const playerJoinShape = {
+  username: string(MAX_USERNAME_LENGTH),
+  position: vector3,
+  rotation: vector3,
+  color: tankColor
+};
+
+const pingShape = {
+  id: integer,
+  sentAt: finiteNumber
+};
+
+const playerInputShape = {
+  sequence: integer,
+  delta: finiteNumber,
+  forward: boolean,
+  backward: boolean,
+  left: boolean,
+  right: boolean,
+  turretRotation: finiteNumber,
+  reload: boolean,
+  repair: boolean,
+  shell,
+  position: vector3,
+  heading: finiteNumber
+};
+
+const playerRespawnShape = {
+  position: vector3,
+  rotation: vector3
+};
+
+const projectileFiredShape = {
+  id,
+  shell,
+  position: vector3,
+  direction: vector3
+};
+
+const joinedPlayer = object({ id, netId: integer, ...playerJoinShape, health: finiteNumber, team: nullable(team) });
+
+const SERVER_MESSAGE_CHECKS: Record<ServerMessageType, Check> = {
+  welcome: object({
+    protocolVersion: integer,
+    clientId: id,
+    sessionToken: id,
+    resumed: boolean,
+    profile: optional(playerProfile)
+  }),
+  rejected: object({ reason: string(200) }),
+  kicked: object({ reason: string(200) }),
+  pong: object({ ...pingShape, serverTime: finiteNumber, tickTime: finiteNumber }),
+  roomList: object({ rooms: array(roomInfo) }),
+  roomJoined: object({ room: roomInfo, netId: integer }),
+  roomUpdated: roomInfo,
+  lobbyError: object({ reason: string(200) }),
+  matchStarted: object({ room: object(roomSettingsShape), startedAt: finiteNumber }),
+  playerJoined: joinedPlayer,
+  playerLeft: object({ id }),
+  playerList: object({ players: array(joinedPlayer) }),
+  entityEntered: joinedPlayer,
+  entityLeft: object({ id }),
+  snapshot: binary,
+  playerState: object({
+    position: vector3,
+    heading: finiteNumber,
+    speed: finiteNumber,
+    lastProcessedInput: integer,
+    health: finiteNumber,
+    dead: boolean
+  }),
+  playerRespawned: object({ id, ...playerRespawnShape }),
+  projectileFired: object({
+    ...projectileFiredShape,
+    speed: finiteNumber,
+    damage: finiteNumber,
+    ownerId: id,
+    firedAt: finiteNumber
+  }),
+  playerHit: object({
+    playerId: id,
+    damage: finiteNumber,
+    killerId: optional(id),
+    module: optional(oneOf(TANK_MODULES))
+  }),
+  shotResult: object({
+    projectileId: id,
+    targetId: id,
+    zone: oneOf(ARMOR_ZONES),
+    result: oneOf(HIT_RESULTS),
+    damage: finiteNumber
+  }),
+  pickupTaken: object({ pickupId: id, playerId: id, respawnAt: finiteNumber }),
+  pickupList: object({ taken: array(object({ pickupId: id, respawnAt: finiteNumber })) }),
+  chatMessage: chatMessage,
+  chatHistory: object({ messages: array(chatMessage) }),
+  profile: object({ profile: playerProfile, token: optional(id) }),
+  matchEnded: object({
+    winnerId: id,
+    winningTeam: optional(team),
+    scores: array(object({ id, username, team: nullable(team), kills: integer, deaths: integer }))
+  }),
+  leaderboard: object({
+    ...leaderboardRequestShape,
+    total: integer,
+    entries: array(object({
+      rank: integer,
+      profileId: id,
+      username,
+      kills: integer,
+      deaths: integer,
+      damageDealt: finiteNumber,
+      wins: integer
+    }))
+  })
+};
+
+const CLIENT_MESSAGE_CHECKS: Record<ClientMessageType, Check> = {
+  hello: object({ protocolVersion: integer, resumeToken: optional(id), profileToken: optional(id) }),
+  ping: object(pingShape),
+  listRooms: object({}),
+  createRoom: object({
+    name: string(MAX_ROOM_NAME_LENGTH),
+    username: string(MAX_USERNAME_LENGTH),
+    maxPlayers: integerInRange(MIN_ROOM_SIZE, MAX_ROOM_SIZE),
+    mode: oneOf(GAME_MODES),
+    friendlyFire: boolean
+  }),
+  joinRoom: object({ roomId: id, username: string(MAX_USERNAME_LENGTH), spectate: optional(boolean) }),
+  leaveRoom: object({}),
+  setReady: object({ ready: boolean }),
+  playerJoined: object(playerJoinShape),
+  spectatorJoined: object({}),
+  playerInput: object(playerInputShape),
+  snapshotAck: object({ sequence: integer }),
+  playerRespawned: object(playerRespawnShape),
+  projectileFired: object(projectileFiredShape),
+  projectileHit: object({ projectileId: id, targetId: id, position: vector3, viewTime: finiteNumber }),
+  projectileExploded: object({
+    projectileId: id,
+    position: vector3,
+    viewTime: finiteNumber,
+    targetIds: array(id, MAX_ROOM_SIZE)
+  }),
+  pickupCollected: object({ pickupId: id }),
+  chatMessage: object({ message: string(MAX_CHAT_LENGTH) }),
+  login: object({ username }),
+  logout: object({}),
+  updateProfile: object({ username: optional(username), color: optional(tankColor), loadout: optional(oneOf(WEAPON_IDS)) }),
+  getLeaderboard: object(leaderboardRequestShape)
+};
+
+function runCheck<T>(checks: Record<string, Check>, type: string, data: unknown): ValidationResult<T> {
+  const check = checks[type];
+  if (!check) {
+    return { ok: false, reason: `unknown message type '${type}'` };
+  }
+
+  const reason = check(data, '');
+  return reason ? { ok: false, reason } : { ok: true, value: data as T };
+}
+
+/**
+ * Validate the simulation tick a message was sent with
+ */
+export function validateTick(tick: unknown): ValidationResult<number> {
+  const reason = integer(tick, 'tick');
+  return reason ? { ok: false, reason } : { ok: true, value: tick as number };
+}
+
+/**
+ * Validate a message received from the server before it reaches the game
+ */
+export function validateServerMessage<K extends ServerMessageType>(
+  type: K,
+  data: unknown
+): ValidationResult<ServerMessages[K]> {
+  return runCheck(SERVER_MESSAGE_CHECKS, type, data);
+}
+
+/**
+ * Validate a message received from a client before the server acts on it
+ */
+export function validateClientMessage<K extends ClientMessageType>(
+  type: K,
+  data: unknown
+): ValidationResult<ClientMessages[K]> {
+  return runCheck(CLIENT_MESSAGE_CHECKS, type, data);
+}
+
+const replayHeader = object({
+  protocolVersion: integer,
+  room: object(roomSettingsShape),
+  startedAt: finiteNumber,
+  startTick: integer
+});
+
+/**
+ * Validate the header of a replay file loaded by the player
+ */
+export function validateReplayHeader(data: unknown): ValidationResult<ReplayHeader> {
+  const reason = replayHeader(data, 'header');
+  return reason ? { ok: false, reason } : { ok: true, value: data as ReplayHeader };
+}
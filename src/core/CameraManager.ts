@@ -2,7 +2,20 @@ import * as THREE from 'three';
 
 export enum CameraMode {
   FIRST_PERSON,
-  THIRD_PERSON
+  THIRD_PERSON,
+  FREE_FLY
+}
+
+/**
+ * Movement and look input for the free-fly camera
+ */
+export interface FreeFlyInput {
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  yaw: number; // Radians, positive turns left
+  pitch: number; // Radians, positive looks up
 }
 
 export class CameraManager {
@@ -21,6 +34,10 @@ export class CameraManager {
   private positionLerpFactor = 0.1;
   private rotationLerpFactor = 0.1;
   
+  // Free-fly
+  private freeFlySpeed = 30; // Units per second
+  private freeFlyInput: FreeFlyInput | null = null;
+  
   constructor(canvas: HTMLCanvasElement) {
     // Create perspective camera
     this.camera = new THREE.PerspectiveCamera(
@@ -47,9 +64,35 @@ export class CameraManager {
   public followEntity(target: THREE.Object3D, turretTarget?: THREE.Object3D): void {
     this.target = target;
     this.turretTarget = turretTarget || null;
+    
+    if (this.cameraMode === CameraMode.FREE_FLY) {
+      this.cameraMode = CameraMode.THIRD_PERSON;
+    }
+  }
+  
+  /**
+   * Stop following anything and fly the camera around from where it is
+   */
+  public startFreeFly(): void {
+    this.target = null;
+    this.turretTarget = null;
+    this.cameraMode = CameraMode.FREE_FLY;
+  }
+  
+  /**
+   * Set how the free-fly camera should move on the next update
+   */
+  public setFreeFlyInput(input: FreeFlyInput): void {
+    this.freeFlyInput = input;
+  }
+  
+  public getCameraMode(): CameraMode {
+    return this.cameraMode;
   }
   
   public toggleCameraMode(): void {
+    if (this.cameraMode === CameraMode.FREE_FLY) return;
+    
     this.cameraMode = this.cameraMode === CameraMode.FIRST_PERSON
       ? CameraMode.THIRD_PERSON
       : CameraMode.FIRST_PERSON;
@@ -60,6 +103,11 @@ export class CameraManager {
   }
   
   public update(delta: number): void {
+    if (this.cameraMode === CameraMode.FREE_FLY) {
+      this.updateFreeFly(delta);
+      return;
+    }
+    
     if (!this.target) return;
     
     const targetPosition = new THREE.Vector3();
@@ -102,4 +150,27 @@ export class CameraManager {
     // Smoothly interpolate camera position
     this.camera.position.lerp(this.targetPosition, this.positionLerpFactor);
   }
+  
+  private updateFreeFly(delta: number): void {
+    if (!this.freeFlyInput) return;
+    
+    const input = this.freeFlyInput;
+    this.camera.rotation.order = 'YXZ';
+    this.camera.rotation.set(input.pitch, input.yaw, 0);
+    
+    // Fly where the camera is looking, strafing sideways
+    const forward = new THREE.Vector3();
+    this.camera.getWorldDirection(forward);
+    const right = new THREE.Vector3().crossVectors(forward, this.camera.up).normalize();
+    
+    const movement = new THREE.Vector3();
+    if (input.forward) movement.add(forward);
+    if (input.backward) movement.sub(forward);
+    if (input.right) movement.add(right);
+    if (input.left) movement.sub(right);
+    
+    if (movement.lengthSq() > 0) {
+      this.camera.position.addScaledVector(movement.normalize(), this.freeFlySpeed * delta);
+    }
+  }
 }
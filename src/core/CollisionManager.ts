@@ -1,6 +1,33 @@
 import { World, Body, ContactMaterial, Material, Vec3 } from 'cannon-es';
 import { EventEmitter } from '../utils/EventEmitter';
 
+/**
+ * A projectile struck a tank
+ */
+export interface ProjectileHitTankEvent {
+  projectileId: string;
+  tankId: string;
+  projectileOwnerId: string;
+  damage: number;
+  position: Vec3;
+}
+
+/**
+ * A projectile struck the ground or an obstacle
+ */
+export interface ProjectileImpactEvent {
+  projectileId: string;
+  position: Vec3;
+}
+
+/**
+ * A tank drove into a pickup
+ */
+export interface TankHitPickupEvent {
+  tankId: string;
+  pickupId: string;
+}
+
 export class CollisionManager extends EventEmitter {
   private world: World;
   
@@ -173,6 +200,20 @@ export class CollisionManager extends EventEmitter {
           position: new Vec3().copy(tankBody.position)
         });
       }
+      
+      // Check for tank-pickup overlap (pickups are triggers, so nothing bumps into them)
+      if (
+        (bodyA.userData?.type === 'tank' && bodyB.userData?.type === 'pickup') ||
+        (bodyA.userData?.type === 'pickup' && bodyB.userData?.type === 'tank')
+      ) {
+        const tankBody = bodyA.userData?.type === 'tank' ? bodyA : bodyB;
+        const pickupBody = bodyA.userData?.type === 'pickup' ? bodyA : bodyB;
+        
+        this.emit('tankHitPickup', {
+          tankId: tankBody.userData?.id,
+          pickupId: pickupBody.userData?.id
+        });
+      }
     });
   }
   
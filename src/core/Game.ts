@@ -1,5 +1,5 @@
 import * as THREE from 'three';
-import { World, Body } from 'cannon-es';
+import { World, Body, Vec3 } from 'cannon-es';
 import { AssetManager } from './AssetManager';
 import { UIManager } from '../ui/UIManager';
 import { InputManager } from './InputManager';
@@ -7,18 +7,72 @@ import { NetworkManager } from '../network/NetworkManager';
 import { Player } from '../entities/Player';
 import { Tank } from '../entities/Tank';
 import { Projectile } from '../entities/Projectile';
+import { Pickup } from '../entities/Pickup';
+import { AimArc } from '../entities/AimArc';
 import { WorldManager } from '../world/WorldManager';
-import { CameraManager } from './CameraManager';
-import { CollisionManager } from './CollisionManager';
+import { CameraManager, CameraMode } from './CameraManager';
+import {
+  CollisionManager,
+  ProjectileHitTankEvent,
+  ProjectileImpactEvent,
+  TankHitPickupEvent
+} from './CollisionManager';
 import { GameState } from '../types/GameState';
 import { EntityManager } from './EntityManager';
 import { AudioManager } from './AudioManager';
 import { registerDefaultModels } from '../utils/DefaultModels';
+import { SnapshotBuffer, DEFAULT_INTERPOLATION_DELAY } from '../network/SnapshotBuffer';
+import { ReplayPlayer } from './ReplayPlayer';
+import { Replay } from '../../shared/ReplayFormat';
+import {
+  Vector3Data,
+  RoomSettings,
+  RoomInfo,
+  PlayerJoinedMessage,
+  PlayerLeftMessage,
+  PlayerListMessage,
+  EntityEnteredMessage,
+  EntityLeftMessage,
+  PlayerUpdateMessage,
+  PlayerStateMessage,
+  PlayerRespawnedMessage,
+  ProjectileFiredMessage,
+  PlayerHitMessage,
+  ShotResultMessage,
+  PickupTakenMessage,
+  PickupListMessage,
+  MatchEndedMessage,
+  ChatMessage,
+  ChatHistoryMessage,
+  DEFAULT_TANK_COLOR
+} from '../../shared/protocol';
+import { SHELLS, SHELL_IDS, ShellDefinition, splashDamage } from '../../shared/Weapons';
+import { TEAMS } from '../../shared/Teams';
+import { traceTrajectory } from '../../shared/Ballistics';
+import { HullPose, resolveArmorHit, ricochetVelocity, hitboxDistance } from '../../shared/Armor';
+import { moduleForHit } from '../../shared/Modules';
+import { PICKUPS, PICKUP_SPAWNS, HEALTH_PICKUP_AMOUNT, scaleDamage } from '../../shared/Pickups';
+import { RESPAWN_DELAY } from '../../shared/Spawns';
+
+// Time between points when tracing the aim arc (s)
+const AIM_ARC_STEP = 0.05;
+
+// Push given to a tank right at the center of a blast, falling off like the damage
+const BLAST_IMPULSE = 8000; // N·s
+const BLAST_LIFT = 0.6; // Share of the push aimed upwards, so tanks get tossed rather than slid
+
+// How far off the plate a glancing shell carries on from, so it doesn't strike it again
+const RICOCHET_CLEARANCE = 0.3;
+
+// Height pickups float at over the terrain
+const PICKUP_HOVER_HEIGHT = 1.5;
 
 interface GameOptions {
   canvas: HTMLCanvasElement;
   assetManager: AssetManager;
   uiManager: UIManager;
+  networkManager?: NetworkManager;
+  interpolationDelay?: number;
 }
 
 export class Game {
@@ -49,6 +103,7 @@ export class Game {
     players: new Map(),
     projectiles: new Map(),
     worldObjects: new Map(),
+    pickups: new Map(),
     playerScore: 0,
     playerKills: 0,
     gameTime: 0
@@ -56,11 +111,33 @@ export class Game {
   
   // Player
   private localPlayer: Player | null = null;
+  private aimArc: AimArc;
+  
+  // Usernames of everyone in the match, including players whose tanks are out of range
+  private roster: Map<string, string> = new Map();
+  
+  // Room the current match is played in (null when playing offline)
+  private room: RoomSettings | null = null;
+  
+  // Server time the match started at, so every client shows the same match clock (ms)
+  private matchStartedAt: number | null = null;
+  
+  // Spectators watch without a tank, following a player or flying freely
+  private isSpectating: boolean = false;
+  private isMatchOver: boolean = false;
+  private spectateTargetId: string | null = null;
+  
+  // Recorded match being watched instead of a live one
+  private replay: ReplayPlayer | null = null;
+  
+  // How far in the past remote players are rendered (ms)
+  private interpolationDelay: number;
   
   constructor(options: GameOptions) {
     this.canvas = options.canvas;
     this.assetManager = options.assetManager;
     this.uiManager = options.uiManager;
+    this.interpolationDelay = options.interpolationDelay ?? DEFAULT_INTERPOLATION_DELAY;
     
     // Initialize Three.js renderer
     this.renderer = new THREE.WebGLRenderer({
@@ -76,6 +153,7 @@ export class Game {
     // Initialize scene
     this.scene = new THREE.Scene();
     this.scene.background = new THREE.Color(0x87CEEB); // Sky blue
+    this.aimArc = new AimArc(this.scene);
     
     // Initialize physics world with improved settings
     this.physicsWorld = new World();
@@ -92,7 +170,9 @@ export class Game {
     
     // Initialize managers
     this.inputManager = new InputManager(this.canvas);
-    this.networkManager = new NetworkManager();
+    this.networkManager = options.networkManager || new NetworkManager({
+      serverUrl: import.meta.env.VITE_SERVER_URL
+    });
     this.collisionManager = new CollisionManager(this.physicsWorld);
     this.worldManager = new WorldManager(
       this.scene, 
@@ -116,27 +196,58 @@ export class Game {
     this.networkManager.on('playerJoined', this.handlePlayerJoined.bind(this));
     this.networkManager.on('playerLeft', this.handlePlayerLeft.bind(this));
     this.networkManager.on('playerUpdate', this.handlePlayerUpdate.bind(this));
+    this.networkManager.on('playerState', this.handlePlayerState.bind(this));
     this.networkManager.on('projectileFired', this.handleProjectileFired.bind(this));
     this.networkManager.on('playerHit', this.handlePlayerHit.bind(this));
+    this.networkManager.on('shotResult', this.handleShotResult.bind(this));
+    this.networkManager.on('pickupTaken', this.handlePickupTaken.bind(this));
+    this.networkManager.on('pickupList', this.handlePickupList.bind(this));
+    this.networkManager.on('playerRespawned', this.handlePlayerRespawned.bind(this));
+    this.networkManager.on('playerList', this.handlePlayerList.bind(this));
+    this.networkManager.on('matchEnded', this.handleMatchEnded.bind(this));
+    this.networkManager.on('chatMessage', this.handleIncomingChatMessage.bind(this));
+    this.networkManager.on('chatHistory', this.handleChatHistory.bind(this));
+    this.networkManager.on('entityEntered', this.handleEntityEntered.bind(this));
+    this.networkManager.on('entityLeft', this.handleEntityLeft.bind(this));
+    this.networkManager.on('connectionLost', this.handleConnectionLost.bind(this));
+    this.networkManager.on('reconnecting', this.handleReconnecting.bind(this));
+    this.networkManager.on('reconnected', this.handleReconnected.bind(this));
+    this.networkManager.on('sessionLost', this.handleSessionLost.bind(this));
+    this.networkManager.on('roomUpdated', this.handleRoomUpdated.bind(this));
     
     // Input events
     this.inputManager.on('fire', this.handleFireInput.bind(this));
+    this.inputManager.on('selectShell', this.handleSelectShellInput.bind(this));
     this.inputManager.on('toggleCamera', this.handleToggleCameraInput.bind(this));
     this.inputManager.on('toggleChat', this.handleToggleChatInput.bind(this));
     this.inputManager.on('settingsChanged', this.handleInputSettingsChanged.bind(this));
+    this.inputManager.on('previousTarget', () => this.cycleSpectateTarget(-1));
+    this.inputManager.on('nextTarget', () => this.cycleSpectateTarget(1));
+    this.inputManager.on('toggleFreeCamera', this.handleToggleFreeCameraInput.bind(this));
+    this.inputManager.on('scoreboard', this.handleScoreboardInput.bind(this));
     
     // UI events
     this.uiManager.on('chatMessage', this.handleChatMessage.bind(this));
     this.uiManager.on('settingChanged', this.handleSettingChanged.bind(this));
+    this.uiManager.on('replayTogglePause', () => this.replay?.setPaused(!this.replay.isPaused()));
+    this.uiManager.on('replaySeek', (time: number) => this.replay?.seek(time));
+    this.uiManager.on('replaySpeed', (speed: number) => this.replay?.setSpeed(speed));
     
     // Collision events
     this.collisionManager.on('tankHitGround', this.handleTankHitGround.bind(this));
+    this.collisionManager.on('projectileHitTank', this.handleProjectileHitTank.bind(this));
+    this.collisionManager.on('projectileHitGround', this.handleProjectileImpact.bind(this));
+    this.collisionManager.on('projectileHitObstacle', this.handleProjectileImpact.bind(this));
+    this.collisionManager.on('tankHitPickup', this.handleTankHitPickup.bind(this));
     
     // Settings menu events
     this.setupSettingsEvents();
   }
   
-  public async start(): Promise<void> {
+  /**
+   * Start a match in the given lobby room, or offline when no room is given
+   */
+  public async start(room?: RoomSettings, username?: string, startedAt?: number): Promise<void> {
     if (this.isRunning) return;
     
     // Register default models in case asset loading fails
@@ -144,15 +255,35 @@ export class Game {
     
     // Generate world
     await this.worldManager.generateWorld();
+    this.spawnPickups();
+    
+    if (this.replay) {
+      this.room = null;
+      this.matchStartedAt = null;
+      this.uiManager.addNotification(`Watching a replay of ${this.replay.getRoom().name}`);
+    } else if (room && this.networkManager.isInRoom()) {
+      this.room = room;
+      this.matchStartedAt = startedAt ?? this.networkManager.getServerTime();
+      this.uiManager.addNotification(`Joined ${room.name} (${room.mode})`);
+    } else {
+      this.room = null;
+      this.matchStartedAt = null;
+      this.uiManager.addNotification('Playing offline');
+    }
     
-    // Connect to server
-    await this.networkManager.connect();
-    
-    // Create local player
-    this.createLocalPlayer();
+    // Spectators watch the match without a tank of their own, and so does anyone watching a replay
+    if (this.replay || (this.room && this.networkManager.isSpectator())) {
+      this.startSpectating();
+    } else {
+      this.createLocalPlayer(username);
+    }
     
     // Initialize UI with current settings
     this.uiManager.updateSettings(this.inputManager.getSettings());
+    this.uiManager.updateTeamScores(
+      this.room ? this.networkManager.getRoom()?.teamScores ?? [] : [],
+      this.networkManager.getTeam()
+    );
     
     // Start game loop
     this.isRunning = true;
@@ -165,11 +296,46 @@ export class Game {
     console.log('Game started');
   }
   
+  /**
+   * Watch a recorded match. The replay stands in for the server, so its events go
+   * through the same handlers as the network's.
+   */
+  public async startReplay(replay: Replay): Promise<void> {
+    if (this.isRunning) return;
+    
+    this.replay = new ReplayPlayer(replay);
+    this.replay.on('playerJoined', this.handlePlayerJoined.bind(this));
+    this.replay.on('playerLeft', this.handlePlayerLeft.bind(this));
+    this.replay.on('playerRespawned', this.handlePlayerRespawned.bind(this));
+    this.replay.on('projectileFired', this.handleProjectileFired.bind(this));
+    this.replay.on('playerHit', this.handlePlayerHit.bind(this));
+    this.replay.on('pickupTaken', this.handlePickupTaken.bind(this));
+    this.replay.on('chatMessage', this.handleIncomingChatMessage.bind(this));
+    this.replay.on('matchEnded', this.handleMatchEnded.bind(this));
+    this.replay.on('roomUpdated', this.handleRoomUpdated.bind(this));
+    this.replay.on('seek', this.handleReplaySeek.bind(this));
+    
+    this.uiManager.setReplaying(true);
+    
+    await this.start();
+  }
+  
   public stop(): void {
     if (!this.isRunning) return;
     
-    // Disconnect from server
-    this.networkManager.disconnect();
+    // Go back to the lobby, staying connected
+    this.networkManager.leaveRoom();
+    this.room = null;
+    this.matchStartedAt = null;
+    
+    this.isSpectating = false;
+    this.isMatchOver = false;
+    this.spectateTargetId = null;
+    this.uiManager.setSpectating(false);
+    this.uiManager.hideScoreboard();
+    
+    this.replay = null;
+    this.uiManager.setReplaying(false);
     
     // Stop game loop
     this.isRunning = false;
@@ -186,12 +352,15 @@ export class Game {
       players: new Map(),
       projectiles: new Map(),
       worldObjects: new Map(),
+      pickups: new Map(),
       playerScore: 0,
       playerKills: 0,
       gameTime: 0
     };
     
     this.localPlayer = null;
+    this.roster.clear();
+    this.aimArc.hide();
     
     console.log('Game stopped');
   }
@@ -204,22 +373,28 @@ export class Game {
     this.cameraManager.updateAspect(window.innerWidth / window.innerHeight);
   }
   
-  private createLocalPlayer(): void {
+  private createLocalPlayer(username?: string): void {
+    const profile = this.networkManager.getProfile();
+    const team = this.room ? this.networkManager.getTeam() : null;
+    
     // Create player entity with tank material
     const playerTank = new Tank({
       assetManager: this.assetManager,
-      position: new THREE.Vector3(0, 5, 0), // Start slightly above ground to prevent immediate sinking
+      position: team
+        ? this.worldManager.getSpawnPositionIn(TEAMS[team].spawn)
+        : new THREE.Vector3(0, 5, 0), // Start slightly above ground to prevent immediate sinking
       rotation: new THREE.Euler(0, 0, 0),
-      color: 0x3366ff,
+      color: profile?.color ?? DEFAULT_TANK_COLOR,
       isLocal: true,
       material: this.collisionManager.getTankMaterial()
     });
     
     this.localPlayer = new Player({
       id: this.networkManager.getClientId(),
-      username: 'Player_' + Math.floor(Math.random() * 1000),
+      username: profile?.username || username || 'Player_' + Math.floor(Math.random() * 1000),
       tank: playerTank,
-      isLocal: true
+      isLocal: true,
+      team
     });
     
     // Add player to entity manager
@@ -230,40 +405,44 @@ export class Game {
     
     // Send player joined event to server
     this.networkManager.sendPlayerJoined({
-      id: this.localPlayer.getId(),
       username: this.localPlayer.getUsername(),
-      position: playerTank.getPosition(),
-      rotation: playerTank.getRotation(),
-      health: playerTank.getHealth(),
+      position: this.toVectorData(playerTank.getPosition()),
+      rotation: this.toRotationData(playerTank.getRotation()),
       color: playerTank.getColor()
     });
     
     // Update UI
     this.uiManager.updateHealth(playerTank.getHealth());
-    this.uiManager.updateAmmo(playerTank.getAmmo(), playerTank.getMaxAmmo());
+    this.updateAmmoDisplay(playerTank);
   }
   
   public respawnPlayer(): void {
     if (!this.localPlayer) return;
     
-    // Get random spawn position
-    const spawnPosition = this.worldManager.getRandomSpawnPosition();
-    // Add height to prevent sinking on spawn
-    spawnPosition.y += 2;
+    // Teams respawn at their base, everyone else anywhere
+    const team = this.localPlayer.getTeam();
+    let spawnPosition: THREE.Vector3;
+    if (team) {
+      spawnPosition = this.worldManager.getSpawnPositionIn(TEAMS[team].spawn);
+    } else {
+      spawnPosition = this.worldManager.getRandomSpawnPosition();
+      // Add height to prevent sinking on spawn
+      spawnPosition.y += 2;
+    }
     
     // Reset player tank
     const playerTank = this.localPlayer.getTank();
     playerTank.reset(spawnPosition);
+    this.localPlayer.respawn();
     
     // Update UI
     this.uiManager.updateHealth(playerTank.getHealth());
-    this.uiManager.updateAmmo(playerTank.getAmmo(), playerTank.getMaxAmmo());
+    this.updateAmmoDisplay(playerTank);
     
     // Send respawn event to server
     this.networkManager.sendPlayerRespawned({
-      id: this.localPlayer.getId(),
-      position: spawnPosition,
-      rotation: playerTank.getRotation()
+      position: this.toVectorData(spawnPosition),
+      rotation: this.toRotationData(playerTank.getRotation())
     });
   }
   
@@ -293,6 +472,12 @@ export class Game {
     // Limit delta time to prevent large jumps in physics
     const cappedDelta = Math.min(delta, 1/30);
     
+    // Apply local input before stepping physics so its result can be predicted
+    const input = this.localPlayer ? this.inputManager.getInput() : null;
+    if (this.localPlayer && input) {
+      this.localPlayer.update(cappedDelta, input);
+    }
+    
     // Update physics with fixed timestep for stability
     // Use more substeps for better stability
     this.physicsWorld.step(1/60, cappedDelta, 10);
@@ -300,40 +485,55 @@ export class Game {
     // Update game time
     this.gameState.gameTime += delta;
     
+    let matchTime = this.gameState.gameTime;
+    if (this.replay) {
+      matchTime = this.replay.getTime() / 1000;
+    } else if (this.matchStartedAt !== null) {
+      matchTime = (this.networkManager.getServerTime() - this.matchStartedAt) / 1000;
+    }
+    this.uiManager.updateMatchClock(matchTime);
+    
     // Update local player
-    if (this.localPlayer) {
-      // Get input
-      const input = this.inputManager.getInput();
-      
-      // Update player
-      this.localPlayer.update(delta, input);
-      
+    if (this.localPlayer && input) {
       // Check if player is dead
-      if (this.localPlayer.getTank().isDead() && !document.getElementById('game-over')?.classList.contains('active')) {
+      if (this.localPlayer.getTank().isDead() && !this.isMatchOver &&
+          !document.getElementById('game-over')?.classList.contains('active')) {
         this.handlePlayerDeath();
       }
       
-      // Send player update to server
+      // Send the input and our predicted result to the server
       const playerTank = this.localPlayer.getTank();
-      this.networkManager.sendPlayerUpdate({
-        id: this.localPlayer.getId(),
-        position: playerTank.getPosition(),
-        rotation: playerTank.getRotation(),
-        turretRotation: playerTank.getTurretRotation(),
-        health: playerTank.getHealth(),
-        velocity: playerTank.getVelocity()
-      });
+      if (this.networkManager.isConnectedToServer()) {
+        this.localPlayer.recordInput(input, cappedDelta);
+        
+        this.networkManager.sendPlayerInput({
+          sequence: input.sequence,
+          delta: cappedDelta,
+          forward: input.forward,
+          backward: input.backward,
+          left: input.left,
+          right: input.right,
+          turretRotation: playerTank.getTurretRotation(),
+          position: this.toVectorData(playerTank.getPhysicsPosition()),
+          heading: playerTank.getHeading(),
+          shell: playerTank.getShell(),
+          reload: input.reload,
+          repair: input.repair
+        });
+      }
       
       // Update camera
       this.cameraManager.update(delta);
       
       // Update UI
       this.uiManager.updateHealth(playerTank.getHealth());
+      this.uiManager.updateModules(playerTank.getModuleHealth(), playerTank.getRepairTimeLeft());
+      this.uiManager.updateEffects(playerTank.getEffects());
       if (playerTank.isReloading) {
         this.uiManager.showReloadIndicator();
       } else {
         this.uiManager.hideReloadIndicator();
-        this.uiManager.updateAmmo(playerTank.getAmmo(), playerTank.getMaxAmmo());
+        this.updateAmmoDisplay(playerTank);
       }
     
       // Update minimap
@@ -341,18 +541,88 @@ export class Game {
         { x: playerTank.getPosition().x, z: playerTank.getPosition().z },
         this.getEntitiesForMinimap()
       );
+      
+      this.updateAimAssist(playerTank);
+    }
+    
+    // Replays run at their own pace, and shells keep up with them
+    const projectileDelta = this.replay ? this.updateReplay(delta) : delta;
+    
+    if (this.isSpectating) {
+      this.updateSpectatorCamera(delta);
     }
     
+    // Bring back pickups whose respawn time has come
+    const serverTime = this.getServerTime();
+    this.gameState.pickups.forEach(pickup => pickup.updateRespawn(serverTime));
+    
     // Update all entities
     this.entityManager.update(delta);
     
     // Update projectiles
-    this.updateProjectiles(delta);
+    this.updateProjectiles(projectileDelta);
     
     // Check collisions
     this.collisionManager.checkCollisions();
   }
   
+  /**
+   * Move the replay on and put every tank where it was at that moment.
+   * Returns how much replay time went by (s).
+   */
+  private updateReplay(delta: number): number {
+    const replay = this.replay!;
+    const step = replay.update(delta);
+    const velocityScale = replay.isPaused() ? 0 : replay.getSpeed();
+    const present = new Set<string>();
+    
+    replay.sample().forEach(state => {
+      const info = replay.getPlayer(state.netId);
+      if (!info) return;
+      
+      present.add(info.id);
+      if (!this.gameState.players.has(info.id)) {
+        this.handleEntityEntered({ ...info, position: state.position, health: state.health });
+      }
+      
+      const tank = this.gameState.players.get(info.id)!.getTank();
+      tank.setKinematicState(
+        new THREE.Vector3(state.position.x, state.position.y, state.position.z),
+        state.heading,
+        new THREE.Vector3(state.velocity.x, state.velocity.y, state.velocity.z).multiplyScalar(velocityScale)
+      );
+      tank.setTurretRotation(state.turretRotation);
+      tank.setHealth(state.health);
+    });
+    
+    // Tanks drop out of the snapshots when their players leave
+    Array.from(this.gameState.players.keys())
+      .filter(id => !present.has(id))
+      .forEach(id => this.removeRemotePlayer(id));
+    
+    this.uiManager.updateReplayControls(replay.getTime(), replay.getDuration(), replay.isPaused(), replay.getSpeed());
+    
+    return step;
+  }
+  
+  /**
+   * Drop what was built up from events the replay skipped over; tanks are put in
+   * place by the next update
+   */
+  private handleReplaySeek(): void {
+    this.gameState.projectiles.forEach(projectile => this.entityManager.removeEntity(projectile));
+    this.gameState.projectiles.clear();
+    
+    this.roster = this.replay!.getRoster();
+    this.uiManager.updateTeamScores(this.replay!.getTeamScores(), null);
+    this.handlePickupList(this.replay!.getPickupList());
+    
+    if (this.isMatchOver) {
+      this.isMatchOver = false;
+      this.uiManager.hideMatchResults();
+    }
+  }
+  
   private updateProjectiles(delta: number): void {
     // Update all projectiles
     this.gameState.projectiles.forEach((projectile, id) => {
@@ -411,7 +681,10 @@ export class Game {
       
       // Physics info
       physicsBodies: this.physicsWorld.bodies.length,
-      physicsContacts: this.physicsWorld.contacts.length
+      physicsContacts: this.physicsWorld.contacts.length,
+      
+      // Network info
+      network: this.networkManager.isConnectedToServer() ? this.networkManager.getNetworkStats() : null
     };
     
     // Update UI
@@ -419,7 +692,32 @@ export class Game {
   }
   
   // Event handlers
-  private handlePlayerJoined(data: any): void {
+  private handlePlayerJoined(data: PlayerJoinedMessage): void {
+    this.roster.set(data.id, data.username);
+    
+    // Their tank is spawned once it comes within range
+    this.uiManager.addNotification(`${data.username} joined the game`);
+  }
+  
+  private handlePlayerLeft(data: PlayerLeftMessage): void {
+    const username = this.roster.get(data.id);
+    this.roster.delete(data.id);
+    
+    this.removeRemotePlayer(data.id);
+    
+    if (username) {
+      this.uiManager.addNotification(`${username} left the game`);
+    }
+  }
+  
+  /**
+   * Spawn a remote tank that came within our area of interest
+   */
+  private handleEntityEntered(data: EntityEnteredMessage): void {
+    if (this.gameState.players.has(data.id)) return;
+    
+    this.roster.set(data.id, data.username);
+    
     // Create new player with tank material
     const playerTank = new Tank({
       assetManager: this.assetManager,
@@ -429,12 +727,16 @@ export class Game {
       isLocal: false,
       material: this.collisionManager.getTankMaterial()
     });
+    playerTank.setHealth(data.health);
     
     const player = new Player({
       id: data.id,
       username: data.username,
       tank: playerTank,
-      isLocal: false
+      isLocal: false,
+      team: data.team,
+      // Replays place their tanks directly
+      snapshots: this.replay ? undefined : new SnapshotBuffer({ interpolationDelay: this.interpolationDelay })
     });
     
     // Add player to entity manager
@@ -442,50 +744,123 @@ export class Game {
     
     // Add player to game state
     this.gameState.players.set(data.id, player);
-    
-    // Show notification
-    this.uiManager.addNotification(`${data.username} joined the game`);
   }
   
-  private handlePlayerLeft(data: any): void {
-    const player = this.gameState.players.get(data.id);
+  /**
+   * Despawn a remote tank that went out of range
+   */
+  private handleEntityLeft(data: EntityLeftMessage): void {
+    this.removeRemotePlayer(data.id);
+  }
+  
+  private removeRemotePlayer(id: string): void {
+    const player = this.gameState.players.get(id);
     
     if (player) {
       // Remove player from entity manager
       this.entityManager.removeEntity(player);
       
       // Remove player from game state
-      this.gameState.players.delete(data.id);
-      
-      // Show notification
-      this.uiManager.addNotification(`${player.getUsername()} left the game`);
+      this.gameState.players.delete(id);
     }
   }
   
-  private handlePlayerUpdate(data: any): void {
+  private handlePlayerUpdate(data: PlayerUpdateMessage): void {
     const player = this.gameState.players.get(data.id);
     
     if (player) {
-      // Update player
-      player.getTank().setPosition(new THREE.Vector3(data.position.x, data.position.y, data.position.z));
-      player.getTank().setRotation(new THREE.Euler(data.rotation.x, data.rotation.y, data.rotation.z));
-      player.getTank().setTurretRotation(data.turretRotation);
+      // Buffer the state; the tank is moved by interpolation in Player.update
+      player.addSnapshot({
+        timestamp: data.timestamp,
+        position: data.position,
+        heading: data.rotation.y,
+        turretRotation: data.turretRotation,
+        velocity: data.velocity
+      });
       player.getTank().setHealth(data.health);
-      player.getTank().setVelocity(new THREE.Vector3(data.velocity.x, data.velocity.y, data.velocity.z));
     }
   }
   
-  private handleProjectileFired(data: any): void {
-    // Create projectile
+  private handlePlayerState(data: PlayerStateMessage): void {
+    if (!this.localPlayer) return;
+    
+    this.localPlayer.reconcile(data);
+    
+    if (this.localPlayer.predatesRespawn(data)) return;
+    
+    // Catch up on hits we missed, e.g. while reconnecting
+    const tank = this.localPlayer.getTank();
+    const health = data.dead ? 0 : data.health;
+    if (health !== tank.getHealth()) {
+      tank.setHealth(health);
+      this.uiManager.updateHealth(tank.getHealth());
+    }
+  }
+  
+  private handlePlayerRespawned(data: PlayerRespawnedMessage): void {
+    const player = this.gameState.players.get(data.id);
+    
+    if (player) {
+      // Don't interpolate across the teleport
+      player.clearSnapshots();
+      player.getTank().reset(new THREE.Vector3(data.position.x, data.position.y, data.position.z));
+    }
+  }
+  
+  /**
+   * Take the server's list of players, sent when we spawn or resume a session.
+   * The server starts our area of interest over, so tanks in range are sent again.
+   */
+  private handlePlayerList(data: PlayerListMessage): void {
+    if (!this.isRunning) return;
+    
+    this.roster = new Map(data.players.map(player => [player.id, player.username]));
+    
+    Array.from(this.gameState.players.keys()).forEach(id => this.removeRemotePlayer(id));
+  }
+  
+  private handleConnectionLost(): void {
+    if (!this.isRunning || !this.room) return;
+    
+    this.uiManager.showConnectionLost('Reconnecting...', false);
+  }
+  
+  private handleReconnecting(data: { attempt: number; maxAttempts: number; delay: number }): void {
+    if (!this.isRunning || !this.room) return;
+    
+    this.uiManager.showConnectionLost(
+      `Reconnecting in ${Math.round(data.delay / 1000)}s (attempt ${data.attempt} of ${data.maxAttempts})...`,
+      false
+    );
+  }
+  
+  private handleReconnected(): void {
+    if (!this.isRunning || !this.room) return;
+    
+    this.uiManager.hideConnectionLost();
+    this.uiManager.addNotification('Reconnected to server');
+  }
+  
+  private handleSessionLost(data: { reason: string }): void {
+    if (!this.isRunning || !this.room) return;
+    
+    this.uiManager.showConnectionLost(data.reason, true);
+  }
+  
+  private handleProjectileFired(data: ProjectileFiredMessage): void {
+    // Create projectile, caught up with the time it took to reach us
+    const now = this.getServerTime();
     const projectile = new Projectile({
       id: data.id,
       position: new THREE.Vector3(data.position.x, data.position.y, data.position.z),
       direction: new THREE.Vector3(data.direction.x, data.direction.y, data.direction.z),
+      shell: data.shell,
       speed: data.speed,
       damage: data.damage,
       ownerId: data.ownerId,
       scene: this.scene,
-      physicsWorld: this.physicsWorld
+      physicsWorld: this.physicsWorld,
+      age: Math.max(0, (now - data.firedAt) / 1000)
     });
     
     // Add projectile to entity manager
@@ -498,12 +873,20 @@ export class Game {
     this.audioManager.playSound('shot', 0.5);
   }
   
-  private handlePlayerHit(data: any): void {
-    const player = this.gameState.players.get(data.playerId);
+  private handlePlayerHit(data: PlayerHitMessage): void {
+    const player = this.getPlayer(data.playerId);
     
     if (player) {
-      // Update player health
+      // Update player health, and the module the hit got through to
       player.getTank().damage(data.damage);
+      if (data.module) {
+        player.getTank().damageModule(data.module, data.damage);
+      }
+      
+      // Credit the shooter
+      if (data.killerId) {
+        this.getPlayer(data.killerId)?.getTank().addDamageDealt(data.damage);
+      }
       
       // Play hit sound
       this.audioManager.playSound('hit', 0.5);
@@ -521,7 +904,7 @@ export class Game {
         
         // Show kill feed
         const killer = data.killerId ? 
-          (this.gameState.players.get(data.killerId)?.getUsername() || 'Unknown') : 
+          (this.getPlayer(data.killerId)?.getUsername() || 'Unknown') : 
           'Environment';
         
         this.uiManager.addKillFeed(`${killer} killed ${player.getUsername()}`);
@@ -536,6 +919,375 @@ export class Game {
     }
   }
   
+  /**
+   * Keep the team scores up to date as kills come in
+   */
+  private handleRoomUpdated(room: RoomInfo): void {
+    if (!this.isRunning) return;
+    
+    // Only the room we're playing in, not others the lobby hears about
+    if (!this.replay && room.id !== this.networkManager.getRoom()?.id) return;
+    
+    this.uiManager.updateTeamScores(room.teamScores, this.localPlayer?.getTeam() ?? null);
+  }
+  
+  private handleMatchEnded(data: MatchEndedMessage): void {
+    if (!this.isRunning) return;
+    
+    // The results replace the death screen, there's nothing left to respawn for
+    this.isMatchOver = true;
+    document.getElementById('game-over')?.classList.remove('active');
+    this.uiManager.hideScoreboard();
+    this.uiManager.showMatchResults(data, this.networkManager.getClientId());
+  }
+  
+  /**
+   * Get the lobby room the current match is played in, or null when offline
+   */
+  public getRoom(): RoomSettings | null {
+    return this.room;
+  }
+  
+  /**
+   * Change how far in the past remote players are rendered
+   */
+  public setInterpolationDelay(delay: number): void {
+    this.interpolationDelay = delay;
+    
+    this.gameState.players.forEach(player => {
+      player.getSnapshots()?.setInterpolationDelay(delay);
+    });
+  }
+  
+  /**
+   * Resolve a projectile hitting a tank. Its armor decides whether the shell glances
+   * off, which every client shows straight away. In a room, the shooter reports the
+   * hit and the server answers everyone with a validated playerHit and the shooter
+   * with what the shell did; playing on our own it is applied right away.
+   */
+  private handleProjectileHitTank(data: ProjectileHitTankEvent): void {
+    const projectile = this.gameState.projectiles.get(data.projectileId);
+    const target = this.getPlayerByTankId(data.tankId);
+    if (!projectile || projectile.isExpired() || !target) return;
+    
+    // Shells leave the barrel inside the shooter's own hull
+    if (target.getId() === projectile.getOwnerId()) return;
+    
+    // The server won't count hits on teammates with friendly fire off, so don't claim them
+    const ownerTeam = this.getPlayer(projectile.getOwnerId())?.getTeam();
+    const sparesTarget = !!ownerTeam && ownerTeam === target.getTeam() && !this.room?.friendlyFire;
+    
+    const position = new THREE.Vector3(data.position.x, data.position.y, data.position.z);
+    const velocity = projectile.getVelocity();
+    const armorHit = resolveArmorHit(SHELLS[projectile.getShell()], this.getHullPose(target.getTank()), position, velocity);
+    
+    if (armorHit.result === 'bounced') {
+      const normal = new THREE.Vector3(armorHit.normal.x, armorHit.normal.y, armorHit.normal.z);
+      const bounced = ricochetVelocity(velocity, armorHit.normal);
+      projectile.ricochet(
+        position.clone().addScaledVector(normal, RICOCHET_CLEARANCE),
+        new THREE.Vector3(bounced.x, bounced.y, bounced.z)
+      );
+    } else {
+      // Otherwise the shell is spent; it is removed with the other expired projectiles
+      projectile.markHit();
+    }
+    
+    // Replays already hold the hits the server confirmed
+    if (this.replay) return;
+    
+    const isOurs = !!this.localPlayer && projectile.getOwnerId() === this.localPlayer.getId();
+    
+    // Only the server applies hits in a room, even while we reconnect to it
+    if (this.room) {
+      if (isOurs && !sparesTarget) {
+        this.networkManager.sendProjectileHit({
+          projectileId: data.projectileId,
+          targetId: target.getId(),
+          position: this.toVectorData(position),
+          viewTime: target.getSnapshots()?.getRenderTime() ?? this.getServerTime()
+        });
+      }
+      return;
+    }
+    
+    if (target.getTank().isDead()) return;
+    
+    if (isOurs) this.uiManager.showShotResult(armorHit.result, armorHit.zone);
+    if (armorHit.damage <= 0) return;
+    
+    this.handlePlayerHit({
+      playerId: target.getId(),
+      damage: this.getBoostedDamage(armorHit.damage, projectile.getOwnerId(), target.getTank()),
+      killerId: projectile.getOwnerId(),
+      module: moduleForHit(armorHit)
+    });
+  }
+  
+  /**
+   * The server's verdict on one of our shells that struck a tank
+   */
+  private handleShotResult(data: ShotResultMessage): void {
+    if (!this.isRunning) return;
+    
+    this.uiManager.showShotResult(data.result, data.zone);
+  }
+  
+  /**
+   * Shells stop where they hit the terrain or an obstacle instead of bouncing on.
+   * Splash shells go off where they land.
+   */
+  private handleProjectileImpact(data: ProjectileImpactEvent): void {
+    const projectile = this.gameState.projectiles.get(data.projectileId);
+    if (!projectile || projectile.isExpired()) return;
+    
+    projectile.markHit();
+    
+    if (SHELLS[projectile.getShell()].splashRadius > 0) {
+      this.explodeProjectile(data.projectileId, projectile, new THREE.Vector3(data.position.x, data.position.y, data.position.z));
+    }
+  }
+  
+  /**
+   * Hurt and shove every tank caught in a splash shell's blast that isn't sheltered
+   * behind a building, rock or tree. In a room, the shooter reports who was caught
+   * and the server answers with a playerHit for each; playing on our own the damage
+   * is applied here.
+   */
+  private explodeProjectile(projectileId: string, projectile: Projectile, position: THREE.Vector3): void {
+    const shell = SHELLS[projectile.getShell()];
+    const ownerId = projectile.getOwnerId();
+    const ownerTeam = this.getPlayer(ownerId)?.getTeam();
+    
+    this.audioManager.playSound('explosion', 0.5);
+    
+    // Start just short of the impact along the shell's path, so the obstacle it
+    // hit doesn't shelter everything around it
+    const from = position.clone();
+    const velocity = projectile.getPhysicsBody()?.velocity;
+    if (velocity && velocity.length() > 0) {
+      from.sub(new THREE.Vector3(velocity.x, velocity.y, velocity.z).normalize().multiplyScalar(0.5));
+    }
+    
+    const players = this.localPlayer ? [this.localPlayer, ...this.gameState.players.values()] : [...this.gameState.players.values()];
+    const caught = players.filter(player => {
+      const tank = player.getTank();
+      if (player.getId() === ownerId || tank.isDead()) return false;
+      
+      // Teammates are spared, as with direct hits
+      if (ownerTeam && ownerTeam === player.getTeam() && !this.room?.friendlyFire) return false;
+      
+      return this.getBlastDamage(shell, position, tank) > 0 && !this.isSheltered(from, tank.getPhysicsPosition());
+    });
+    
+    // Only our own tank is ours to push around; the others come from the network
+    const localTank = this.localPlayer?.getTank();
+    if (localTank && this.localPlayer && caught.includes(this.localPlayer) && !this.replay) {
+      this.knockBack(localTank, position, this.getBlastDamage(shell, position, localTank) / shell.damage);
+    }
+    
+    // Replays already hold the hits the server confirmed
+    if (this.replay || caught.length === 0) return;
+    
+    // Only the server applies hits in a room, even while we reconnect to it
+    if (this.room) {
+      if (this.localPlayer && ownerId === this.localPlayer.getId()) {
+        this.networkManager.sendProjectileExploded({
+          projectileId,
+          position: this.toVectorData(position),
+          viewTime: caught.find(player => player !== this.localPlayer)?.getSnapshots()?.getRenderTime() ?? this.getServerTime(),
+          targetIds: caught.map(player => player.getId())
+        });
+      }
+      return;
+    }
+    
+    caught.forEach(player => {
+      this.handlePlayerHit({
+        playerId: player.getId(),
+        damage: this.getBoostedDamage(this.getBlastDamage(shell, position, player.getTank()), ownerId, player.getTank()),
+        killerId: ownerId
+      });
+    });
+  }
+  
+  /**
+   * Damage a blast does to a tank, measured to the nearest edge of its hull the
+   * same way the server does
+   */
+  private getBlastDamage(shell: ShellDefinition, position: THREE.Vector3, tank: Tank): number {
+    return splashDamage(shell, hitboxDistance(this.getHullPose(tank), position));
+  }
+  
+  /**
+   * Damage after the shooter's damage boost and the target's shield, the same way
+   * the server works it out
+   */
+  private getBoostedDamage(damage: number, shooterId: string, target: Tank): number {
+    const boosted = this.getPlayer(shooterId)?.getTank().hasEffect('damage') ?? false;
+    return scaleDamage(damage, boosted, target.hasEffect('shield'));
+  }
+  
+  /**
+   * Where a tank's hull is and which way it faces, as armor and hitboxes see it
+   */
+  private getHullPose(tank: Tank): HullPose {
+    const center = tank.getPhysicsPosition();
+    return { x: center.x, y: center.y, z: center.z, heading: tank.getHeading() };
+  }
+  
+  /**
+   * Check whether a world object stands between a blast and a tank
+   */
+  private isSheltered(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    let sheltered = false;
+    
+    this.physicsWorld.raycastAll(
+      new Vec3(from.x, from.y, from.z),
+      new Vec3(to.x, to.y, to.z),
+      { skipBackfaces: true },
+      result => {
+        if (result.body?.userData?.type === 'obstacle') {
+          sheltered = true;
+          result.abort();
+        }
+      }
+    );
+    
+    return sheltered;
+  }
+  
+  /**
+   * Throw a tank away from a blast, strength being 1 at its center
+   */
+  private knockBack(tank: Tank, position: THREE.Vector3, strength: number): void {
+    const body = tank.getPhysicsBody();
+    if (!body || strength <= 0) return;
+    
+    const away = tank.getPhysicsPosition().sub(position).setY(0);
+    if (away.lengthSq() > 0) away.normalize();
+    away.multiplyScalar(1 - BLAST_LIFT).setY(BLAST_LIFT).multiplyScalar(BLAST_IMPULSE * strength);
+    
+    body.applyImpulse(new Vec3(away.x, away.y, away.z));
+  }
+  
+  /**
+   * Put a pickup over every spawn point, floating above whatever terrain is there
+   */
+  private spawnPickups(): void {
+    PICKUP_SPAWNS.forEach(spawn => {
+      const pickup = new Pickup({
+        spawn,
+        position: new THREE.Vector3(
+          spawn.x,
+          this.worldManager.getTerrainHeightAt(spawn.x, spawn.z) + PICKUP_HOVER_HEIGHT,
+          spawn.z
+        )
+      });
+      
+      this.entityManager.addEntity(pickup);
+      this.gameState.pickups.set(spawn.id, pickup);
+    });
+  }
+  
+  /**
+   * Our tank drove into a pickup. In a room the server decides whether we got it
+   * and tells everyone with pickupTaken; playing on our own we just take it.
+   */
+  private handleTankHitPickup(data: TankHitPickupEvent): void {
+    const pickup = this.gameState.pickups.get(data.pickupId);
+    if (!pickup || !pickup.isActive() || this.replay || !this.localPlayer) return;
+    
+    const tank = this.localPlayer.getTank();
+    if (data.tankId !== tank.getId() || tank.isDead()) return;
+    
+    // Even while we reconnect, only the server can hand out pickups in a room
+    if (this.room) {
+      this.networkManager.sendPickupCollected({ pickupId: pickup.getId() });
+      return;
+    }
+    
+    this.handlePickupTaken({
+      pickupId: pickup.getId(),
+      playerId: this.localPlayer.getId(),
+      respawnAt: this.getServerTime() + PICKUPS[pickup.getType()].respawnTime * 1000
+    });
+  }
+  
+  /**
+   * Someone got a pickup: hide it until it respawns and give their tank what it does
+   */
+  private handlePickupTaken(data: PickupTakenMessage): void {
+    const pickup = this.gameState.pickups.get(data.pickupId);
+    if (!pickup) return;
+    
+    pickup.take(data.respawnAt);
+    
+    const player = this.getPlayer(data.playerId);
+    if (!player) return;
+    
+    const type = pickup.getType();
+    const definition = PICKUPS[type];
+    
+    if (type === 'health') {
+      player.getTank().heal(HEALTH_PICKUP_AMOUNT);
+    } else if (type === 'ammo') {
+      player.getTank().refillAmmo();
+    } else {
+      // Effects run from when the server handed the pickup out, however late we heard
+      const takenAt = data.respawnAt - definition.respawnTime * 1000;
+      player.getTank().applyEffect(type, definition.duration - (this.getServerTime() - takenAt) / 1000);
+    }
+    
+    if (player === this.localPlayer) {
+      this.uiManager.addNotification(`Picked up ${definition.name}`);
+    }
+  }
+  
+  /**
+   * Take the server's list of pickups waiting to respawn, sent when we spawn or
+   * resume a session; every other pickup is there to be taken
+   */
+  private handlePickupList(data: PickupListMessage): void {
+    if (!this.isRunning) return;
+    
+    this.gameState.pickups.forEach(pickup => pickup.restore());
+    data.taken.forEach(({ pickupId, respawnAt }) => this.gameState.pickups.get(pickupId)?.take(respawnAt));
+  }
+  
+  /**
+   * The server time the match is at, by the replay when watching one (ms)
+   */
+  private getServerTime(): number {
+    return this.replay ? this.replay.getServerTime() : this.networkManager.getServerTime();
+  }
+  
+  /**
+   * Find a player, local or remote, by ID
+   */
+  private getPlayer(id: string): Player | undefined {
+    if (this.localPlayer && this.localPlayer.getId() === id) {
+      return this.localPlayer;
+    }
+    
+    return this.gameState.players.get(id);
+  }
+  
+  /**
+   * Find the player driving the tank with the given entity ID
+   */
+  private getPlayerByTankId(tankId: string): Player | undefined {
+    if (this.localPlayer && this.localPlayer.getTank().getId() === tankId) {
+      return this.localPlayer;
+    }
+    
+    for (const player of this.gameState.players.values()) {
+      if (player.getTank().getId() === tankId) return player;
+    }
+    
+    return undefined;
+  }
+  
   private handleTankHitGround(data: any): void {
     // This is called when a tank hits the ground
     // We can use this to apply additional forces if needed
@@ -544,12 +1296,50 @@ export class Game {
     }
   }
   
+  /**
+   * Trace where the loaded shell would land, for the range finder and, in third
+   * person, the aim arc
+   */
+  private updateAimAssist(tank: Tank): void {
+    if (tank.isDead()) {
+      this.aimArc.hide();
+      this.uiManager.updateRange(null);
+      return;
+    }
+    
+    const shell = SHELLS[tank.getShell()];
+    const origin = tank.getTurretPosition();
+    const velocity = tank.getTurretDirection().multiplyScalar(shell.speed);
+    const { points, impact } = traceTrajectory(
+      origin,
+      velocity,
+      shell,
+      (x, z) => this.worldManager.getTerrainHeightAt(x, z),
+      AIM_ARC_STEP
+    );
+    
+    this.uiManager.updateRange(impact ? origin.distanceTo(new THREE.Vector3(impact.x, impact.y, impact.z)) : null);
+    
+    if (this.cameraManager.getCameraMode() === CameraMode.THIRD_PERSON) {
+      this.aimArc.update(points, impact);
+    } else {
+      this.aimArc.hide();
+    }
+  }
+  
   private handlePlayerDeath(): void {
     if (!this.localPlayer) return;
     
     // Show game over screen
     document.getElementById('game-over')?.classList.add('active');
     
+    // The server won't take a respawn until the wreck has had time to cool down
+    const respawnButton = document.getElementById('respawn-button') as HTMLButtonElement | null;
+    if (respawnButton) {
+      respawnButton.disabled = true;
+      setTimeout(() => { respawnButton.disabled = false; }, RESPAWN_DELAY);
+    }
+    
     // Update stats
     document.getElementById('kills-count')!.textContent = this.gameState.playerKills.toString();
     document.getElementById('damage-dealt')!.textContent = this.localPlayer.getTank().getDamageDealt().toString();
@@ -575,13 +1365,15 @@ export class Game {
       const turretDirection = tank.getTurretDirection();
       
       // Create projectile
-      const projectileId = `projectile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const projectileId = `projectile_${this.networkManager.getServerTick()}_${Math.random().toString(36).substr(2, 9)}`;
+      const shell = tank.getShell();
       const projectile = new Projectile({
         id: projectileId,
         position: turretPosition,
         direction: turretDirection,
-        speed: 50,
-        damage: 20,
+        shell,
+        speed: SHELLS[shell].speed,
+        damage: SHELLS[shell].damage,
         ownerId: this.localPlayer.getId(),
         scene: this.scene,
         physicsWorld: this.physicsWorld
@@ -596,42 +1388,148 @@ export class Game {
       // Send projectile fired event to server
       this.networkManager.sendProjectileFired({
         id: projectileId,
-        position: turretPosition,
-        direction: turretDirection,
-        speed: 50,
-        damage: 20,
-        ownerId: this.localPlayer.getId()
+        shell,
+        position: this.toVectorData(turretPosition),
+        direction: this.toVectorData(turretDirection)
       });
       
       // Play sound
       this.audioManager.playSound('shot', 0.5);
       
       // Update UI
-      this.uiManager.updateAmmo(tank.getAmmo(), tank.getMaxAmmo());
+      this.updateAmmoDisplay(tank);
     }
   }
   
+  /**
+   * Load another shell type by its slot, 0 for the first
+   */
+  private handleSelectShellInput(slot: number): void {
+    const shell = SHELL_IDS[slot];
+    if (!this.localPlayer || !shell || this.localPlayer.getTank().isDead()) return;
+    
+    const tank = this.localPlayer.getTank();
+    tank.selectShell(shell);
+    this.updateAmmoDisplay(tank);
+  }
+  
+  private updateAmmoDisplay(tank: Tank): void {
+    this.uiManager.updateAmmo(tank.getShell(), tank.getAmmo(), tank.getMaxAmmo(), tank.getLoadout());
+  }
+  
   private handleToggleCameraInput(): void {
-    if (!this.localPlayer) return;
+    if (!this.localPlayer && !this.spectateTargetId) return;
     
     this.cameraManager.toggleCameraMode();
   }
   
+  private handleToggleFreeCameraInput(): void {
+    if (!this.isSpectating) return;
+    
+    this.spectateTargetId = null;
+    this.cameraManager.startFreeFly();
+    this.uiManager.updateSpectatorTarget(null);
+  }
+  
+  private handleScoreboardInput(visible: boolean): void {
+    if (!this.isRunning || !visible) {
+      this.uiManager.hideScoreboard();
+      return;
+    }
+    
+    const players = Array.from(this.roster.values());
+    if (this.localPlayer) {
+      players.unshift(`${this.localPlayer.getUsername()} (you)`);
+    }
+    
+    const spectators = this.networkManager.getRoom()?.members.filter(member => member.spectator).length ?? 0;
+    this.uiManager.showScoreboard(players, spectators);
+  }
+  
+  private startSpectating(): void {
+    this.isSpectating = true;
+    this.spectateTargetId = null;
+    
+    this.cameraManager.startFreeFly();
+    this.uiManager.setSpectating(true);
+    this.uiManager.updateSpectatorTarget(null);
+    
+    // The server starts sending us the match once we say we're watching
+    if (!this.replay) {
+      this.networkManager.sendSpectatorJoined();
+    }
+  }
+  
+  /**
+   * Follow the next (or previous) player's tank
+   */
+  private cycleSpectateTarget(direction: number): void {
+    if (!this.isSpectating) return;
+    
+    const ids = Array.from(this.gameState.players.keys());
+    if (ids.length === 0) {
+      this.handleToggleFreeCameraInput();
+      return;
+    }
+    
+    const index = this.spectateTargetId ? ids.indexOf(this.spectateTargetId) : -1;
+    const next = index === -1
+      ? (direction > 0 ? 0 : ids.length - 1)
+      : (index + direction + ids.length) % ids.length;
+    
+    const player = this.gameState.players.get(ids[next])!;
+    const tank = player.getTank();
+    const object = tank.getObject3D();
+    if (!object) return;
+    
+    this.spectateTargetId = ids[next];
+    this.cameraManager.followEntity(object, tank.getTurretObject() ?? undefined);
+    this.uiManager.updateSpectatorTarget(player.getUsername());
+  }
+  
+  private updateSpectatorCamera(delta: number): void {
+    // Move on when the tank we're following leaves the match
+    if (this.spectateTargetId && !this.gameState.players.has(this.spectateTargetId)) {
+      this.cycleSpectateTarget(1);
+    }
+    
+    const input = this.inputManager.getInput();
+    this.cameraManager.setFreeFlyInput({
+      forward: input.forward,
+      backward: input.backward,
+      left: input.left,
+      right: input.right,
+      yaw: -input.turretX,
+      pitch: -input.turretY
+    });
+    
+    this.cameraManager.update(delta);
+  }
+  
   private handleToggleChatInput(): void {
     this.uiManager.toggleChat();
   }
   
   private handleChatMessage(message: string): void {
-    if (!this.localPlayer) return;
+    // Spectators can chat too; offline there's nobody to talk to
+    if (!this.networkManager.isInRoom()) return;
     
-    // Send chat message to server
+    // Send chat message to server, which sends it back to us along with everyone else
     this.networkManager.sendChatMessage({
-      id: this.localPlayer.getId(),
-      username: this.localPlayer.getUsername(),
       message: message
     });
   }
   
+  private handleIncomingChatMessage(data: ChatMessage): void {
+    this.uiManager.addChatMessage(data, this.networkManager.getClientId());
+  }
+  
+  private handleChatHistory(data: ChatHistoryMessage): void {
+    // Joining a room starts the conversation over
+    this.uiManager.clearChat();
+    data.messages.forEach(message => this.uiManager.addChatMessage(message, this.networkManager.getClientId()));
+  }
+  
   private handleSettingChanged(data: any): void {
     // Handle settings changes from UI
     if (data.setting === 'invertMouseX') {
@@ -658,6 +1556,20 @@ export class Game {
     }
   }
   
+  /**
+   * Convert three.js vectors to plain protocol data
+   */
+  private toVectorData(vector: Vector3Data): Vector3Data {
+    return { x: vector.x, y: vector.y, z: vector.z };
+  }
+  
+  /**
+   * Euler instances don't serialize cleanly, so send plain angles over the network
+   */
+  private toRotationData(rotation: THREE.Euler): Vector3Data {
+    return { x: rotation.x, y: rotation.y, z: rotation.z };
+  }
+  
   /**
    * Get entities for minimap display
    */
@@ -665,11 +1577,14 @@ export class Game {
     const entities: any[] = [];
     
     // Add other players
+    const localTeam = this.localPlayer?.getTeam() ?? null;
     this.gameState.players.forEach(player => {
       if (player !== this.localPlayer) {
         entities.push({
           type: 'player',
-          position: player.getTank().getPosition()
+          position: player.getTank().getPosition(),
+          team: player.getTeam(),
+          ally: localTeam !== null && player.getTeam() === localTeam
         });
       }
     });
@@ -684,6 +1599,17 @@ export class Game {
       }
     });
     
+    // Add pickups waiting to be picked up
+    this.gameState.pickups.forEach(pickup => {
+      if (pickup.isActive()) {
+        entities.push({
+          type: 'pickup',
+          position: pickup.getPosition(),
+          pickup: pickup.getType()
+        });
+      }
+    });
+    
     // Add world objects (could be added later)
     
     return entities;
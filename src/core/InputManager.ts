@@ -1,6 +1,7 @@
 import { EventEmitter } from '../utils/EventEmitter';
 
-interface InputState {
+export interface InputState {
+  sequence: number;
   forward: boolean;
   backward: boolean;
   left: boolean;
@@ -9,6 +10,7 @@ interface InputState {
   turretY: number;
   fire: boolean;
   reload: boolean;
+  repair: boolean;
   toggleCamera: boolean;
   toggleChat: boolean;
 }
@@ -22,6 +24,7 @@ export class InputManager extends EventEmitter {
   private canvas: HTMLCanvasElement;
   private inputState: InputState;
   private isPointerLocked: boolean = false;
+  private inputSequence: number = 0;
   private settings: InputSettings = {
     invertMouseX: false,
     invertMouseY: false
@@ -32,6 +35,7 @@ export class InputManager extends EventEmitter {
     
     this.canvas = canvas;
     this.inputState = {
+      sequence: 0,
       forward: false,
       backward: false,
       left: false,
@@ -40,6 +44,7 @@ export class InputManager extends EventEmitter {
       turretY: 0,
       fire: false,
       reload: false,
+      repair: false,
       toggleCamera: false,
       toggleChat: false
     };
@@ -87,6 +92,9 @@ export class InputManager extends EventEmitter {
         this.inputState.reload = true;
         this.emit('reload');
         break;
+      case 'KeyX':
+        this.inputState.repair = true;
+        break;
       case 'KeyC':
         this.inputState.toggleCamera = true;
         this.emit('toggleCamera');
@@ -95,6 +103,26 @@ export class InputManager extends EventEmitter {
         this.inputState.toggleChat = true;
         this.emit('toggleChat');
         break;
+      case 'KeyQ':
+        this.emit('previousTarget');
+        break;
+      case 'KeyE':
+        this.emit('nextTarget');
+        break;
+      case 'KeyF':
+        this.emit('toggleFreeCamera');
+        break;
+      case 'Digit1':
+      case 'Digit2':
+      case 'Digit3':
+      case 'Digit4':
+        // Shell slots, in the order of shells.json
+        if (!event.repeat) this.emit('selectShell', Number(event.code.slice(-1)) - 1);
+        break;
+      case 'Tab':
+        event.preventDefault();
+        if (!event.repeat) this.emit('scoreboard', true);
+        break;
       case 'Escape':
         if (this.isPointerLocked) {
           document.exitPointerLock();
@@ -124,12 +152,18 @@ export class InputManager extends EventEmitter {
       case 'KeyR':
         this.inputState.reload = false;
         break;
+      case 'KeyX':
+        this.inputState.repair = false;
+        break;
       case 'KeyC':
         this.inputState.toggleCamera = false;
         break;
       case 'KeyT':
         this.inputState.toggleChat = false;
         break;
+      case 'Tab':
+        this.emit('scoreboard', false);
+        break;
     }
   }
   
@@ -288,12 +322,18 @@ export class InputManager extends EventEmitter {
     }
   }
   
+  /**
+   * Get a snapshot of the current input, stamped with a new sequence number
+   * so the server can acknowledge it
+   */
   public getInput(): InputState {
+    this.inputState.sequence = this.inputSequence++;
     return { ...this.inputState };
   }
   
   public resetInput(): void {
     this.inputState = {
+      sequence: this.inputState.sequence,
       forward: false,
       backward: false,
       left: false,
@@ -302,6 +342,7 @@ export class InputManager extends EventEmitter {
       turretY: this.inputState.turretY,
       fire: false,
       reload: false,
+      repair: false,
       toggleCamera: false,
       toggleChat: false
     };
@@ -0,0 +1,244 @@
+import { EventEmitter } from '../utils/EventEmitter';
+import { Replay, ReplayEvent } from '../../shared/ReplayFormat';
+import { SnapshotEntity, dequantizeEntity } from '../../shared/SnapshotCodec';
+import { PickupListMessage, PlayerJoinedMessage, RoomSettings, TeamScore } from '../../shared/protocol';
+import { angleDifference } from '../../shared/TankMovement';
+import { tickToTime } from '../../shared/SimulationClock';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+/**
+ * Plays back a recorded match in place of the network.
+ *
+ * A cursor moves along the replay's timeline (the server time it was recorded in),
+ * emitting each recorded event under its message name as it passes, just like
+ * NetworkManager would, and sampling tanks wherever it is.
+ * Seeking skips the events in between and emits 'seek' instead, so listeners can
+ * drop whatever they built up from them.
+ */
+export class ReplayPlayer extends EventEmitter {
+  private replay: Replay;
+  private startTime: number;
+  private endTime: number;
+  private time: number; // Server time being shown (ms)
+  private speed: number = 1;
+  private paused: boolean = false;
+  private nextEvent: number = 0; // Index of the first event not emitted yet
+  
+  constructor(replay: Replay) {
+    super();
+    
+    this.replay = replay;
+    
+    const { snapshots, events, header } = replay;
+    this.startTime = snapshots.length > 0 ? snapshots[0].timestamp : header.startedAt;
+    this.endTime = Math.max(
+      snapshots.length > 0 ? snapshots[snapshots.length - 1].timestamp : this.startTime,
+      events.length > 0 ? this.getEventTime(events[events.length - 1]) : this.startTime
+    );
+    this.time = this.startTime;
+  }
+  
+  public getRoom(): RoomSettings {
+    return this.replay.header.room;
+  }
+  
+  /**
+   * Time into the replay (ms)
+   */
+  public getTime(): number {
+    return this.time - this.startTime;
+  }
+  
+  public getDuration(): number {
+    return this.endTime - this.startTime;
+  }
+  
+  /**
+   * The server time the replay is showing, for anything stamped with it (ms)
+   */
+  public getServerTime(): number {
+    return this.time;
+  }
+  
+  public getSpeed(): number {
+    return this.speed;
+  }
+  
+  public setSpeed(speed: number): void {
+    this.speed = speed;
+  }
+  
+  public isPaused(): boolean {
+    return this.paused;
+  }
+  
+  public setPaused(paused: boolean): void {
+    // Playing from the end starts over
+    if (!paused && this.time >= this.endTime) {
+      this.seek(0);
+    }
+    
+    this.paused = paused;
+  }
+  
+  /**
+   * Move the cursor on by a frame, emitting the events it passes.
+   * Returns how much replay time went by (s).
+   */
+  public update(delta: number): number {
+    if (this.paused) return 0;
+    
+    const step = Math.min(delta * 1000 * this.speed, this.endTime - this.time);
+    this.time += step;
+    
+    const { events } = this.replay;
+    while (this.nextEvent < events.length && this.getEventTime(events[this.nextEvent]) <= this.time) {
+      const event = events[this.nextEvent++];
+      this.emit(event.type, event.data);
+    }
+    
+    if (this.time >= this.endTime) {
+      this.paused = true;
+    }
+    
+    return step / 1000;
+  }
+  
+  /**
+   * Jump to a time into the replay (ms)
+   */
+  public seek(time: number): void {
+    this.time = this.startTime + Math.max(0, Math.min(this.getDuration(), time));
+    
+    const { events } = this.replay;
+    const next = events.findIndex(event => this.getEventTime(event) > this.time);
+    this.nextEvent = next === -1 ? events.length : next;
+    
+    this.emit('seek');
+  }
+  
+  /**
+   * State of every tank at the cursor, interpolated between the snapshots either side
+   */
+  public sample(): SnapshotEntity[] {
+    const { snapshots } = this.replay;
+    const index = this.findSnapshot(this.time);
+    if (index === -1) return [];
+    
+    const from = snapshots[index];
+    const to = snapshots[index + 1];
+    const t = to ? (this.time - from.timestamp) / (to.timestamp - from.timestamp) : 0;
+    
+    return Array.from(from.entities.values(), entity => {
+      const state = dequantizeEntity(entity);
+      const next = to?.entities.get(entity.netId);
+      if (!next || t <= 0) return state;
+      
+      const target = dequantizeEntity(next);
+      return {
+        ...state,
+        position: {
+          x: state.position.x + (target.position.x - state.position.x) * t,
+          y: state.position.y + (target.position.y - state.position.y) * t,
+          z: state.position.z + (target.position.z - state.position.z) * t
+        },
+        heading: state.heading + angleDifference(target.heading, state.heading) * t,
+        turretRotation: state.turretRotation + angleDifference(target.turretRotation, state.turretRotation) * t
+      };
+    });
+  }
+  
+  /**
+   * Who was driving the tank with the given net ID at the cursor
+   */
+  public getPlayer(netId: number): PlayerJoinedMessage | undefined {
+    const { events } = this.replay;
+    
+    for (let i = this.nextEvent - 1; i >= 0; i--) {
+      const event = events[i];
+      if (event.type === 'playerJoined' && (event as ReplayEvent<'playerJoined'>).data.netId === netId) {
+        return (event as ReplayEvent<'playerJoined'>).data;
+      }
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * Usernames of everyone in the match at the cursor, by player ID
+   */
+  public getRoster(): Map<string, string> {
+    const roster = new Map<string, string>();
+    
+    this.replay.events.slice(0, this.nextEvent).forEach(event => {
+      if (event.type === 'playerJoined') {
+        const { id, username } = (event as ReplayEvent<'playerJoined'>).data;
+        roster.set(id, username);
+      } else if (event.type === 'playerLeft') {
+        roster.delete((event as ReplayEvent<'playerLeft'>).data.id);
+      }
+    });
+    
+    return roster;
+  }
+  
+  /**
+   * Kills each team had made at the cursor, empty in modes without teams
+   */
+  public getTeamScores(): TeamScore[] {
+    const { events } = this.replay;
+    
+    for (let i = this.nextEvent - 1; i >= 0; i--) {
+      const event = events[i];
+      if (event.type === 'roomUpdated') return (event as ReplayEvent<'roomUpdated'>).data.teamScores;
+    }
+    
+    return [];
+  }
+  
+  /**
+   * Pickups still waiting to respawn at the cursor
+   */
+  public getPickupList(): PickupListMessage {
+    const respawns = new Map<string, number>();
+    
+    this.replay.events.slice(0, this.nextEvent).forEach(event => {
+      if (event.type === 'pickupTaken') {
+        const { pickupId, respawnAt } = (event as ReplayEvent<'pickupTaken'>).data;
+        respawns.set(pickupId, respawnAt);
+      }
+    });
+    
+    return {
+      taken: Array.from(respawns, ([pickupId, respawnAt]) => ({ pickupId, respawnAt }))
+        .filter(pickup => pickup.respawnAt > this.time)
+    };
+  }
+  
+  private getEventTime(event: ReplayEvent): number {
+    return tickToTime(this.replay.header.startTick + event.tick);
+  }
+  
+  /**
+   * Index of the last snapshot taken at or before the time, or -1
+   */
+  private findSnapshot(time: number): number {
+    const { snapshots } = this.replay;
+    let low = 0;
+    let high = snapshots.length - 1;
+    let found = -1;
+    
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (snapshots[middle].timestamp <= time) {
+        found = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    
+    return found;
+  }
+}
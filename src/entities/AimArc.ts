@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import { Vector3Data } from '../../shared/protocol';
+
+// Most points the arc can show; a 5 second flight sampled every 0.05s fits
+const MAX_POINTS = 128;
+
+/**
+ * Dotted line along the path the loaded shell would take, ending in a marker
+ * where it would land. Shown in third person to lob shells over hills.
+ */
+export class AimArc {
+  private line: THREE.Line;
+  private marker: THREE.Mesh;
+  private positions: Float32Array;
+  
+  constructor(scene: THREE.Scene) {
+    this.positions = new Float32Array(MAX_POINTS * 3);
+    
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(this.positions, 3));
+    geometry.setDrawRange(0, 0);
+    
+    const material = new THREE.LineDashedMaterial({
+      color: 0xffcc00,
+      dashSize: 0.6,
+      gapSize: 0.4,
+      transparent: true,
+      opacity: 0.8
+    });
+    
+    this.line = new THREE.Line(geometry, material);
+    this.line.frustumCulled = false;
+    this.line.visible = false;
+    
+    this.marker = new THREE.Mesh(
+      new THREE.RingGeometry(0.8, 1.2, 24),
+      new THREE.MeshBasicMaterial({ color: 0xffcc00, side: THREE.DoubleSide, transparent: true, opacity: 0.8 })
+    );
+    this.marker.rotation.x = -Math.PI / 2;
+    this.marker.visible = false;
+    
+    scene.add(this.line);
+    scene.add(this.marker);
+  }
+  
+  /**
+   * Show the arc through the given points, with the marker at the impact if there is one
+   */
+  public update(points: Vector3Data[], impact: Vector3Data | null): void {
+    const count = Math.min(points.length, MAX_POINTS);
+    
+    for (let i = 0; i < count; i++) {
+      this.positions[i * 3] = points[i].x;
+      this.positions[i * 3 + 1] = points[i].y;
+      this.positions[i * 3 + 2] = points[i].z;
+    }
+    
+    const geometry = this.line.geometry;
+    geometry.setDrawRange(0, count);
+    geometry.attributes.position.needsUpdate = true;
+    this.line.computeLineDistances();
+    this.line.visible = count > 1;
+    
+    if (impact) {
+      // Just above the ground so it doesn't flicker into it
+      this.marker.position.set(impact.x, impact.y + 0.1, impact.z);
+    }
+    this.marker.visible = !!impact;
+  }
+  
+  public hide(): void {
+    this.line.visible = false;
+    this.marker.visible = false;
+  }
+}
@@ -0,0 +1,61 @@
+import * as THREE from 'three';
+
+interface NameplateOptions {
+  text: string;
+  color: number; // 0xRRGGBB
+}
+
+// Canvas size the label is drawn at, and the size it shows up in the world
+const CANVAS_WIDTH = 256;
+const CANVAS_HEIGHT = 64;
+const WORLD_WIDTH = 4;
+const HEIGHT_ABOVE_TANK = 3.5;
+
+/**
+ * A name floating over a tank, always facing the camera. Colored by team in
+ * team modes so allies and enemies can be told apart at a glance.
+ */
+export class Nameplate {
+  private sprite: THREE.Sprite;
+  private texture: THREE.CanvasTexture;
+  
+  constructor(options: NameplateOptions) {
+    const canvas = document.createElement('canvas');
+    canvas.width = CANVAS_WIDTH;
+    canvas.height = CANVAS_HEIGHT;
+    
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.font = 'bold 32px sans-serif';
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      context.lineWidth = 6;
+      context.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+      context.strokeText(options.text, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, CANVAS_WIDTH);
+      context.fillStyle = `#${options.color.toString(16).padStart(6, '0')}`;
+      context.fillText(options.text, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, CANVAS_WIDTH);
+    }
+    
+    this.texture = new THREE.CanvasTexture(canvas);
+    
+    // Drawn over the terrain and other tanks so it's never hidden
+    const material = new THREE.SpriteMaterial({ map: this.texture, depthTest: false, transparent: true });
+    this.sprite = new THREE.Sprite(material);
+    this.sprite.scale.set(WORLD_WIDTH, WORLD_WIDTH * CANVAS_HEIGHT / CANVAS_WIDTH, 1);
+    this.sprite.position.y = HEIGHT_ABOVE_TANK;
+    this.sprite.renderOrder = 1;
+  }
+  
+  /**
+   * Show the nameplate over a tank, following it around
+   */
+  public attachTo(object: THREE.Object3D): void {
+    object.add(this.sprite);
+  }
+  
+  public dispose(): void {
+    this.sprite.removeFromParent();
+    this.sprite.material.dispose();
+    this.texture.dispose();
+  }
+}
@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+import { Body, Sphere, Vec3 } from 'cannon-es';
+import { Entity } from './Entity';
+import { PickupSpawn, PickupType, PICKUPS, PICKUP_RADIUS } from '../../shared/Pickups';
+
+// Gentle spin and bob, so pickups stand out from the scenery
+const SPIN_SPEED = 1.5; // Radians per second
+const BOB_HEIGHT = 0.3;
+const BOB_SPEED = 2; // Radians per second
+
+interface PickupOptions {
+  spawn: PickupSpawn;
+  position: THREE.Vector3;
+}
+
+/**
+ * A pickup floating over one of the spawn points. Its body is a trigger: tanks
+ * drive straight through it, and the contact only tells us they did.
+ */
+export class Pickup extends Entity {
+  private type: PickupType;
+  private position: THREE.Vector3;
+  private respawnAt: number | null = null; // Server time (ms), while taken
+  private age: number = 0;
+  
+  constructor(options: PickupOptions) {
+    super(options.spawn.id);
+    
+    this.type = options.spawn.type;
+    this.position = options.position.clone();
+    
+    this.createPickupModel();
+    this.createPhysicsBody();
+  }
+  
+  private createPickupModel(): void {
+    const color = PICKUPS[this.type].color;
+    
+    const gem = new THREE.Mesh(
+      new THREE.OctahedronGeometry(0.8),
+      new THREE.MeshStandardMaterial({
+        color,
+        emissive: color,
+        emissiveIntensity: 0.5,
+        metalness: 0.3,
+        roughness: 0.3
+      })
+    );
+    
+    const ring = new THREE.Mesh(
+      new THREE.TorusGeometry(1.2, 0.08, 8, 32),
+      new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.7 })
+    );
+    ring.rotation.x = Math.PI / 2;
+    
+    const group = new THREE.Group();
+    group.add(gem);
+    group.add(ring);
+    group.position.copy(this.position);
+    
+    this.object3D = group;
+  }
+  
+  private createPhysicsBody(): void {
+    const body = new Body({
+      mass: 0, // Static body
+      position: new Vec3(this.position.x, this.position.y, this.position.z),
+      shape: new Sphere(PICKUP_RADIUS),
+      isTrigger: true
+    });
+    
+    // Set user data
+    body.userData = {
+      type: 'pickup',
+      id: this.id
+    };
+    
+    this.physicsBody = body;
+  }
+  
+  public update(delta: number): void {
+    this.age += delta;
+    
+    if (this.object3D) {
+      this.object3D.rotation.y = this.age * SPIN_SPEED;
+      this.object3D.position.y = this.position.y + Math.sin(this.age * BOB_SPEED) * BOB_HEIGHT;
+    }
+  }
+  
+  /**
+   * Hide the pickup until the given server time (ms)
+   */
+  public take(respawnAt: number): void {
+    this.respawnAt = respawnAt;
+    
+    if (this.object3D) {
+      this.object3D.visible = false;
+    }
+  }
+  
+  /**
+   * Bring the pickup back once its respawn time has come
+   */
+  public updateRespawn(now: number): void {
+    if (this.respawnAt === null || now < this.respawnAt) return;
+    
+    this.respawnAt = null;
+    
+    if (this.object3D) {
+      this.object3D.visible = true;
+    }
+  }
+  
+  /**
+   * Put the pickup back straight away, e.g. when a replay is scrubbed
+   */
+  public restore(): void {
+    this.updateRespawn(Infinity);
+  }
+  
+  public isActive(): boolean {
+    return this.respawnAt === null;
+  }
+  
+  public getType(): PickupType {
+    return this.type;
+  }
+  
+  public getPosition(): THREE.Vector3 {
+    return this.position.clone();
+  }
+}
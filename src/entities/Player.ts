@@ -1,32 +1,73 @@
 import { Entity } from './Entity';
 import { Tank } from './Tank';
+import { Nameplate } from './Nameplate';
 import * as THREE from 'three';
+import { InputState } from '../core/InputManager';
+import { PlayerStateMessage } from '../../shared/protocol';
+import { SnapshotBuffer, TankSnapshot } from '../network/SnapshotBuffer';
+import { InputPredictor } from '../network/InputPredictor';
+import { TeamId, TEAMS } from '../../shared/Teams';
 
 interface PlayerOptions {
   id: string;
   username: string;
   tank: Tank;
   isLocal: boolean;
+  team?: TeamId | null;
+  snapshots?: SnapshotBuffer;
 }
 
 export class Player extends Entity {
   private username: string;
   private tank: Tank;
   private isLocal: boolean;
+  private team: TeamId | null;
+  private nameplate: Nameplate | null = null;
   private score: number = 0;
   private kills: number = 0;
   private deaths: number = 0;
   
+  // Client-side prediction
+  private predictor: InputPredictor<InputState>;
+  private lastRecordedInput: number = -1;
+  private respawnInput: number = -1; // Newest input recorded before our last respawn
+  
+  // Snapshot interpolation for remote players
+  private snapshots: SnapshotBuffer | null;
+  
   constructor(options: PlayerOptions) {
     super(options.id);
     
     this.username = options.username;
     this.tank = options.tank;
     this.isLocal = options.isLocal;
+    this.team = options.team ?? null;
+    this.snapshots = options.snapshots || null;
+    
+    this.predictor = new InputPredictor<InputState>({
+      getPose: () => {
+        const position = this.tank.getPhysicsPosition();
+        return { x: position.x, z: position.z, heading: this.tank.getHeading() };
+      },
+      rewind: state => this.tank.applyServerState(state.position.x, state.position.z, state.heading, state.speed),
+      replay: (input, delta) => {
+        this.tank.controlWithInput(delta, input);
+        this.tank.integrate(delta);
+      }
+    });
     
     // Use tank's 3D object and physics body
     this.object3D = this.tank.getObject3D();
     this.physicsBody = this.tank.getPhysicsBody();
+    
+    // Label other tanks, in their team's color when there are teams
+    if (!this.isLocal && this.object3D) {
+      this.nameplate = new Nameplate({
+        text: this.username,
+        color: this.team ? TEAMS[this.team].color : 0xffffff
+      });
+      this.nameplate.attachTo(this.object3D);
+    }
   }
   
   public getUsername(): string {
@@ -37,6 +78,10 @@ export class Player extends Entity {
     return this.tank;
   }
   
+  public getTeam(): TeamId | null {
+    return this.team;
+  }
+  
   public isLocalPlayer(): boolean {
     return this.isLocal;
   }
@@ -62,16 +107,85 @@ export class Player extends Entity {
     this.deaths++;
   }
   
+  /**
+   * Remember an input applied locally so it can be replayed if the server corrects us.
+   * Call after the physics step so the recorded state is the predicted result.
+   */
+  public recordInput(input: InputState, delta: number): void {
+    this.lastRecordedInput = input.sequence;
+    this.predictor.record(input.sequence, input, delta);
+  }
+  
+  /**
+   * Reconcile the local tank with an authoritative server state, blending the
+   * visible tank over to wherever that puts it
+   */
+  public reconcile(state: PlayerStateMessage): void {
+    const before = this.tank.getPhysicsPosition();
+    
+    if (!this.predictor.reconcile(state)) return;
+    
+    const after = this.tank.getPhysicsPosition();
+    this.tank.addCorrectionOffset(new THREE.Vector3(before.x - after.x, 0, before.z - after.z));
+  }
+  
+  /**
+   * Start over with a fresh tank, forgetting unacknowledged inputs
+   */
+  public respawn(): void {
+    this.predictor.clear();
+    this.respawnInput = this.lastRecordedInput;
+  }
+  
+  /**
+   * Whether a server state was sampled before the server heard about our last
+   * respawn, and so still shows the tank we lost
+   */
+  public predatesRespawn(state: PlayerStateMessage): boolean {
+    return state.lastProcessedInput <= this.respawnInput;
+  }
+  
+  /**
+   * Queue a network state for a remote player
+   */
+  public addSnapshot(snapshot: TankSnapshot): void {
+    this.snapshots?.push(snapshot);
+  }
+  
+  /**
+   * Drop buffered network states, e.g. after a teleport
+   */
+  public clearSnapshots(): void {
+    this.snapshots?.clear();
+  }
+  
+  public getSnapshots(): SnapshotBuffer | null {
+    return this.snapshots;
+  }
+  
   public update(delta: number, input?: any): void {
     // Update tank
     if (this.isLocal && input) {
       this.tank.controlWithInput(delta, input);
     } else {
+      // Position remote tanks from interpolated snapshots
+      const state = !this.isLocal && this.snapshots ? this.snapshots.sample() : null;
+      if (state) {
+        this.tank.setKinematicState(
+          new THREE.Vector3(state.position.x, state.position.y, state.position.z),
+          state.heading,
+          new THREE.Vector3(state.velocity.x, state.velocity.y, state.velocity.z)
+        );
+        this.tank.setTurretRotation(state.turretRotation);
+      }
+      
       this.tank.update(delta);
     }
   }
   
   public dispose(): void {
+    this.nameplate?.dispose();
+    
     // Dispose tank resources
     this.tank.dispose();
     
@@ -1,41 +1,55 @@
 import * as THREE from 'three';
 import { Body, Vec3, Sphere } from 'cannon-es';
 import { Entity } from './Entity';
+import { ShellId, ShellDefinition, SHELLS } from '../../shared/Weapons';
+import { shellPosition, shellVelocity } from '../../shared/Ballistics';
 
 interface ProjectileOptions {
   id: string;
   position: THREE.Vector3;
   direction: THREE.Vector3;
+  shell: ShellId;
   speed: number;
   damage: number;
   ownerId: string;
   scene: THREE.Scene;
   physicsWorld: any;
+  age?: number; // Seconds the shot has already been flying
 }
 
 export class Projectile extends Entity {
   private position: THREE.Vector3;
   private direction: THREE.Vector3;
+  private origin: THREE.Vector3; // Where the shell left the barrel, or last glanced off armor
+  private shell: ShellId;
   private speed: number;
   private damage: number;
   private ownerId: string;
   private scene: THREE.Scene;
   private physicsWorld: any;
   
-  private lifeTime: number = 5; // Seconds
+  private lifeTime: number; // Seconds
   private age: number = 0;
   private radius: number = 0.2;
+  private hasHit: boolean = false;
   
   constructor(options: ProjectileOptions) {
     super(options.id);
     
     this.position = options.position.clone();
     this.direction = options.direction.normalize();
+    this.origin = this.position.clone();
+    this.shell = options.shell;
+    this.lifeTime = SHELLS[options.shell].lifetime;
     this.speed = options.speed;
     this.damage = options.damage;
     this.ownerId = options.ownerId;
     this.scene = options.scene;
     this.physicsWorld = options.physicsWorld;
+    this.age = options.age ?? 0;
+    
+    // A shot we heard about late starts where it would be by now
+    this.position.copy(this.getFlightPosition());
     
     // Create projectile 3D model
     this.createProjectileModel();
@@ -95,13 +109,11 @@ export class Projectile extends Entity {
     });
     
     // Set initial velocity
-    const velocity = new Vec3(
-      this.direction.x * this.speed,
-      this.direction.y * this.speed,
-      this.direction.z * this.speed
-    );
+    const velocity = shellVelocity(this.getLaunchVelocity(), this.getDefinition(), this.age);
+    body.velocity.set(velocity.x, velocity.y, velocity.z);
     
-    body.velocity.copy(velocity);
+    // The flight model does the slowing down, not the physics world
+    body.linearDamping = 0;
     
     // Set user data
     body.userData = {
@@ -119,6 +131,15 @@ export class Projectile extends Entity {
     // Update age
     this.age += delta;
     
+    // Keep the body on the shared flight path; the physics world only detects what it hits
+    if (this.physicsBody && !this.hasHit) {
+      const position = this.getFlightPosition();
+      const velocity = shellVelocity(this.getLaunchVelocity(), this.getDefinition(), this.age);
+      
+      this.physicsBody.position.set(position.x, position.y, position.z);
+      this.physicsBody.velocity.set(velocity.x, velocity.y, velocity.z);
+    }
+    
     // Update position and rotation from physics body
     if (this.physicsBody && this.object3D) {
       const position = this.physicsBody.position;
@@ -140,14 +161,59 @@ export class Projectile extends Entity {
     }
   }
   
+  private getDefinition(): ShellDefinition {
+    return SHELLS[this.shell];
+  }
+  
+  private getLaunchVelocity(): THREE.Vector3 {
+    return this.direction.clone().multiplyScalar(this.speed);
+  }
+  
+  /**
+   * Where the shell is along its flight path at its current age
+   */
+  private getFlightPosition(): THREE.Vector3 {
+    const position = shellPosition(this.origin, this.getLaunchVelocity(), this.getDefinition(), this.age);
+    return new THREE.Vector3(position.x, position.y, position.z);
+  }
+  
+  /**
+   * Velocity along the flight path at the shell's current age
+   */
+  public getVelocity(): THREE.Vector3 {
+    const velocity = shellVelocity(this.getLaunchVelocity(), this.getDefinition(), this.age);
+    return new THREE.Vector3(velocity.x, velocity.y, velocity.z);
+  }
+  
+  /**
+   * Glance off armor, flying on from the given point as if fired from there
+   */
+  public ricochet(position: THREE.Vector3, velocity: THREE.Vector3): void {
+    this.origin.copy(position);
+    this.speed = velocity.length();
+    this.direction.copy(velocity).normalize();
+    this.age = 0;
+  }
+  
   public isExpired(): boolean {
-    return this.age >= this.lifeTime;
+    return this.hasHit || this.age >= this.lifeTime;
+  }
+  
+  /**
+   * Mark the projectile as spent so it is removed on the next update
+   */
+  public markHit(): void {
+    this.hasHit = true;
   }
   
   public getOwnerId(): string {
     return this.ownerId;
   }
   
+  public getShell(): ShellId {
+    return this.shell;
+  }
+  
   public getDamage(): number {
     return this.damage;
   }
@@ -2,6 +2,22 @@ import * as THREE from 'three';
 import { Body, Vec3, Quaternion, Box, Cylinder, Sphere, Material } from 'cannon-es';
 import { Entity } from './Entity';
 import { AssetManager } from '../core/AssetManager';
+import { stepTankSpeed, getTurnRate, angleDifference, TANK_MOVEMENT, TankMovementParams } from '../../shared/TankMovement';
+import { WeaponDefinition, TANK_CANNON, ShellId, ShellLoadout, DEFAULT_SHELL, createLoadout } from '../../shared/Weapons';
+import {
+  TankModule,
+  ModuleHealth,
+  REPAIR_TIME,
+  BROKEN_TURRET_RING_SPEED,
+  BROKEN_GUN_RELOAD,
+  createModuleHealth,
+  getBrokenModules,
+  getMovementParams
+} from '../../shared/Modules';
+import { PickupType, SPEED_BOOST } from '../../shared/Pickups';
+
+// How quickly visual offsets left by server corrections fade out (per second)
+const CORRECTION_SMOOTHING = 10;
 
 interface TankOptions {
   assetManager: AssetManager;
@@ -32,19 +48,32 @@ export class Tank extends Entity {
   // Tank properties
   private health: number = 100;
   private maxHealth: number = 100;
-  private speed: number = 10;
-  private turnSpeed: number = 2;
+  private movement: TankMovementParams = { ...TANK_MOVEMENT };
   private turretTurnSpeed: number = 3;
   private turretRotation: number = 0;
   
-  // Weapon properties
-  private ammo: number = 5;
-  private maxAmmo: number = 5;
-  private reloadTime: number = 2;
+  // Weapon properties. The magazine holds rounds of the selected shell, which
+  // still count towards its stock in the loadout until fired.
+  private weapon: WeaponDefinition = TANK_CANNON;
+  private shell: ShellId = DEFAULT_SHELL;
+  private loadout: ShellLoadout = createLoadout();
+  private ammo: number = this.getCapacity();
   private isReloading: boolean = false;
   private reloadTimer: number = 0;
+  private fireCooldown: number = 0;
   private damageDealt: number = 0;
   
+  // Modules, which stop working once worn down until repaired
+  private moduleHealth: ModuleHealth = createModuleHealth();
+  private brokenModules: TankModule[] = [];
+  private repairTimer: number | null = null; // Seconds left, while repairing
+  
+  // Pickup effects under way -> seconds left
+  private effects: Map<PickupType, number> = new Map();
+  
+  // Visual offset left behind by server corrections, decayed every frame
+  private correctionOffset: THREE.Vector3 = new THREE.Vector3();
+  
   // Ground contact tracking
   private isGrounded: boolean = false;
   private lastGroundY: number = 0;
@@ -194,6 +223,13 @@ export class Tank extends Entity {
       sleepTimeLimit: 1 // Lower sleep time limit
     });
     
+    // Remote tanks are driven by network snapshots, not forces
+    if (!this.isLocal) {
+      body.type = Body.KINEMATIC;
+      body.mass = 0;
+      body.updateMassProperties();
+    }
+    
     // Create a wider, flatter base for better stability
     const tankShape = new Box(new Vec3(2.0, 0.4, 2.5));
     body.addShape(tankShape, new Vec3(0, 0, 0));
@@ -274,124 +310,126 @@ export class Tank extends Entity {
       this.object3D.position.set(position.x, position.y, position.z);
       this.object3D.quaternion.set(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
       
-      // Anti-sink mechanism: Apply upward force if sinking too much
-      if (this.isGrounded) {
-        // Reset grounded flag each frame (will be set again on collision)
-        this.isGrounded = false;
-        
-        // Apply a small downward force to ensure proper ground contact
-        this.physicsBody.applyLocalForce(
-          new Vec3(0, this.physicsBody.mass * 9.82 * -0.05, 0), // 5% additional gravity
-          new Vec3(0, 0, 0)
-        );
-        
-        // Completely stop vertical velocity if it's negative (falling)
-        if (this.physicsBody.velocity.y < 0) {
-          this.physicsBody.velocity.y = 0;
-        }
-        
-        // No need for additional impulses that might cause instability
+      // Blend out any correction from server reconciliation
+      if (this.correctionOffset.lengthSq() > 0.0001) {
+        this.object3D.position.add(this.correctionOffset);
+        this.correctionOffset.multiplyScalar(Math.exp(-CORRECTION_SMOOTHING * delta));
       } else {
-        // If not grounded, check if we're falling too fast
-        if (this.physicsBody.velocity.y < -10) {
-          this.physicsBody.velocity.y = -10; // Terminal velocity
-        }
-        
-        // Check if tank has fallen below a certain threshold
-        if (this.physicsBody.position.y < -20) {
-          // Reset position to above ground
-          this.reset(new THREE.Vector3(this.physicsBody.position.x, 5, this.physicsBody.position.z));
+        this.correctionOffset.set(0, 0, 0);
+      }
+      
+      // Anti-sink mechanism: Apply upward force if sinking too much
+      // (kinematic remote tanks are positioned from snapshots instead)
+      if (this.isLocal) {
+        if (this.isGrounded) {
+          // Reset grounded flag each frame (will be set again on collision)
+          this.isGrounded = false;
+          
+          // Apply a small downward force to ensure proper ground contact
+          this.physicsBody.applyLocalForce(
+            new Vec3(0, this.physicsBody.mass * 9.82 * -0.05, 0), // 5% additional gravity
+            new Vec3(0, 0, 0)
+          );
+          
+          // Completely stop vertical velocity if it's negative (falling)
+          if (this.physicsBody.velocity.y < 0) {
+            this.physicsBody.velocity.y = 0;
+          }
+          
+          // No need for additional impulses that might cause instability
+        } else {
+          // If not grounded, check if we're falling too fast
+          if (this.physicsBody.velocity.y < -10) {
+            this.physicsBody.velocity.y = -10; // Terminal velocity
+          }
+          
+          // Check if tank has fallen below a certain threshold
+          if (this.physicsBody.position.y < -20) {
+            // Reset position to above ground
+            this.reset(new THREE.Vector3(this.physicsBody.position.x, 5, this.physicsBody.position.z));
+          }
+          
+          // Apply a small additional downward force when not grounded
+          this.physicsBody.applyLocalForce(
+            new Vec3(0, -this.physicsBody.mass * 9.82 * 0.2, 0), // 20% additional gravity
+            new Vec3(0, 0, 0)
+          );
         }
-        
-        // Apply a small additional downward force when not grounded
-        this.physicsBody.applyLocalForce(
-          new Vec3(0, -this.physicsBody.mass * 9.82 * 0.2, 0), // 20% additional gravity
-          new Vec3(0, 0, 0)
-        );
       }
     }
     
-    // Update reload timer
+    // Update fire and reload timers
+    this.fireCooldown = Math.max(0, this.fireCooldown - delta);
+    
     if (this.isReloading) {
       this.reloadTimer += delta;
       
-      if (this.reloadTimer >= this.reloadTime) {
+      if (this.reloadTimer >= this.getReloadTime()) {
         this.isReloading = false;
         this.reloadTimer = 0;
-        this.ammo = this.maxAmmo;
+        this.ammo = this.getCapacity();
+      }
+    }
+    
+    if (this.repairTimer !== null) {
+      this.repairTimer -= delta;
+      
+      if (this.repairTimer <= 0) {
+        this.moduleHealth = createModuleHealth();
+        this.repairTimer = null;
+        this.updateBrokenModules();
       }
     }
+    
+    this.effects.forEach((timeLeft, effect) => {
+      if (timeLeft - delta > 0) {
+        this.effects.set(effect, timeLeft - delta);
+        return;
+      }
+      
+      this.effects.delete(effect);
+      if (effect === 'speed') this.updateMovement();
+    });
   }
   
   public controlWithInput(delta: number, input: any): void {
     if (!this.physicsBody || !this.object3D) return;
     
-    // Get current velocity
-    const velocity = this.physicsBody.velocity;
-    
-    // Get forward direction - positive Z is forward
-    const forward = new THREE.Vector3(0, 0, 1);
-    forward.applyQuaternion(this.object3D.quaternion);
+    // Drive along the hull heading using the shared movement model,
+    // so the server simulates the same result from our inputs
+    const heading = this.getHeading();
+    const speed = stepTankSpeed(this.getForwardSpeed(), input, delta, this.movement);
     
-    // Get right direction - positive X is right
-    const right = new THREE.Vector3(1, 0, 0);
-    right.applyQuaternion(this.object3D.quaternion);
+    this.physicsBody.velocity.x = Math.sin(heading) * speed;
+    this.physicsBody.velocity.z = Math.cos(heading) * speed;
     
-    // Reset forces
-    this.physicsBody.force.set(0, this.physicsBody.force.y, 0); // Keep vertical force
-    this.physicsBody.angularVelocity.set(0, 0, 0);
-    
-    // Apply movement forces
-    if (input.forward) {
-      this.physicsBody.force.x += forward.x * this.speed * 1000;
-      this.physicsBody.force.z += forward.z * this.speed * 1000;
-    }
-    
-    if (input.backward) {
-      this.physicsBody.force.x -= forward.x * this.speed * 1000 * 0.7; // Slower reverse
-      this.physicsBody.force.z -= forward.z * this.speed * 1000 * 0.7;
-    }
-    
-    // Apply turning forces
-    if (input.left) {
-      this.physicsBody.angularVelocity.y = this.turnSpeed;
-    }
-    
-    if (input.right) {
-      this.physicsBody.angularVelocity.y = -this.turnSpeed;
-    }
+    // Apply turning
+    this.physicsBody.angularVelocity.set(0, getTurnRate(input, this.movement), 0);
     
-    // Apply damping
-    this.physicsBody.linearDamping = 0.9;
+    // Horizontal damping is handled by the movement model
+    this.physicsBody.linearDamping = 0.01;
     this.physicsBody.angularDamping = 0.9;
     
-    // Limit horizontal velocity to prevent excessive speed
-    const horizontalVelocity = new Vec3(
-      this.physicsBody.velocity.x,
-      0,
-      this.physicsBody.velocity.z
-    );
-    
-    const maxSpeed = 20;
-    if (horizontalVelocity.length() > maxSpeed) {
-      horizontalVelocity.normalize();
-      horizontalVelocity.scale(maxSpeed, horizontalVelocity);
-      this.physicsBody.velocity.x = horizontalVelocity.x;
-      this.physicsBody.velocity.z = horizontalVelocity.z;
-    }
-    
-    // Update turret rotation
+    // Swing the turret towards where we're aiming, as fast as the turret ring allows
     if (this.tankTurret) {
-      this.turretRotation = input.turretX;
+      const turnSpeed = this.turretTurnSpeed * (this.isModuleBroken('turretRing') ? BROKEN_TURRET_RING_SPEED : 1);
+      const maxTurn = turnSpeed * delta;
+      const turn = angleDifference(input.turretX, this.turretRotation);
+      
+      this.turretRotation += Math.max(-maxTurn, Math.min(maxTurn, turn));
       this.tankTurret.rotation.y = this.turretRotation;
       this.tankTurret.rotation.x = input.turretY;
     }
     
     // Handle reload input
-    if (input.reload && !this.isReloading && this.ammo < this.maxAmmo) {
+    if (input.reload && !this.isReloading && this.ammo < this.getCapacity()) {
       this.startReload();
     }
     
+    if (input.repair) {
+      this.startRepair();
+    }
+    
     // Update velocity for network sync
     this.velocity.set(
       this.physicsBody.velocity.x,
@@ -400,13 +438,66 @@ export class Tank extends Entity {
     );
   }
   
+  /**
+   * Advance the physics body by its current velocity without stepping the physics world.
+   * Used to replay unacknowledged inputs after a server correction.
+   */
+  public integrate(delta: number): void {
+    if (!this.physicsBody) return;
+    
+    const body = this.physicsBody;
+    body.position.x += body.velocity.x * delta;
+    body.position.z += body.velocity.z * delta;
+    
+    // Turn the hull around the world up axis
+    const turn = new Quaternion().setFromAxisAngle(new Vec3(0, 1, 0), body.angularVelocity.y * delta);
+    body.quaternion.copy(turn.mult(body.quaternion));
+  }
+  
+  /**
+   * Snap the physics body to an authoritative horizontal state from the server
+   */
+  public applyServerState(x: number, z: number, heading: number, speed: number): void {
+    if (!this.physicsBody) return;
+    
+    const body = this.physicsBody;
+    const turn = new Quaternion().setFromAxisAngle(new Vec3(0, 1, 0), angleDifference(heading, this.getHeading()));
+    body.quaternion.copy(turn.mult(body.quaternion));
+    
+    body.position.x = x;
+    body.position.z = z;
+    body.velocity.x = Math.sin(heading) * speed;
+    body.velocity.z = Math.cos(heading) * speed;
+  }
+  
+  /**
+   * Move a kinematic (remote) tank to an interpolated network state
+   */
+  public setKinematicState(position: THREE.Vector3, heading: number, velocity: THREE.Vector3): void {
+    if (!this.physicsBody) return;
+    
+    this.physicsBody.position.set(position.x, position.y, position.z);
+    this.physicsBody.quaternion.setFromAxisAngle(new Vec3(0, 1, 0), heading);
+    this.physicsBody.velocity.set(velocity.x, velocity.y, velocity.z);
+    this.velocity.copy(velocity);
+  }
+  
+  /**
+   * Offset the rendered tank so a correction is blended in over a few frames instead of popping
+   */
+  public addCorrectionOffset(offset: THREE.Vector3): void {
+    this.correctionOffset.add(offset);
+  }
+  
   public fire(): boolean {
-    if (this.ammo <= 0 || this.isReloading) {
+    if (this.ammo <= 0 || this.isReloading || this.fireCooldown > 0) {
       return false;
     }
     
     // Decrease ammo
     this.ammo--;
+    this.loadout[this.shell]--;
+    this.fireCooldown = this.weapon.fireInterval;
     
     // Auto-reload when empty
     if (this.ammo <= 0) {
@@ -416,11 +507,110 @@ export class Tank extends Entity {
     return true;
   }
   
+  /**
+   * Switch to another shell, unloading the magazine to load it instead
+   */
+  public selectShell(shell: ShellId): void {
+    if (shell === this.shell) return;
+    
+    this.shell = shell;
+    this.ammo = 0;
+    this.isReloading = false;
+    this.startReload();
+  }
+  
   private startReload(): void {
+    // Nothing left to load
+    if (this.getCapacity() === 0) return;
+    
     this.isReloading = true;
     this.reloadTimer = 0;
   }
   
+  /**
+   * Rounds a reload puts in the magazine
+   */
+  private getCapacity(): number {
+    return Math.min(this.weapon.magazineSize, this.loadout[this.shell]);
+  }
+  
+  private getReloadTime(): number {
+    return this.weapon.reloadTime * (this.isModuleBroken('gun') ? BROKEN_GUN_RELOAD : 1);
+  }
+  
+  /**
+   * Wear a module down by the damage of a hit that got through to it
+   */
+  public damageModule(module: TankModule, amount: number): void {
+    this.moduleHealth[module] = Math.max(0, this.moduleHealth[module] - amount);
+    this.updateBrokenModules();
+  }
+  
+  /**
+   * Start fixing every broken module, unless already at it
+   */
+  public startRepair(): void {
+    if (this.repairTimer === null && this.brokenModules.length > 0) {
+      this.repairTimer = REPAIR_TIME;
+    }
+  }
+  
+  private updateBrokenModules(): void {
+    this.brokenModules = getBrokenModules(this.moduleHealth);
+    this.updateMovement();
+  }
+  
+  private updateMovement(): void {
+    this.movement = getMovementParams(this.brokenModules, this.hasEffect('speed') ? SPEED_BOOST : 1);
+  }
+  
+  public isModuleBroken(module: TankModule): boolean {
+    return this.brokenModules.includes(module);
+  }
+  
+  public getModuleHealth(): Readonly<ModuleHealth> {
+    return this.moduleHealth;
+  }
+  
+  /**
+   * Seconds until the repair under way is done, or null if there isn't one
+   */
+  public getRepairTimeLeft(): number | null {
+    return this.repairTimer;
+  }
+  
+  /**
+   * Start a pickup's effect, or start it over if it's already under way
+   */
+  public applyEffect(effect: PickupType, duration: number): void {
+    if (duration <= 0) return;
+    
+    this.effects.set(effect, duration);
+    if (effect === 'speed') this.updateMovement();
+  }
+  
+  public hasEffect(effect: PickupType): boolean {
+    return this.effects.has(effect);
+  }
+  
+  /**
+   * Pickup effects under way and the seconds each has left
+   */
+  public getEffects(): ReadonlyMap<PickupType, number> {
+    return this.effects;
+  }
+  
+  /**
+   * Fresh stock of every shell, topping up the magazine unless a reload is under way
+   */
+  public refillAmmo(): void {
+    this.loadout = createLoadout();
+    
+    if (!this.isReloading) {
+      this.ammo = this.getCapacity();
+    }
+  }
+  
   public damage(amount: number): void {
     this.health = Math.max(0, this.health - amount);
   }
@@ -436,9 +626,17 @@ export class Tank extends Entity {
   public reset(position?: THREE.Vector3): void {
     // Reset health and ammo
     this.health = this.maxHealth;
-    this.ammo = this.maxAmmo;
+    this.loadout = createLoadout();
+    this.ammo = this.getCapacity();
     this.isReloading = false;
     this.reloadTimer = 0;
+    this.fireCooldown = 0;
+    
+    // Fresh modules
+    this.moduleHealth = createModuleHealth();
+    this.repairTimer = null;
+    this.effects.clear();
+    this.updateBrokenModules();
     
     // Reset position if provided
     if (position && this.physicsBody && this.object3D) {
@@ -467,6 +665,39 @@ export class Tank extends Entity {
     return this.rotation.clone();
   }
   
+  /**
+   * Position of the physics body, without any visual correction offset
+   */
+  public getPhysicsPosition(): THREE.Vector3 {
+    if (this.physicsBody) {
+      const position = this.physicsBody.position;
+      return new THREE.Vector3(position.x, position.y, position.z);
+    }
+    return this.getPosition();
+  }
+  
+  /**
+   * Hull yaw around the world up axis, with 0 facing positive Z
+   */
+  public getHeading(): number {
+    if (this.physicsBody) {
+      const forward = this.physicsBody.quaternion.vmult(new Vec3(0, 0, 1));
+      return Math.atan2(forward.x, forward.z);
+    }
+    return this.rotation.y;
+  }
+  
+  /**
+   * Speed along the hull heading (negative when reversing)
+   */
+  public getForwardSpeed(): number {
+    if (!this.physicsBody) return 0;
+    
+    const heading = this.getHeading();
+    const velocity = this.physicsBody.velocity;
+    return velocity.x * Math.sin(heading) + velocity.z * Math.cos(heading);
+  }
+  
   public getTurretRotation(): number {
     return this.turretRotation;
   }
@@ -488,7 +719,15 @@ export class Tank extends Entity {
   }
   
   public getMaxAmmo(): number {
-    return this.maxAmmo;
+    return this.weapon.magazineSize;
+  }
+  
+  public getShell(): ShellId {
+    return this.shell;
+  }
+  
+  public getLoadout(): Readonly<ShellLoadout> {
+    return this.loadout;
   }
 
   
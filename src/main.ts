@@ -2,6 +2,16 @@ import './style.css';
 import { Game } from './core/Game';
 import { UIManager } from './ui/UIManager';
 import { AssetManager } from './core/AssetManager';
+import { NetworkManager, DEFAULT_SERVER_URL } from './network/NetworkManager';
+import { Transport } from './network/Transport';
+import { SocketIOTransport } from './network/SocketIOTransport';
+import { SimulatedNetwork } from './network/SimulatedNetwork';
+import { LocalServer } from './network/LocalServer';
+import { LobbyScreen } from './ui/LobbyScreen';
+import { ProfileScreen } from './ui/ProfileScreen';
+import { LeaderboardScreen } from './ui/LeaderboardScreen';
+import { RoomSettings } from '../shared/protocol';
+import { readReplay } from '../shared/ReplayFormat';
 
 // Initialize asset manager
 const assetManager = new AssetManager();
@@ -37,11 +47,72 @@ async function initGame() {
   loadingScreen.classList.add('hidden');
   document.getElementById('menu')?.classList.add('active');
 
+  // Optionally make the connection worse on purpose, for testing netcode
+  const simulatedNetwork = {
+    latency: Number(import.meta.env.VITE_SIMULATED_LATENCY) || 0,
+    jitter: Number(import.meta.env.VITE_SIMULATED_JITTER) || 0,
+    packetLoss: Number(import.meta.env.VITE_SIMULATED_LOSS) || 0
+  };
+  const simulate = (transport: Transport): Transport =>
+    simulatedNetwork.latency || simulatedNetwork.jitter || simulatedNetwork.packetLoss
+      ? new SimulatedNetwork(transport, simulatedNetwork)
+      : transport;
+
+  const serverUrl = import.meta.env.VITE_SERVER_URL || DEFAULT_SERVER_URL;
+  const createRemoteTransport = () => simulate(new SocketIOTransport(serverUrl, 5000));
+
+  // Offline play runs the server in the page instead
+  const localServer = new LocalServer();
+  let isOffline = false;
+
+  // The connection is shared by the lobby and the game
+  const networkManager = new NetworkManager({
+    serverUrl,
+    createTransport: createRemoteTransport
+  });
+
   // Create game instance
   const game = new Game({
     canvas: document.getElementById('game-canvas') as HTMLCanvasElement,
     assetManager,
-    uiManager
+    uiManager,
+    networkManager
+  });
+
+  // Create lobby
+  const lobby = new LobbyScreen(networkManager);
+
+  const startGame = (room?: RoomSettings, username?: string, startedAt?: number) => {
+    lobby.close();
+    document.getElementById('game-ui')?.classList.remove('hidden');
+    game.start(room, username, startedAt);
+  };
+
+  lobby.on('start', startGame);
+  const goOnline = () => {
+    if (!isOffline) return;
+
+    isOffline = false;
+    networkManager.setTransport(createRemoteTransport);
+    localServer.stop();
+  };
+
+  // Create the profile login, and log back in if we did before
+  const profileScreen = new ProfileScreen(networkManager, goOnline);
+  profileScreen.restore();
+
+  const leaderboard = new LeaderboardScreen(networkManager, goOnline);
+
+  lobby.on('playOffline', async () => {
+    isOffline = true;
+    await localServer.start();
+    networkManager.setTransport(() => simulate(localServer.createTransport()));
+    lobby.open();
+  });
+  lobby.on('back', () => {
+    lobby.close();
+    goOnline();
+    document.getElementById('menu')?.classList.add('active');
   });
 
   // Handle window resize
@@ -53,8 +124,10 @@ async function initGame() {
   document.getElementById('play-button')?.addEventListener('click', () => {
     document.getElementById('menu')?.classList.remove('active');
     document.getElementById('menu')?.classList.add('hidden');
-    document.getElementById('game-ui')?.classList.remove('hidden');
-    game.start();
+
+    // Always look for the real server first
+    goOnline();
+    lobby.open();
   });
 
   document.getElementById('customize-button')?.addEventListener('click', () => {
@@ -70,8 +143,33 @@ async function initGame() {
 
   document.getElementById('leaderboard-button')?.addEventListener('click', () => {
     document.getElementById('menu')?.classList.remove('active');
-    document.getElementById('leaderboard-screen')?.classList.add('active');
-    // TODO: Fetch leaderboard data
+    leaderboard.open();
+  });
+
+  // Replays are files the server saved, picked from disk
+  const replayFile = document.getElementById('replay-file') as HTMLInputElement | null;
+  const replayStatus = document.querySelector('.replay-status');
+
+  document.getElementById('replay-button')?.addEventListener('click', () => replayFile?.click());
+
+  replayFile?.addEventListener('change', async () => {
+    const file = replayFile.files?.[0];
+    replayFile.value = '';
+    if (!file) return;
+
+    try {
+      const replay = readReplay(await file.arrayBuffer());
+
+      if (replayStatus) replayStatus.textContent = '';
+      document.getElementById('menu')?.classList.remove('active');
+      document.getElementById('game-ui')?.classList.remove('hidden');
+      game.startReplay(replay);
+    } catch (error) {
+      console.error('Failed to load replay:', error);
+      if (replayStatus) {
+        replayStatus.textContent = `Can't play ${file.name}: ${error instanceof Error ? error.message : error}`;
+      }
+    }
   });
 
   // Back buttons
@@ -86,7 +184,7 @@ async function initGame() {
   });
 
   document.getElementById('back-from-leaderboard')?.addEventListener('click', () => {
-    document.getElementById('leaderboard-screen')?.classList.remove('active');
+    leaderboard.close();
     document.getElementById('menu')?.classList.add('active');
   });
 
@@ -102,6 +200,29 @@ async function initGame() {
     document.getElementById('menu')?.classList.add('active');
     game.stop();
   });
+
+  document.getElementById('match-over-menu-button')?.addEventListener('click', () => {
+    document.getElementById('match-over')?.classList.remove('active');
+    document.getElementById('game-ui')?.classList.add('hidden');
+    document.getElementById('menu')?.classList.add('active');
+    game.stop();
+  });
+
+  document.getElementById('stop-spectating-button')?.addEventListener('click', () => {
+    document.getElementById('game-ui')?.classList.add('hidden');
+    document.getElementById('menu')?.classList.add('active');
+    game.stop();
+  });
+
+  // Offered once a lost session can't be restored
+  document.getElementById('connection-menu-button')?.addEventListener('click', () => {
+    document.getElementById('connection-lost')?.classList.remove('active');
+    document.getElementById('game-over')?.classList.remove('active');
+    document.getElementById('match-over')?.classList.remove('active');
+    document.getElementById('game-ui')?.classList.add('hidden');
+    document.getElementById('menu')?.classList.add('active');
+    game.stop();
+  });
 }
 
 // Create procedural textures instead of loading them
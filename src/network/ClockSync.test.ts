@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { ClockSync } from './ClockSync';
+import { PongMessage } from '../../shared/protocol';
+import { TICK_INTERVAL } from '../../shared/SimulationClock';
+
+// The server's clock runs this far ahead of ours
+const SERVER_AHEAD = 5000; // ms
+
+/**
+ * A pong for a ping sent at the given local time, answered after the given
+ * delay on the way out
+ */
+function pong(sentAt: number, outbound: number): PongMessage {
+  return { id: 0, sentAt, serverTime: sentAt + outbound + SERVER_AHEAD, tickTime: 1 };
+}
+
+describe('ClockSync', () => {
+  it('reads the server clock from a round trip', () => {
+    const clock = new ClockSync();
+    expect(clock.isSynchronized()).toBe(false);
+
+    clock.addSample(pong(1000, 50), 1100);
+
+    expect(clock.isSynchronized()).toBe(true);
+    expect(clock.getOffset()).toBe(SERVER_AHEAD);
+    expect(clock.getServerTime(2000)).toBe(2000 + SERVER_AHEAD);
+    expect(clock.getServerTick(2000)).toBe(Math.floor((2000 + SERVER_AHEAD) / TICK_INTERVAL));
+  });
+
+  it('trusts the round trip that was held up least', () => {
+    const clock = new ClockSync();
+
+    // Held up for 300ms on the way back, which skews its estimate
+    clock.addSample(pong(1000, 50), 1400);
+    expect(clock.getOffset()).toBe(SERVER_AHEAD - 150);
+
+    clock.addSample(pong(2000, 20), 2040);
+    expect(clock.getOffset()).toBe(SERVER_AHEAD);
+
+    // A slower one later on doesn't replace it
+    clock.addSample(pong(3000, 10), 3200);
+    expect(clock.getOffset()).toBe(SERVER_AHEAD);
+  });
+
+  it('moves on from old samples', () => {
+    const clock = new ClockSync();
+    clock.addSample(pong(0, 5), 10);
+
+    for (let i = 1; i <= 8; i++) {
+      clock.addSample(pong(i * 1000, 100), i * 1000 + 300);
+    }
+
+    expect(clock.getOffset()).toBe(SERVER_AHEAD - 50);
+  });
+
+  it('never runs the server clock backwards', () => {
+    const clock = new ClockSync();
+    clock.addSample(pong(1000, 150), 1200);
+    expect(clock.getServerTime(1200)).toBe(1200 + SERVER_AHEAD + 50);
+
+    // A better estimate pulls the offset back, but time holds until it catches up
+    clock.addSample(pong(1200, 10), 1220);
+    expect(clock.getServerTime(1220)).toBe(1200 + SERVER_AHEAD + 50);
+    expect(clock.getServerTime(1300)).toBe(1300 + SERVER_AHEAD);
+
+    clock.reset();
+    expect(clock.isSynchronized()).toBe(false);
+  });
+
+  it('ignores pongs for pings from before a clock change', () => {
+    const clock = new ClockSync();
+    clock.addSample(pong(2000, 10), 1000);
+
+    expect(clock.isSynchronized()).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { PongMessage } from '../../shared/protocol';
+import { timeToTick } from '../../shared/SimulationClock';
+
+// Recent round trips the estimate is picked from
+const SAMPLE_WINDOW = 8;
+
+interface ClockSample {
+  offset: number; // Server time minus local time (ms)
+  rtt: number; // ms
+}
+
+/**
+ * Estimates the server's clock from ping round trips, NTP style.
+ *
+ * Each pong gives an offset assuming the reply took half the round trip. The
+ * sample with the shortest round trip was held up least along the way, so its
+ * offset is the one trusted.
+ */
+export class ClockSync {
+  private samples: ClockSample[] = [];
+  private offset: number = 0;
+  private lastServerTime: number = -Infinity;
+
+  public reset(): void {
+    this.samples = [];
+    this.offset = 0;
+    this.lastServerTime = -Infinity;
+  }
+
+  public addSample(pong: PongMessage, receivedAt: number = Date.now()): void {
+    const rtt = receivedAt - pong.sentAt;
+    if (rtt < 0) return;
+
+    this.samples.push({ offset: pong.serverTime + rtt / 2 - receivedAt, rtt });
+
+    if (this.samples.length > SAMPLE_WINDOW) {
+      this.samples.shift();
+    }
+
+    const best = this.samples.reduce((a, b) => (b.rtt < a.rtt ? b : a));
+    this.offset = best.offset;
+  }
+
+  /**
+   * Whether there has been a round trip to estimate from yet
+   */
+  public isSynchronized(): boolean {
+    return this.samples.length > 0;
+  }
+
+  public getOffset(): number {
+    return this.offset;
+  }
+
+  /**
+   * Current server time. Until the next reset it never runs backwards, even when
+   * a better estimate moves the offset back.
+   */
+  public getServerTime(now: number = Date.now()): number {
+    this.lastServerTime = Math.max(this.lastServerTime, now + this.offset);
+    return this.lastServerTime;
+  }
+
+  public getServerTick(now: number = Date.now()): number {
+    return timeToTick(this.getServerTime(now));
+  }
+}
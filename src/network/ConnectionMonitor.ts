@@ -0,0 +1,105 @@
+import { PingMessage } from '../../shared/protocol';
+
+export const PING_INTERVAL = 1000; // ms
+export const HEARTBEAT_TIMEOUT = 5000; // Silence after which the connection is considered dead (ms)
+
+// A ping without a pong after this long counts as lost
+const PING_TIMEOUT = 2000; // ms
+
+// Number of recent pings the loss estimate covers
+const LOSS_WINDOW = 20;
+
+// Smoothing factors from RFC 6298 (RTT) and RFC 3550 (jitter)
+const RTT_SMOOTHING = 1 / 8;
+const JITTER_SMOOTHING = 1 / 16;
+
+export interface ConnectionStats {
+  rtt: number; // Smoothed round trip time (ms)
+  jitter: number; // Smoothed RTT variation (ms)
+  packetLoss: number; // Fraction of recent pings that went unanswered
+}
+
+/**
+ * Measures connection quality from ping/pong round trips and notices when the
+ * server has gone quiet
+ */
+export class ConnectionMonitor {
+  private nextPingId: number = 0;
+  private pending: Map<number, number> = new Map(); // Ping ID -> sent time
+  private results: boolean[] = []; // Recent pings, true when answered
+  private rtt: number | null = null;
+  private lastRtt: number | null = null;
+  private jitter: number = 0;
+  private lastHeardAt: number = 0;
+
+  public reset(now: number = Date.now()): void {
+    this.pending.clear();
+    this.results = [];
+    this.rtt = null;
+    this.lastRtt = null;
+    this.jitter = 0;
+    this.lastHeardAt = now;
+  }
+
+  /**
+   * Create the next ping to send
+   */
+  public createPing(now: number = Date.now()): PingMessage {
+    this.expirePings(now);
+
+    const ping = { id: this.nextPingId++, sentAt: now };
+    this.pending.set(ping.id, ping.sentAt);
+    return ping;
+  }
+
+  public handlePong(pong: PingMessage, now: number = Date.now()): void {
+    this.lastHeardAt = now;
+
+    // Late pongs were already counted as lost
+    if (!this.pending.delete(pong.id)) return;
+
+    const sample = now - pong.sentAt;
+    this.rtt = this.rtt === null ? sample : this.rtt + (sample - this.rtt) * RTT_SMOOTHING;
+
+    if (this.lastRtt !== null) {
+      this.jitter += (Math.abs(sample - this.lastRtt) - this.jitter) * JITTER_SMOOTHING;
+    }
+    this.lastRtt = sample;
+
+    this.recordResult(true);
+  }
+
+  /**
+   * Whether nothing has been heard from the server for too long
+   */
+  public isTimedOut(now: number = Date.now()): boolean {
+    return now - this.lastHeardAt > HEARTBEAT_TIMEOUT;
+  }
+
+  public getStats(): ConnectionStats {
+    const lost = this.results.filter(answered => !answered).length;
+
+    return {
+      rtt: this.rtt ?? 0,
+      jitter: this.jitter,
+      packetLoss: this.results.length > 0 ? lost / this.results.length : 0
+    };
+  }
+
+  private expirePings(now: number): void {
+    this.pending.forEach((sentAt, id) => {
+      if (now - sentAt > PING_TIMEOUT) {
+        this.pending.delete(id);
+        this.recordResult(false);
+      }
+    });
+  }
+
+  private recordResult(answered: boolean): void {
+    this.results.push(answered);
+
+    if (this.results.length > LOSS_WINDOW) {
+      this.results.shift();
+    }
+  }
+}
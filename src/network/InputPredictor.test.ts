@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { InputPredictor } from './InputPredictor';
+import { PlayerStateMessage } from '../../shared/protocol';
+import { MovementInput, TankMovementState, stepTankMovement } from '../../shared/TankMovement';
+
+const FORWARD: MovementInput = { forward: true, backward: false, left: false, right: false };
+const DELTA = 1 / 60; // s
+
+/**
+ * A tank driven by the shared movement model, predicted the way the bots do it
+ */
+function createTank() {
+  const tank = {
+    state: { x: 0, z: 0, heading: 0, speed: 0 } as TankMovementState,
+    replayed: 0
+  };
+
+  const predictor = new InputPredictor<MovementInput>({
+    getPose: () => tank.state,
+    rewind: (state) => {
+      tank.state = { x: state.position.x, z: state.position.z, heading: state.heading, speed: state.speed };
+    },
+    replay: (input, delta) => {
+      tank.state = stepTankMovement(tank.state, input, delta);
+      tank.replayed++;
+    }
+  });
+
+  // Drive forward, recording each input the way it would be sent
+  const drive = (from: number, count: number): TankMovementState[] => {
+    const states: TankMovementState[] = [];
+    for (let sequence = from; sequence < from + count; sequence++) {
+      tank.state = stepTankMovement(tank.state, FORWARD, DELTA);
+      predictor.record(sequence, FORWARD, DELTA);
+      states.push(tank.state);
+    }
+    return states;
+  };
+
+  return { tank, predictor, drive };
+}
+
+function serverState(state: TankMovementState, lastProcessedInput: number): PlayerStateMessage {
+  return {
+    position: { x: state.x, y: 0, z: state.z },
+    heading: state.heading,
+    speed: state.speed,
+    lastProcessedInput,
+    health: 100,
+    dead: false
+  };
+}
+
+describe('InputPredictor', () => {
+  it('leaves a prediction the server agrees with alone', () => {
+    const { tank, predictor, drive } = createTank();
+    const states = drive(0, 10);
+
+    expect(predictor.reconcile(serverState(states[4], 4))).toBe(false);
+    expect(tank.replayed).toBe(0);
+    expect(tank.state).toEqual(states[9]);
+  });
+
+  it('rewinds to the server state and replays what it has not seen yet', () => {
+    const { tank, predictor, drive } = createTank();
+    const states = drive(0, 10);
+
+    // The server had us a unit to the side after input 4
+    const corrected = { ...states[4], x: states[4].x + 1 };
+    expect(predictor.reconcile(serverState(corrected, 4))).toBe(true);
+
+    expect(tank.replayed).toBe(5);
+    expect(tank.state.x).toBeCloseTo(states[9].x + 1);
+    expect(tank.state.z).toBeCloseTo(states[9].z);
+  });
+
+  it('checks later states against the replayed prediction', () => {
+    const { tank, predictor, drive } = createTank();
+    const states = drive(0, 10);
+
+    predictor.reconcile(serverState({ ...states[4], x: states[4].x + 1 }, 4));
+    tank.replayed = 0;
+
+    // The server carries on from its correction, which is now what we predicted
+    expect(predictor.reconcile(serverState({ ...states[6], x: states[6].x + 1 }, 6))).toBe(false);
+    expect(tank.replayed).toBe(0);
+  });
+
+  it('does nothing with states for inputs it no longer has', () => {
+    const { tank, predictor, drive } = createTank();
+    drive(0, 5);
+    predictor.clear();
+    drive(5, 5);
+
+    expect(predictor.reconcile(serverState({ x: 50, z: 50, heading: 0, speed: 0 }, 2))).toBe(false);
+    expect(tank.replayed).toBe(0);
+  });
+});
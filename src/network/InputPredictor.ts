@@ -0,0 +1,99 @@
+import { PlayerStateMessage } from '../../shared/protocol';
+import { angleDifference } from '../../shared/TankMovement';
+
+// Prediction errors smaller than this are left alone
+const RECONCILE_POSITION_THRESHOLD = 0.05;
+const RECONCILE_HEADING_THRESHOLD = 0.01;
+
+// Upper bound on unacknowledged inputs kept for replay (about 2 seconds at 60 FPS)
+const MAX_PENDING_INPUTS = 120;
+
+/**
+ * Where a tank is on the horizontal plane, the part of its state the server checks
+ */
+export interface PredictedPose {
+  x: number;
+  z: number;
+  heading: number;
+}
+
+/**
+ * The tank being predicted, which can be put back to a server state and driven
+ * forward again input by input
+ */
+export interface PredictedTank<I> {
+  getPose(): PredictedPose;
+  rewind(state: PlayerStateMessage): void;
+  replay(input: I, delta: number): void;
+}
+
+/**
+ * An input the server hasn't acknowledged yet, with where we predicted it took us
+ */
+interface PendingInput<I> {
+  sequence: number;
+  input: I;
+  delta: number;
+  pose: PredictedPose;
+}
+
+/**
+ * Client-side prediction of the local tank, shared by the game's Player and the
+ * load test bots so both reconcile with the server the same way.
+ */
+export class InputPredictor<I> {
+  private tank: PredictedTank<I>;
+  private pendingInputs: PendingInput<I>[] = [];
+
+  constructor(tank: PredictedTank<I>) {
+    this.tank = tank;
+  }
+
+  /**
+   * Remember an input applied locally so it can be replayed if the server corrects us.
+   * Call after applying it, so the recorded pose is the predicted result.
+   */
+  public record(sequence: number, input: I, delta: number): void {
+    this.pendingInputs.push({ sequence, input, delta, pose: { ...this.tank.getPose() } });
+
+    if (this.pendingInputs.length > MAX_PENDING_INPUTS) {
+      this.pendingInputs.shift();
+    }
+  }
+
+  /**
+   * Reconcile with an authoritative server state. Acknowledged inputs are dropped;
+   * if our prediction for the acknowledged input was off, rewind to the server state
+   * and replay the inputs it hasn't seen yet. Returns whether the tank was moved.
+   */
+  public reconcile(state: PlayerStateMessage): boolean {
+    let acknowledged: PendingInput<I> | undefined;
+
+    while (this.pendingInputs.length > 0 && this.pendingInputs[0].sequence <= state.lastProcessedInput) {
+      acknowledged = this.pendingInputs.shift();
+    }
+
+    if (!acknowledged || acknowledged.sequence !== state.lastProcessedInput) return false;
+
+    const positionError = Math.hypot(acknowledged.pose.x - state.position.x, acknowledged.pose.z - state.position.z);
+    const headingError = Math.abs(angleDifference(acknowledged.pose.heading, state.heading));
+
+    if (positionError < RECONCILE_POSITION_THRESHOLD && headingError < RECONCILE_HEADING_THRESHOLD) return false;
+
+    this.tank.rewind(state);
+
+    this.pendingInputs.forEach(pending => {
+      this.tank.replay(pending.input, pending.delta);
+      pending.pose = { ...this.tank.getPose() };
+    });
+
+    return true;
+  }
+
+  /**
+   * Forget unacknowledged inputs, e.g. after a respawn
+   */
+  public clear(): void {
+    this.pendingInputs = [];
+  }
+}
@@ -0,0 +1,35 @@
+import { GameServer } from '../../server/src/GameServer';
+import { LoopbackServerTransport } from '../../server/src/LoopbackServerTransport';
+import { LoopbackTransport } from './LoopbackTransport';
+import { Transport } from './Transport';
+
+/**
+ * The game server running inside the page, for playing without a network.
+ * Clients reach it through loopback transports, so the game behaves exactly
+ * as it does against a remote server.
+ */
+export class LocalServer {
+  private transport: LoopbackServerTransport = new LoopbackServerTransport();
+  private server: GameServer = new GameServer({ transport: this.transport });
+  private isRunning: boolean = false;
+
+  public async start(): Promise<void> {
+    if (this.isRunning) return;
+
+    await this.server.start();
+    this.isRunning = true;
+    console.log('Local server started');
+  }
+
+  public async stop(): Promise<void> {
+    if (!this.isRunning) return;
+
+    await this.server.stop();
+    this.isRunning = false;
+    console.log('Local server stopped');
+  }
+
+  public createTransport(): Transport {
+    return new LoopbackTransport(this.transport);
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LoopbackTransport } from './LoopbackTransport';
+import { LoopbackServerTransport } from '../../server/src/LoopbackServerTransport';
+import { ServerConnection } from '../../server/src/ServerTransport';
+
+describe('LoopbackTransport', () => {
+  let server: LoopbackServerTransport;
+  let connections: ServerConnection[];
+
+  /**
+   * Open a client to the server, resolving once it's connected
+   */
+  async function open(): Promise<LoopbackTransport> {
+    const transport = new LoopbackTransport(server);
+    const opened = new Promise(resolve => transport.on('open', resolve));
+
+    transport.open();
+    await opened;
+    return transport;
+  }
+
+  beforeEach(async () => {
+    server = new LoopbackServerTransport();
+    connections = [];
+
+    // Echo chat back to whoever sent it
+    server.onConnection(connection => {
+      connections.push(connection);
+      connection.on('chatMessage', (data, tick) => {
+        const { message } = data as { message: string };
+        connection.emit('chatMessage', { username: 'echo', message, timestamp: tick as number, channel: 'all' });
+      });
+    });
+
+    await server.start();
+  });
+
+  it('carries messages both ways, later and as copies', async () => {
+    const transport = await open();
+    let arrived = false;
+    const received = new Promise<unknown[]>(resolve => {
+      transport.on('message', (...args: unknown[]) => {
+        arrived = true;
+        resolve(args);
+      });
+    });
+
+    const request = { message: 'hello' };
+    transport.send('chatMessage', request, 42);
+
+    // Nothing arrives straight away, and changing what was sent doesn't change what arrives
+    request.message = 'changed';
+    expect(arrived).toBe(false);
+
+    const [event, data] = await received;
+    expect(event).toBe('chatMessage');
+    expect(data).toEqual({ username: 'echo', message: 'hello', timestamp: 42, channel: 'all' });
+  });
+
+  it('fails to open while the server is down', async () => {
+    await server.stop();
+
+    const transport = new LoopbackTransport(server);
+    const failed = new Promise<Error>(resolve => transport.on('error', resolve));
+    transport.open();
+
+    expect((await failed).message).toBe('Local server is not running');
+  });
+
+  it('tells each side when the other hangs up', async () => {
+    const client = await open();
+    const serverClosed = new Promise<unknown[]>(resolve => {
+      connections[0].onDisconnect((...args) => resolve(args));
+    });
+    client.close();
+    expect(await serverClosed).toEqual(['client disconnect', true]);
+
+    const other = await open();
+    const clientClosed = new Promise<unknown[]>(resolve => {
+      other.on('close', (...args: unknown[]) => resolve(args));
+    });
+    await server.stop();
+    expect(await clientClosed).toEqual(['server disconnect', true]);
+  });
+});
@@ -0,0 +1,51 @@
+import { EventEmitter } from '../utils/EventEmitter';
+import { Transport } from './Transport';
+import { ClientMessages, ClientMessageType } from '../../shared/protocol';
+import {
+  LoopbackServerTransport,
+  LoopbackConnection,
+  LoopbackClient
+} from '../../server/src/LoopbackServerTransport';
+
+/**
+ * Talks to a game server running in the same page
+ */
+export class LoopbackTransport extends EventEmitter implements Transport, LoopbackClient {
+  private server: LoopbackServerTransport;
+  private connection: LoopbackConnection | null = null;
+
+  constructor(server: LoopbackServerTransport) {
+    super();
+
+    this.server = server;
+  }
+
+  public open(): void {
+    try {
+      this.connection = this.server.connect(this);
+      setTimeout(() => this.emit('open'), 0);
+    } catch (error) {
+      setTimeout(() => this.emit('error', error), 0);
+    }
+  }
+
+  public close(): void {
+    if (!this.connection) return;
+
+    this.connection.close('client disconnect', true);
+    this.connection = null;
+  }
+
+  public send<K extends ClientMessageType>(event: K, data: ClientMessages[K], tick: number): void {
+    this.connection?.send(event, data, tick);
+  }
+
+  public receive(event: string, data: unknown, tick: number): void {
+    this.emit('message', event, data, tick);
+  }
+
+  public closed(reason: string, intentional: boolean): void {
+    this.connection = null;
+    this.emit('close', reason, intentional);
+  }
+}
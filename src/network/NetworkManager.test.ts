@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { NetworkManager } from './NetworkManager';
+import { LoopbackTransport } from './LoopbackTransport';
+import { GameServer } from '../../server/src/GameServer';
+import { LoopbackServerTransport } from '../../server/src/LoopbackServerTransport';
+import { ChatMessage, PlayerJoinedMessage, RoomInfo, ServerMessages } from '../../shared/protocol';
+import { MAP_SIZE, SPAWN_MARGIN, RESPAWN_DELAY } from '../../shared/Spawns';
+
+// Keeps tests from waiting out the usual countdown before a match starts
+const COUNTDOWN_DURATION = 0.1; // Seconds
+
+/**
+ * Resolve with the next message of the given type the client receives
+ */
+function next<K extends keyof ServerMessages>(network: NetworkManager, event: K): Promise<ServerMessages[K]> {
+  return new Promise(resolve => network.once(event, resolve));
+}
+
+describe('NetworkManager against a loopback GameServer', () => {
+  let transport: LoopbackServerTransport;
+  let server: GameServer;
+  let clients: NetworkManager[];
+  let links: Map<NetworkManager, LoopbackTransport>; // Each client's current connection
+
+  async function connect(): Promise<NetworkManager> {
+    const network = new NetworkManager({
+      createTransport: () => {
+        const link = new LoopbackTransport(transport);
+        links.set(network, link);
+        return link;
+      }
+    });
+    clients.push(network);
+
+    await network.connect();
+    return network;
+  }
+
+  /**
+   * Connect two clients and put them in the same room
+   */
+  async function joinRoom(): Promise<{ alice: NetworkManager; bob: NetworkManager; room: RoomInfo }> {
+    const alice = await connect();
+    const bob = await connect();
+
+    const aliceJoined = next(alice, 'roomJoined');
+    alice.createRoom({ name: 'Test room', username: 'alice', maxPlayers: 4, mode: 'deathmatch', friendlyFire: false });
+    const { room } = await aliceJoined;
+
+    const bobJoined = next(bob, 'roomJoined');
+    bob.joinRoom({ roomId: room.id, username: 'bob' });
+    await bobJoined;
+
+    return { alice, bob, room };
+  }
+
+  beforeEach(async () => {
+    transport = new LoopbackServerTransport();
+    server = new GameServer({ transport, countdownDuration: COUNTDOWN_DURATION });
+    clients = [];
+    links = new Map();
+
+    await server.start();
+  });
+
+  afterEach(async () => {
+    clients.forEach(network => network.disconnect());
+    await server.stop();
+  });
+
+  it('connects and is given an ID by the server', async () => {
+    const network = await connect();
+
+    expect(network.isConnectedToServer()).toBe(true);
+    expect(network.getClientId()).not.toBe('');
+  });
+
+  it('joins a room another client created', async () => {
+    const { alice, bob, room } = await joinRoom();
+
+    expect(alice.getRoom()?.id).toBe(room.id);
+    expect(bob.getRoom()?.id).toBe(room.id);
+    expect(server.getRoom(room.id)?.hasMember(bob.getClientId())).toBe(true);
+
+    // The room update went out to Alice before Bob's join was confirmed
+    expect(alice.getRoom()?.members.map(member => member.username).sort()).toEqual(['alice', 'bob']);
+  });
+
+  it('relays chat to the rest of the room', async () => {
+    const { alice, bob } = await joinRoom();
+
+    const received = next(bob, 'chatMessage');
+    alice.sendChatMessage({ message: 'hello' });
+
+    const message: ChatMessage = await received;
+    expect(message).toMatchObject({ id: alice.getClientId(), username: 'alice', message: 'hello', channel: 'all' });
+  });
+
+  it('relays a spawn to players already in the match', async () => {
+    const { alice, bob } = await joinRoom();
+
+    const started = Promise.all([next(alice, 'matchStarted'), next(bob, 'matchStarted')]);
+    alice.setReady(true);
+    bob.setReady(true);
+    await started;
+
+    const bobSpawned = next(bob, 'playerList');
+    bob.sendPlayerJoined({
+      username: 'bob',
+      position: { x: 0, y: 2, z: 0 },
+      rotation: { x: 0, y: 0, z: 0 },
+      color: 0x0000ff
+    });
+    await bobSpawned;
+
+    // Alice asks to spawn off the edge of the map, and is put back on it
+    const aliceSpawned: Promise<PlayerJoinedMessage> = next(bob, 'playerJoined');
+    alice.sendPlayerJoined({
+      username: 'alice',
+      position: { x: 5000, y: 2, z: 10 },
+      rotation: { x: 0, y: 0, z: 0 },
+      color: 0xff0000
+    });
+
+    const joined = await aliceSpawned;
+    expect(joined.id).toBe(alice.getClientId());
+    expect(joined.username).toBe('alice');
+    expect(joined.position).toEqual({ x: MAP_SIZE / 2 - SPAWN_MARGIN, y: 2, z: 10 });
+  });
+
+  it('holds respawns to the respawn delay', async () => {
+    const { alice, bob, room } = await joinRoom();
+
+    const started = Promise.all([next(alice, 'matchStarted'), next(bob, 'matchStarted')]);
+    alice.setReady(true);
+    bob.setReady(true);
+    await started;
+
+    const spawned = Promise.all([next(alice, 'playerList'), next(bob, 'playerList')]);
+    [alice, bob].forEach(network => network.sendPlayerJoined({
+      username: network === alice ? 'alice' : 'bob',
+      position: { x: 0, y: 2, z: 0 },
+      rotation: { x: 0, y: 0, z: 0 },
+      color: 0xff0000
+    }));
+    await spawned;
+
+    // Alice has only just been killed, so can't come back yet
+    const tank = server.getRoom(room.id)!.getPlayer(alice.getClientId())!;
+    tank.health = 0;
+    tank.diedAt = Date.now();
+
+    const respawn = { position: { x: 10, y: 2, z: 10 }, rotation: { x: 0, y: 0, z: 0 } };
+    alice.sendPlayerRespawned(respawn);
+
+    // Messages are handled in order, so once Bob has the chat the respawn was turned down
+    const chatted = next(bob, 'chatMessage');
+    alice.sendChatMessage({ message: 'still dead' });
+    await chatted;
+    expect(tank.health).toBe(0);
+
+    // Once the delay has passed it goes through
+    tank.diedAt = Date.now() - RESPAWN_DELAY;
+    const respawned = next(bob, 'playerRespawned');
+    alice.sendPlayerRespawned(respawn);
+
+    expect(await respawned).toEqual({ id: alice.getClientId(), ...respawn });
+    expect(tank.health).toBe(tank.maxHealth);
+  });
+
+  it('learns how its tank fared while its session was dropped', async () => {
+    const { alice, bob, room } = await joinRoom();
+
+    const started = Promise.all([next(alice, 'matchStarted'), next(bob, 'matchStarted')]);
+    alice.setReady(true);
+    bob.setReady(true);
+    await started;
+
+    const spawned = next(alice, 'playerList');
+    alice.sendPlayerJoined({
+      username: 'alice',
+      position: { x: 0, y: 2, z: 0 },
+      rotation: { x: 0, y: 0, z: 0 },
+      color: 0xff0000
+    });
+    await spawned;
+
+    // The connection drops without either side hanging up, and the tank is killed meanwhile
+    const reconnected = new Promise(resolve => alice.once('reconnected', resolve));
+    links.get(alice)!.closed('connection lost', false);
+    server.getRoom(room.id)!.getPlayer(alice.getClientId())!.health = 0;
+    await reconnected;
+
+    const state = await next(alice, 'playerState');
+    expect(state.health).toBe(0);
+    expect(state.dead).toBe(true);
+  });
+});
@@ -1,244 +1,691 @@
-import { io, Socket } from 'socket.io-client';
 import { EventEmitter } from '../utils/EventEmitter';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  PROTOCOL_VERSION,
+  ClientMessages,
+  ClientMessageType,
+  ServerMessages,
+  ServerMessageType,
+  WelcomeMessage,
+  PlayerProfile,
+  UpdateProfileRequest,
+  LeaderboardRequest,
+  RoomInfo,
+  CreateRoomRequest,
+  JoinRoomRequest,
+  PlayerJoinRequest,
+  PlayerInputMessage,
+  PlayerRespawnRequest,
+  ProjectileFiredRequest,
+  ProjectileHitRequest,
+  ProjectileExplodedRequest,
+  PickupCollectRequest,
+  ChatMessageRequest,
+  PlayerUpdateMessage,
+  PlayerStateMessage
+} from '../../shared/protocol';
+import { validateServerMessage, validateTick } from '../../shared/validation';
+import {
+  SNAPSHOT_RATE,
+  QuantizedSnapshot,
+  decodeSnapshot,
+  dequantizeEntity
+} from '../../shared/SnapshotCodec';
+import { TeamId } from '../../shared/Teams';
+import { TrafficMeter } from './TrafficMeter';
+import { ConnectionMonitor, ConnectionStats, PING_INTERVAL } from './ConnectionMonitor';
+import { ClockSync } from './ClockSync';
+import { Transport, TransportFactory } from './Transport';
+import { SocketIOTransport } from './SocketIOTransport';
+
+export const DEFAULT_SERVER_URL = 'http://localhost:3000';
+
+// Events the server relays to us and we re-emit to the game
+const RELAYED_EVENTS: ServerMessageType[] = [
+  'roomList',
+  'roomJoined',
+  'roomUpdated',
+  'lobbyError',
+  'matchStarted',
+  'matchEnded',
+  'leaderboard',
+  'playerJoined',
+  'playerLeft',
+  'playerList',
+  'entityEntered',
+  'entityLeft',
+  'playerState',
+  'playerRespawned',
+  'projectileFired',
+  'playerHit',
+  'shotResult',
+  'pickupTaken',
+  'pickupList',
+  'chatMessage',
+  'chatHistory'
+];
+
+// Decoded snapshots kept around as delta baselines (matches the server's history)
+const SNAPSHOT_HISTORY_LENGTH = SNAPSHOT_RATE * 2;
+
+// Reconnection backoff
+const RECONNECT_BASE_DELAY = 1000; // ms
+const RECONNECT_MAX_DELAY = 16000; // ms
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+export interface NetworkStats extends ConnectionStats {
+  snapshotRate: number; // Snapshots received per second
+  snapshotBytes: number; // Size of the last snapshot
+  bytesReceivedPerSecond: number;
+  bytesSentPerSecond: number; // Estimated from the serialized payloads
+  clockOffset: number; // Estimated server time minus local time (ms)
+  serverTick: number; // Tick of the last message from the server
+  serverTickTime: number; // How long the server takes to run a tick (ms)
+  droppedMessages: number; // Messages from the server thrown away as invalid or undecodable, this connection
+}
+
+interface NetworkManagerOptions {
+  serverUrl?: string;
+  connectTimeout?: number;
+  createTransport?: TransportFactory; // Defaults to Socket.IO to serverUrl
+}
 
 export class NetworkManager extends EventEmitter {
-  private socket: Socket | null = null;
+  private transport: Transport | null = null;
+  private createTransport: TransportFactory;
   private clientId: string = '';
+  private room: RoomInfo | null = null;
   private isConnected: boolean = false;
-  private serverUrl: string = 'http://localhost:3000'; // Default server URL
-  
-  constructor() {
+  private serverUrl: string;
+  private connectTimeout: number;
+  private netId: number = -1;
+  private netIdToClientId: Map<number, string> = new Map();
+  private snapshots: Map<number, QuantizedSnapshot> = new Map();
+  private snapshotTraffic: TrafficMeter = new TrafficMeter();
+  private receivedTraffic: TrafficMeter = new TrafficMeter();
+  private sentTraffic: TrafficMeter = new TrafficMeter();
+  private monitor: ConnectionMonitor = new ConnectionMonitor();
+  private clock: ClockSync = new ClockSync();
+  private lastServerTick: number = 0;
+  private serverTickTime: number = 0;
+  private droppedMessages: number = 0;
+  private sessionToken: string | null = null;
+  private profileToken: string | null = null;
+  private profile: PlayerProfile | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private kickReason: string | null = null; // Why the server is about to disconnect us
+
+  constructor(options: NetworkManagerOptions = {}) {
     super();
-    
-    // Generate a unique client ID
+
+    this.serverUrl = options.serverUrl || DEFAULT_SERVER_URL;
+    this.connectTimeout = options.connectTimeout || 5000;
+    this.createTransport = options.createTransport ||
+      (() => new SocketIOTransport(this.serverUrl, this.connectTimeout));
+
+    // Local ID used until the server assigns one (or when playing offline)
     this.clientId = uuidv4();
   }
-  
+
+  /**
+   * Connect to the server and start a new session
+   */
   public async connect(): Promise<void> {
     if (this.isConnected) return;
-    
+
+    this.cancelReconnect();
+    this.sessionToken = null;
+
+    await this.openTransport();
+  }
+
+  /**
+   * Change how the next connection is made, e.g. to play against a local server.
+   * Any current connection is closed.
+   */
+  public setTransport(createTransport: TransportFactory): void {
+    this.disconnect();
+    this.createTransport = createTransport;
+  }
+
+  private async openTransport(): Promise<WelcomeMessage> {
+    const transport = this.createTransport();
+    this.transport = transport;
+    this.kickReason = null;
+
+    // Listen before opening, since a resumed session's state follows right behind the welcome
+    transport.on('message', (event: string, data: unknown, tick: unknown) => this.handleMessage(event, data, tick));
+
     try {
-      // For demo purposes, we'll simulate a connection
-      // In a real implementation, this would connect to a Socket.IO server
-      console.log('Connecting to server...');
-      
-      // Simulate connection delay
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      // Simulate successful connection
+      const welcome = await this.handshake(transport);
+
+      this.clientId = welcome.clientId;
+      this.sessionToken = welcome.sessionToken;
       this.isConnected = true;
-      console.log('Connected to server');
-      
-      // Simulate receiving player data
-      this.simulateNetworkEvents();
-      
-      return Promise.resolve();
+      this.setProfile(welcome.profile || null);
+
+      transport.on('close', (reason: string, intentional: boolean) => this.handleDisconnect(reason, intentional));
+
+      this.startHeartbeat();
+
+      console.log(`Connected to server as ${this.clientId}${welcome.resumed ? ' (session resumed)' : ''}`);
+      return welcome;
     } catch (error) {
       console.error('Failed to connect to server:', error);
-      return Promise.reject(error);
+      transport.removeAllListeners();
+      transport.close();
+      this.transport = null;
+      throw error;
+    }
+  }
+
+  /**
+   * Route a message from the server to whatever handles it
+   */
+  private handleMessage(event: string, data: unknown, tick: unknown): void {
+    const tickResult = validateTick(tick);
+    if (tickResult.ok) this.lastServerTick = Math.max(this.lastServerTick, tickResult.value);
+
+    if (event === 'snapshot') {
+      this.receiveSnapshot(data);
+    } else if (event === 'pong') {
+      const result = validateServerMessage('pong', data);
+      if (result.ok) {
+        this.monitor.handlePong(result.value);
+        this.clock.addSample(result.value);
+        this.serverTickTime = result.value.tickTime;
+      }
+    } else if (event === 'kicked') {
+      // The disconnect follows right behind, so hold on to the reason until then
+      const result = validateServerMessage('kicked', data);
+      if (result.ok) this.kickReason = result.value.reason;
+    } else if (event === 'profile') {
+      const result = validateServerMessage('profile', data);
+      if (result.ok) {
+        if (result.value.token) this.profileToken = result.value.token;
+        this.setProfile(result.value.profile);
+      }
+    } else if ((RELAYED_EVENTS as string[]).includes(event)) {
+      this.receive(event as ServerMessageType, data);
+    }
+  }
+
+  private handleDisconnect(reason: string, intentional: boolean): void {
+    this.isConnected = false;
+    this.stopHeartbeat();
+    this.transport = null;
+
+    console.log('Disconnected from server:', reason);
+
+    // The server closed the connection on purpose, so there's nothing to resume
+    if (intentional) {
+      this.loseSession(this.kickReason || 'Disconnected by server');
+      return;
+    }
+
+    this.emit('connectionLost', { reason });
+    this.scheduleReconnect(0);
+  }
+
+  /**
+   * Try to reconnect and resume our session, waiting longer after each failure
+   */
+  private scheduleReconnect(attempt: number): void {
+    if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+      this.loseSession('Could not reconnect to server');
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY * Math.pow(2, attempt), RECONNECT_MAX_DELAY);
+    this.emit('reconnecting', { attempt: attempt + 1, maxAttempts: MAX_RECONNECT_ATTEMPTS, delay });
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+
+      try {
+        const welcome = await this.openTransport();
+
+        if (welcome.resumed) {
+          this.emit('reconnected');
+        } else {
+          // Connected again, but the server had already given up on us
+          this.loseSession('Session expired');
+        }
+      } catch (error) {
+        this.scheduleReconnect(attempt + 1);
+      }
+    }, delay);
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Give up on the current session; whatever room we were in is gone
+   */
+  private loseSession(reason: string): void {
+    this.resetRoom();
+    this.emit('sessionLost', { reason });
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.monitor.reset();
+
+    // This may be a different server, so start the clock estimate over
+    this.clock.reset();
+    this.lastServerTick = 0;
+    this.serverTickTime = 0;
+    this.droppedMessages = 0;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (this.monitor.isTimedOut()) {
+        this.dropConnection('heartbeat timeout');
+        return;
+      }
+
+      this.send('ping', this.monitor.createPing());
+    }, PING_INTERVAL);
+
+    // Get a clock estimate straight away rather than after the first interval
+    this.send('ping', this.monitor.createPing());
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Close a connection that has stopped responding and handle it like any other drop
+   */
+  private dropConnection(reason: string): void {
+    if (!this.transport) return;
+
+    this.transport.removeAllListeners();
+    this.transport.close();
+
+    this.handleDisconnect(reason, false);
+  }
+
+  /**
+   * Exchange protocol versions with the server and wait for it to assign us an ID
+   */
+  private handshake(transport: Transport): Promise<WelcomeMessage> {
+    return new Promise((resolve, reject) => {
+      const finish = (error: Error | null, welcome?: WelcomeMessage) => {
+        clearTimeout(timer);
+        transport.off('open', onOpen);
+        transport.off('message', onMessage);
+        transport.off('error', onError);
+
+        if (error) {
+          reject(error);
+        } else {
+          resolve(welcome!);
+        }
+      };
+
+      const onOpen = () => {
+        transport.send('hello', {
+          protocolVersion: PROTOCOL_VERSION,
+          resumeToken: this.sessionToken || undefined,
+          profileToken: this.profileToken || undefined
+        }, this.getServerTick());
+      };
+
+      const onMessage = (event: string, data: unknown) => {
+        if (event === 'welcome') {
+          const result = validateServerMessage('welcome', data);
+          if (!result.ok) {
+            finish(new Error(`Invalid welcome message: ${result.reason}`));
+          } else if (result.value.protocolVersion !== PROTOCOL_VERSION) {
+            finish(new Error(`Protocol mismatch: client ${PROTOCOL_VERSION}, server ${result.value.protocolVersion}`));
+          } else {
+            finish(null, result.value);
+          }
+        } else if (event === 'rejected') {
+          const result = validateServerMessage('rejected', data);
+          finish(new Error(`Rejected by server: ${result.ok ? result.value.reason : 'no reason given'}`));
+        }
+      };
+
+      const onError = (error: Error) => finish(error);
+
+      const timer = setTimeout(() => finish(new Error('Connection timed out')), this.connectTimeout);
+
+      transport.on('open', onOpen);
+      transport.on('message', onMessage);
+      transport.on('error', onError);
+      transport.open();
+    });
+  }
+
+  /**
+   * Validate an incoming message and pass it on to the game, dropping malformed payloads
+   */
+  private receive(event: ServerMessageType, data: unknown): void {
+    const result = validateServerMessage(event, data);
+
+    if (!result.ok) {
+      console.warn(`Dropped invalid '${event}' message from server: ${result.reason}`);
+      this.droppedMessages++;
+      return;
+    }
+
+    this.receivedTraffic.record(estimateSize(event, data));
+
+    // Keep track of the room we're in and which tank each snapshot entity belongs to
+    if (event === 'roomJoined') {
+      const joined = result.value as ServerMessages['roomJoined'];
+      this.resetRoom();
+      this.room = joined.room;
+      this.netId = joined.netId;
+    } else if (event === 'roomUpdated') {
+      const room = result.value as ServerMessages['roomUpdated'];
+      if (this.room && this.room.id === room.id) this.room = room;
+    } else if (event === 'playerList') {
+      const list = result.value as ServerMessages['playerList'];
+      list.players.forEach(player => this.netIdToClientId.set(player.netId, player.id));
+    } else if (event === 'playerJoined' || event === 'entityEntered') {
+      const joined = result.value as ServerMessages['playerJoined'];
+      this.netIdToClientId.set(joined.netId, joined.id);
+    } else if (event === 'playerLeft') {
+      const left = result.value as ServerMessages['playerLeft'];
+      this.netIdToClientId.forEach((clientId, netId) => {
+        if (clientId === left.id) this.netIdToClientId.delete(netId);
+      });
+    }
+
+    this.emit(event, result.value);
+  }
+
+  /**
+   * Decode a snapshot on top of its baseline, acknowledge it and emit the state of every
+   * tank in it: 'playerState' for our own tank and 'playerUpdate' for everyone else
+   */
+  private receiveSnapshot(data: unknown): void {
+    const result = validateServerMessage('snapshot', data);
+    if (!result.ok) {
+      console.warn(`Dropped invalid 'snapshot' message from server: ${result.reason}`);
+      this.droppedMessages++;
+      return;
+    }
+
+    const buffer = result.value as ArrayBuffer | ArrayBufferView;
+    this.snapshotTraffic.record(buffer.byteLength);
+    this.receivedTraffic.record(buffer.byteLength);
+
+    let snapshot: QuantizedSnapshot;
+    try {
+      snapshot = decodeSnapshot(buffer, sequence => this.snapshots.get(sequence));
+    } catch (error) {
+      // Ask for a full snapshot so we can start over
+      console.warn('Dropped snapshot:', error);
+      this.droppedMessages++;
+      this.send('snapshotAck', { sequence: -1 });
+      return;
+    }
+
+    this.snapshots.set(snapshot.sequence, snapshot);
+    for (const sequence of this.snapshots.keys()) {
+      if (this.snapshots.size <= SNAPSHOT_HISTORY_LENGTH) break;
+      this.snapshots.delete(sequence);
     }
+
+    this.send('snapshotAck', { sequence: snapshot.sequence });
+
+    snapshot.entities.forEach(quantized => {
+      const entity = dequantizeEntity(quantized);
+
+      if (entity.netId === this.netId) {
+        const state: PlayerStateMessage = {
+          position: entity.position,
+          heading: entity.heading,
+          speed: entity.velocity.x * Math.sin(entity.heading) + entity.velocity.z * Math.cos(entity.heading),
+          lastProcessedInput: snapshot.lastProcessedInput,
+          health: entity.health,
+          dead: entity.health <= 0
+        };
+        this.emit('playerState', state);
+        return;
+      }
+
+      // Skip tanks we haven't been introduced to yet
+      const id = this.netIdToClientId.get(entity.netId);
+      if (!id) return;
+
+      const update: PlayerUpdateMessage = {
+        id,
+        timestamp: snapshot.timestamp,
+        position: entity.position,
+        rotation: { x: 0, y: entity.heading, z: 0 },
+        turretRotation: entity.turretRotation,
+        health: entity.health,
+        velocity: entity.velocity
+      };
+      this.emit('playerUpdate', update);
+    });
   }
-  
+
   public disconnect(): void {
-    if (!this.isConnected) return;
-    
-    // For demo purposes, we'll simulate a disconnection
+    this.cancelReconnect();
+    this.stopHeartbeat();
+    this.sessionToken = null;
+
+    if (!this.transport) return;
+
     console.log('Disconnecting from server...');
-    
+
+    this.transport.removeAllListeners();
+    this.transport.close();
+    this.transport = null;
     this.isConnected = false;
+    this.resetRoom();
+
     console.log('Disconnected from server');
   }
-  
+
   public getClientId(): string {
     return this.clientId;
   }
-  
+
+  /**
+   * Get the room we're currently in, as last described by the server
+   */
+  public getRoom(): RoomInfo | null {
+    return this.room;
+  }
+
+  public isInRoom(): boolean {
+    return this.isConnected && this.room !== null;
+  }
+
+  /**
+   * Whether we joined our room to watch rather than play
+   */
+  public isSpectator(): boolean {
+    return !!this.room?.members.find(member => member.id === this.clientId)?.spectator;
+  }
+
+  /**
+   * The team we play for, or null outside team modes
+   */
+  public getTeam(): TeamId | null {
+    return this.room?.members.find(member => member.id === this.clientId)?.team ?? null;
+  }
+
+  /**
+   * Forget everything tied to the current room
+   */
+  private resetRoom(): void {
+    this.room = null;
+    this.netId = -1;
+    this.netIdToClientId.clear();
+    this.snapshots.clear();
+  }
+
+  public getServerUrl(): string {
+    return this.serverUrl;
+  }
+
   public isConnectedToServer(): boolean {
     return this.isConnected;
   }
-  
+
+  public getNetworkStats(): NetworkStats {
+    return {
+      ...this.monitor.getStats(),
+      snapshotRate: this.snapshotTraffic.getMessagesPerSecond(),
+      snapshotBytes: this.snapshotTraffic.getLastBytes(),
+      bytesReceivedPerSecond: this.receivedTraffic.getBytesPerSecond(),
+      bytesSentPerSecond: this.sentTraffic.getBytesPerSecond(),
+      clockOffset: this.clock.getOffset(),
+      serverTick: this.lastServerTick,
+      serverTickTime: this.serverTickTime,
+      droppedMessages: this.droppedMessages
+    };
+  }
+
+  /**
+   * Our best estimate of the server's clock (ms), for timing things the same way
+   * every client does. Falls back to local time until the first round trip.
+   */
+  public getServerTime(): number {
+    return this.clock.getServerTime();
+  }
+
+  /**
+   * The simulation tick the server is on now, by our estimate of its clock
+   */
+  public getServerTick(): number {
+    return this.clock.getServerTick();
+  }
+
+  /**
+   * Play as the profile this token logs in to, from the next connection on
+   */
+  public setProfileToken(token: string | null): void {
+    this.profileToken = token;
+  }
+
+  public getProfileToken(): string | null {
+    return this.profileToken;
+  }
+
+  /**
+   * The profile we're logged in as, or null when playing as a guest
+   */
+  public getProfile(): PlayerProfile | null {
+    return this.profile;
+  }
+
+  private setProfile(profile: PlayerProfile | null): void {
+    this.profile = profile;
+    this.emit('profileChanged', profile);
+  }
+
+  // Profile requests
+  public login(username: string): void {
+    this.send('login', { username });
+  }
+
+  public logout(): void {
+    this.send('logout', {});
+    this.profileToken = null;
+    this.setProfile(null);
+  }
+
+  public updateProfile(changes: UpdateProfileRequest): void {
+    this.send('updateProfile', changes);
+  }
+
+  /**
+   * Ask for a page of the leaderboard, which arrives as a 'leaderboard' event
+   */
+  public requestLeaderboard(request: LeaderboardRequest): void {
+    this.send('getLeaderboard', request);
+  }
+
+  // Lobby requests
+  public requestRoomList(): void {
+    this.send('listRooms', {});
+  }
+
+  public createRoom(data: CreateRoomRequest): void {
+    this.send('createRoom', data);
+  }
+
+  public joinRoom(data: JoinRoomRequest): void {
+    this.send('joinRoom', data);
+  }
+
+  public leaveRoom(): void {
+    if (!this.room) return;
+
+    this.send('leaveRoom', {});
+    this.resetRoom();
+  }
+
+  public setReady(ready: boolean): void {
+    this.send('setReady', { ready });
+  }
+
   // Send events to server
-  public sendPlayerJoined(data: any): void {
-    if (!this.isConnected) return;
-    
-    console.log('Sending player joined event:', data);
-    // In a real implementation, this would send data to the server
-    // this.socket.emit('playerJoined', data);
-  }
-  
-  public sendPlayerUpdate(data: any): void {
-    if (!this.isConnected) return;
-    
-    // In a real implementation, this would send data to the server
-    // this.socket.emit('playerUpdate', data);
-    
-    // We don't log this to avoid console spam
-  }
-  
-  public sendPlayerRespawned(data: any): void {
-    if (!this.isConnected) return;
-    
-    console.log('Sending player respawned event:', data);
-    // In a real implementation, this would send data to the server
-    // this.socket.emit('playerRespawned', data);
-  }
-  
-  public sendProjectileFired(data: any): void {
-    if (!this.isConnected) return;
-    
-    console.log('Sending projectile fired event:', data);
-    // In a real implementation, this would send data to the server
-    // this.socket.emit('projectileFired', data);
-    
-    // Simulate receiving the event back from the server
-    setTimeout(() => {
-      this.emit('projectileFired', data);
-    }, 50);
-  }
-  
-  public sendChatMessage(data: any): void {
-    if (!this.isConnected) return;
-    
-    console.log('Sending chat message:', data);
-    // In a real implementation, this would send data to the server
-    // this.socket.emit('chatMessage', data);
-    
-    // Simulate receiving the message back from the server
-    setTimeout(() => {
-      this.emit('chatMessage', {
-        id: data.id,
-        username: data.username,
-        message: data.message,
-        timestamp: Date.now()
-      });
-    }, 100);
-  }
-  
-  // Simulate network events for demo purposes
-  private simulateNetworkEvents(): void {
-    // Simulate other players joining
-    setTimeout(() => {
-      this.emit('playerJoined', {
-        id: 'bot1',
-        username: 'TankMaster',
-        position: { x: 20, y: 1, z: 20 },
-        rotation: { x: 0, y: 0, z: 0 },
-        health: 100,
-        color: 0xff0000
-      });
-    }, 2000);
-    
-    setTimeout(() => {
-      this.emit('playerJoined', {
-        id: 'bot2',
-        username: 'Destroyer',
-        position: { x: -20, y: 1, z: -20 },
-        rotation: { x: 0, y: 0, z: 0 },
-        health: 100,
-        color: 0x00ff00
-      });
-    }, 3000);
-    
-    // Simulate player updates
-    setInterval(() => {
-      if (!this.isConnected) return;
-      
-      // Simulate bot1 movement
-      this.emit('playerUpdate', {
-        id: 'bot1',
-        position: {
-          x: 20 + Math.sin(Date.now() / 1000) * 5,
-          y: 1,
-          z: 20 + Math.cos(Date.now() / 1000) * 5
-        },
-        rotation: {
-          x: 0,
-          y: Date.now() / 1000,
-          z: 0
-        },
-        turretRotation: Date.now() / 1000 * 0.5,
-        health: 100,
-        velocity: {
-          x: Math.cos(Date.now() / 1000) * 0.5,
-          y: 0,
-          z: -Math.sin(Date.now() / 1000) * 0.5
-        }
-      });
-      
-      // Simulate bot2 movement
-      this.emit('playerUpdate', {
-        id: 'bot2',
-        position: {
-          x: -20 + Math.cos(Date.now() / 1500) * 8,
-          y: 1,
-          z: -20 + Math.sin(Date.now() / 1500) * 8
-        },
-        rotation: {
-          x: 0,
-          y: -Date.now() / 1500,
-          z: 0
-        },
-        turretRotation: -Date.now() / 1500 * 0.3,
-        health: 100,
-        velocity: {
-          x: -Math.sin(Date.now() / 1500) * 0.5,
-          y: 0,
-          z: -Math.cos(Date.now() / 1500) * 0.5
-        }
-      });
-    }, 100);
-    
-    // Simulate bot firing occasionally
-    setInterval(() => {
-      if (!this.isConnected) return;
-      
-      // 10% chance to fire
-      if (Math.random() > 0.9) {
-        const botId = Math.random() > 0.5 ? 'bot1' : 'bot2';
-        const botPosition = botId === 'bot1' 
-          ? { x: 20 + Math.sin(Date.now() / 1000) * 5, y: 2, z: 20 + Math.cos(Date.now() / 1000) * 5 }
-          : { x: -20 + Math.cos(Date.now() / 1500) * 8, y: 2, z: -20 + Math.sin(Date.now() / 1500) * 8 };
-        
-        const angle = botId === 'bot1' ? Date.now() / 1000 * 0.5 : -Date.now() / 1500 * 0.3;
-        const direction = {
-          x: Math.sin(angle),
-          y: 0,
-          z: Math.cos(angle)
-        };
-        
-        this.emit('projectileFired', {
-          id: `projectile_${Date.now()}_${botId}`,
-          position: botPosition,
-          direction: direction,
-          speed: 50,
-          damage: 20,
-          ownerId: botId
-        });
-      }
-    }, 2000);
-    
-    // Simulate chat messages
-    setTimeout(() => {
-      if (!this.isConnected) return;
-      
-      this.emit('chatMessage', {
-        id: 'bot1',
-        username: 'TankMaster',
-        message: 'Hello everyone! Ready for battle?',
-        timestamp: Date.now()
-      });
-    }, 5000);
-    
-    setTimeout(() => {
-      if (!this.isConnected) return;
-      
-      this.emit('chatMessage', {
-        id: 'bot2',
-        username: 'Destroyer',
-        message: 'I\'m going to crush you all!',
-        timestamp: Date.now()
-      });
-    }, 8000);
+  public sendPlayerJoined(data: PlayerJoinRequest): void {
+    this.send('playerJoined', data);
+  }
+
+  public sendSpectatorJoined(): void {
+    this.send('spectatorJoined', {});
+  }
+
+  public sendPlayerInput(data: PlayerInputMessage): void {
+    this.send('playerInput', data);
+  }
+
+  public sendPlayerRespawned(data: PlayerRespawnRequest): void {
+    this.send('playerRespawned', data);
+  }
+
+  public sendProjectileFired(data: ProjectileFiredRequest): void {
+    this.send('projectileFired', data);
+  }
+
+  public sendProjectileHit(data: ProjectileHitRequest): void {
+    this.send('projectileHit', data);
   }
+
+  public sendProjectileExploded(data: ProjectileExplodedRequest): void {
+    this.send('projectileExploded', data);
+  }
+
+  public sendPickupCollected(data: PickupCollectRequest): void {
+    this.send('pickupCollected', data);
+  }
+
+  public sendChatMessage(data: ChatMessageRequest): void {
+    this.send('chatMessage', data);
+  }
+
+  private send<K extends ClientMessageType>(event: K, data: ClientMessages[K]): void {
+    if (!this.isConnected || !this.transport) return;
+
+    this.sentTraffic.record(estimateSize(event, data));
+    this.transport.send(event, data, this.getServerTick());
+  }
+}
+
+/**
+ * Approximate size of a JSON message on the wire
+ */
+function estimateSize(event: string, data: unknown): number {
+  return event.length + JSON.stringify(data).length;
 }
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SimulatedNetwork, SimulatedNetworkOptions } from './SimulatedNetwork';
+import { LoopbackTransport } from './LoopbackTransport';
+import { LoopbackServerTransport } from '../../server/src/LoopbackServerTransport';
+
+describe('SimulatedNetwork', () => {
+  let server: LoopbackServerTransport;
+  let network: SimulatedNetwork | null;
+
+  /**
+   * Connect to an echo server over a simulated link, collecting what comes back
+   */
+  async function connect(options: Partial<SimulatedNetworkOptions>): Promise<{ network: SimulatedNetwork; echoes: string[] }> {
+    network = new SimulatedNetwork(new LoopbackTransport(server), options);
+    const echoes: string[] = [];
+    network.on('message', (_event: string, data: { message: string }) => echoes.push(data.message));
+
+    const opened = new Promise(resolve => network!.on('open', resolve));
+    network.open();
+    await opened;
+
+    return { network, echoes };
+  }
+
+  function wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  beforeEach(async () => {
+    server = new LoopbackServerTransport();
+    network = null;
+
+    server.onConnection(connection => {
+      connection.on('chatMessage', data => {
+        const { message } = data as { message: string };
+        connection.emit('chatMessage', { username: 'echo', message, timestamp: 0, channel: 'all' });
+      });
+    });
+
+    await server.start();
+  });
+
+  afterEach(async () => {
+    network?.close();
+    await server.stop();
+  });
+
+  it('holds messages back by the latency, both ways', async () => {
+    const { network, echoes } = await connect({ latency: 50 });
+
+    network.send('chatMessage', { message: 'ping' }, 0);
+    await wait(70);
+    expect(echoes).toEqual([]);
+
+    await wait(100);
+    expect(echoes).toEqual(['ping']);
+  });
+
+  it('keeps messages in order however much they jitter', async () => {
+    const { network, echoes } = await connect({ latency: 5, jitter: 20 });
+    const sent = Array.from({ length: 20 }, (_, i) => `message ${i}`);
+
+    sent.forEach(message => network.send('chatMessage', { message }, 0));
+    await wait(150);
+
+    expect(echoes).toEqual(sent);
+  });
+
+  it('drops messages at the packet loss rate', async () => {
+    const { network, echoes } = await connect({ packetLoss: 1 });
+
+    network.send('chatMessage', { message: 'lost' }, 0);
+    await wait(20);
+    expect(echoes).toEqual([]);
+
+    network.setOptions({ packetLoss: 0 });
+    network.send('chatMessage', { message: 'found' }, 0);
+    await wait(20);
+    expect(echoes).toEqual(['found']);
+  });
+});
@@ -0,0 +1,96 @@
+import { EventEmitter } from '../utils/EventEmitter';
+import { Transport } from './Transport';
+import { ClientMessages, ClientMessageType } from '../../shared/protocol';
+
+export interface SimulatedNetworkOptions {
+  latency: number; // One-way delay added to every message (ms)
+  jitter: number; // Random variation added to the delay, up to this much either way (ms)
+  packetLoss: number; // Fraction of messages dropped (0-1)
+}
+
+/**
+ * Wraps another transport to make the network worse on purpose, for trying out
+ * netcode under latency, jitter and loss without needing a bad connection.
+ *
+ * Messages in each direction still arrive in order, as they would over a
+ * WebSocket; jitter only varies how long each one is held back.
+ */
+export class SimulatedNetwork extends EventEmitter implements Transport {
+  private transport: Transport;
+  private options: SimulatedNetworkOptions;
+  private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+  private lastIncomingAt: number = 0;
+  private lastOutgoingAt: number = 0;
+
+  constructor(transport: Transport, options: Partial<SimulatedNetworkOptions> = {}) {
+    super();
+
+    this.transport = transport;
+    this.options = {
+      latency: options.latency ?? 0,
+      jitter: options.jitter ?? 0,
+      packetLoss: options.packetLoss ?? 0
+    };
+  }
+
+  public setOptions(options: Partial<SimulatedNetworkOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  public getOptions(): SimulatedNetworkOptions {
+    return { ...this.options };
+  }
+
+  public open(): void {
+    // Connection events aren't delayed; only messages travel over the simulated link
+    this.transport.on('open', () => this.emit('open'));
+    this.transport.on('error', (error: Error) => this.emit('error', error));
+    this.transport.on('close', (reason: string, intentional: boolean) => {
+      this.clearTimers();
+      this.emit('close', reason, intentional);
+    });
+
+    this.transport.on('message', (event: string, data: unknown, tick: unknown) => {
+      this.lastIncomingAt = this.schedule(this.lastIncomingAt, () => this.emit('message', event, data, tick));
+    });
+
+    this.transport.open();
+  }
+
+  public close(): void {
+    this.clearTimers();
+    this.transport.removeAllListeners();
+    this.transport.close();
+  }
+
+  public send<K extends ClientMessageType>(event: K, data: ClientMessages[K], tick: number): void {
+    this.lastOutgoingAt = this.schedule(this.lastOutgoingAt, () => this.transport.send(event, data, tick));
+  }
+
+  /**
+   * Deliver a message after the simulated delay, unless it gets lost.
+   * Returns the time it will be delivered at.
+   */
+  private schedule(lastDeliveryAt: number, deliver: () => void): number {
+    if (Math.random() < this.options.packetLoss) return lastDeliveryAt;
+
+    const now = Date.now();
+    const delay = Math.max(0, this.options.latency + (Math.random() * 2 - 1) * this.options.jitter);
+
+    // Never overtake an earlier message
+    const deliverAt = Math.max(now + delay, lastDeliveryAt);
+
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      deliver();
+    }, deliverAt - now);
+    this.timers.add(timer);
+
+    return deliverAt;
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+}
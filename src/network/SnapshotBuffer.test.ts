@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { SnapshotBuffer, TankSnapshot } from './SnapshotBuffer';
+
+function snapshot(timestamp: number, x: number, heading: number = 0, velocityX: number = 0): TankSnapshot {
+  return {
+    timestamp,
+    position: { x, y: 0, z: 0 },
+    heading,
+    turretRotation: 0,
+    velocity: { x: velocityX, y: 0, z: 0 }
+  };
+}
+
+/**
+ * A buffer rendering 100ms behind a server clock that reads the same as ours
+ */
+function createBuffer(snapshots: TankSnapshot[]): SnapshotBuffer {
+  const buffer = new SnapshotBuffer({ interpolationDelay: 100, maxExtrapolation: 250 });
+  snapshots.forEach(snapshot => buffer.push(snapshot, snapshot.timestamp));
+  return buffer;
+}
+
+describe('SnapshotBuffer', () => {
+  it('has nothing to render before the first snapshot', () => {
+    expect(new SnapshotBuffer().sample(1000)).toBeNull();
+  });
+
+  it('renders the past, between the two snapshots around it', () => {
+    const buffer = createBuffer([snapshot(1000, 0, 0), snapshot(1100, 10, 1)]);
+    const state = buffer.sample(1175)!;
+
+    expect(buffer.getRenderTime(1175)).toBe(1075);
+    expect(state.extrapolated).toBe(false);
+    expect(state.position.x).toBeCloseTo(7.5);
+    expect(state.heading).toBeCloseTo(0.75);
+  });
+
+  it('turns the short way round when the heading wraps', () => {
+    const buffer = createBuffer([snapshot(1000, 0, Math.PI - 0.1), snapshot(1100, 0, -Math.PI + 0.1)]);
+
+    expect(Math.abs(buffer.sample(1150)!.heading)).toBeCloseTo(Math.PI);
+  });
+
+  it('holds the oldest snapshot until the render time reaches it', () => {
+    const buffer = createBuffer([snapshot(1000, 5), snapshot(1100, 10)]);
+
+    expect(buffer.sample(1050)!.position.x).toBe(5);
+  });
+
+  it('extrapolates along the last velocity when snapshots are late, for a while', () => {
+    const buffer = createBuffer([snapshot(1000, 0, 0, 10), snapshot(1100, 1, 0, 10)]);
+
+    const late = buffer.sample(1300)!;
+    expect(late.extrapolated).toBe(true);
+    expect(late.position.x).toBeCloseTo(2);
+
+    // No further than the extrapolation limit
+    expect(buffer.sample(5000)!.position.x).toBeCloseTo(3.5);
+  });
+
+  it('ignores snapshots that arrive out of order', () => {
+    const buffer = createBuffer([snapshot(1000, 0), snapshot(1200, 20), snapshot(1100, 50)]);
+
+    expect(buffer.sample(1200)!.position.x).toBeCloseTo(10);
+  });
+
+  it('follows the server clock\'s offset from ours', () => {
+    const buffer = new SnapshotBuffer({ interpolationDelay: 100 });
+    buffer.push(snapshot(5000, 0), 1000);
+
+    expect(buffer.getRenderTime(2000)).toBe(5900);
+  });
+});
@@ -0,0 +1,138 @@
+import { Vector3Data } from '../../shared/protocol';
+import { angleDifference } from '../../shared/TankMovement';
+
+export const DEFAULT_INTERPOLATION_DELAY = 100; // ms
+export const DEFAULT_MAX_EXTRAPOLATION = 250; // ms
+
+export interface TankSnapshot {
+  timestamp: number; // Server time (ms)
+  position: Vector3Data;
+  heading: number;
+  turretRotation: number;
+  velocity: Vector3Data;
+}
+
+export interface SampledTankState extends TankSnapshot {
+  extrapolated: boolean;
+}
+
+interface SnapshotBufferOptions {
+  interpolationDelay?: number;
+  maxExtrapolation?: number;
+}
+
+// How quickly the server clock offset estimate follows new samples
+const CLOCK_OFFSET_SMOOTHING = 0.1;
+
+/**
+ * Timestamped buffer of server states for a remote tank.
+ * Remote tanks are rendered slightly in the past so there are usually two
+ * snapshots to interpolate between; when packets are late the last known
+ * velocity is used to extrapolate for a short while.
+ */
+export class SnapshotBuffer {
+  private snapshots: TankSnapshot[] = [];
+  private interpolationDelay: number;
+  private maxExtrapolation: number;
+  private clockOffset: number | null = null;
+
+  constructor(options: SnapshotBufferOptions = {}) {
+    this.interpolationDelay = options.interpolationDelay ?? DEFAULT_INTERPOLATION_DELAY;
+    this.maxExtrapolation = options.maxExtrapolation ?? DEFAULT_MAX_EXTRAPOLATION;
+  }
+
+  public push(snapshot: TankSnapshot, receivedAt: number = Date.now()): void {
+    // Track the difference between server and local clocks
+    const offset = snapshot.timestamp - receivedAt;
+    this.clockOffset = this.clockOffset === null
+      ? offset
+      : this.clockOffset + (offset - this.clockOffset) * CLOCK_OFFSET_SMOOTHING;
+
+    // Drop out-of-order snapshots
+    const latest = this.snapshots[this.snapshots.length - 1];
+    if (latest && snapshot.timestamp <= latest.timestamp) return;
+
+    this.snapshots.push(snapshot);
+  }
+
+  public clear(): void {
+    this.snapshots = [];
+  }
+
+  public setInterpolationDelay(delay: number): void {
+    this.interpolationDelay = delay;
+  }
+
+  public getInterpolationDelay(): number {
+    return this.interpolationDelay;
+  }
+
+  /**
+   * Get the server time being rendered at the given local time
+   */
+  public getRenderTime(now: number = Date.now()): number | null {
+    if (this.clockOffset === null) return null;
+
+    return now + this.clockOffset - this.interpolationDelay;
+  }
+
+  /**
+   * Get the state to render at the given local time
+   */
+  public sample(now: number = Date.now()): SampledTankState | null {
+    const renderTime = this.getRenderTime(now);
+    if (this.snapshots.length === 0 || renderTime === null) return null;
+
+    // Discard snapshots we no longer need, keeping one at or before the render time
+    while (this.snapshots.length > 2 && this.snapshots[1].timestamp <= renderTime) {
+      this.snapshots.shift();
+    }
+
+    const first = this.snapshots[0];
+    if (renderTime <= first.timestamp) {
+      return { ...first, extrapolated: false };
+    }
+
+    const next = this.snapshots[1];
+    if (next && renderTime <= next.timestamp) {
+      const t = (renderTime - first.timestamp) / (next.timestamp - first.timestamp);
+      return {
+        timestamp: renderTime,
+        position: lerpVector(first.position, next.position, t),
+        heading: lerpAngle(first.heading, next.heading, t),
+        turretRotation: lerpAngle(first.turretRotation, next.turretRotation, t),
+        velocity: lerpVector(first.velocity, next.velocity, t),
+        extrapolated: false
+      };
+    }
+
+    // Packets are late: carry on along the last known velocity for a limited time
+    const latest = this.snapshots[this.snapshots.length - 1];
+    const elapsed = Math.min(renderTime - latest.timestamp, this.maxExtrapolation) / 1000;
+
+    return {
+      timestamp: renderTime,
+      position: {
+        x: latest.position.x + latest.velocity.x * elapsed,
+        y: latest.position.y + latest.velocity.y * elapsed,
+        z: latest.position.z + latest.velocity.z * elapsed
+      },
+      heading: latest.heading,
+      turretRotation: latest.turretRotation,
+      velocity: latest.velocity,
+      extrapolated: true
+    };
+  }
+}
+
+function lerpVector(a: Vector3Data, b: Vector3Data, t: number): Vector3Data {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    z: a.z + (b.z - a.z) * t
+  };
+}
+
+function lerpAngle(a: number, b: number, t: number): number {
+  return a + angleDifference(b, a) * t;
+}
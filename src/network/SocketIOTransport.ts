@@ -0,0 +1,59 @@
+import { io, Socket } from 'socket.io-client';
+import { EventEmitter } from '../utils/EventEmitter';
+import { Transport } from './Transport';
+import {
+  ServerToClientEvents,
+  ClientToServerEvents,
+  ClientMessages,
+  ClientMessageType
+} from '../../shared/protocol';
+
+type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+/**
+ * Talks to a remote server over Socket.IO
+ */
+export class SocketIOTransport extends EventEmitter implements Transport {
+  private url: string;
+  private timeout: number;
+  private socket: GameSocket | null = null;
+
+  constructor(url: string, timeout: number) {
+    super();
+
+    this.url = url;
+    this.timeout = timeout;
+  }
+
+  public open(): void {
+    // Reconnecting is up to the NetworkManager, which needs to resume its session
+    const socket: GameSocket = io(this.url, {
+      transports: ['websocket'],
+      reconnection: false,
+      timeout: this.timeout
+    });
+    this.socket = socket;
+
+    socket.on('connect', () => this.emit('open'));
+    socket.on('connect_error', (error: Error) => this.emit('error', error));
+    socket.on('disconnect', (reason: string) => {
+      this.emit('close', reason, reason === 'io server disconnect');
+    });
+
+    socket.onAny((event: string, data: unknown, tick: unknown) => this.emit('message', event, data, tick));
+  }
+
+  public close(): void {
+    if (!this.socket) return;
+
+    this.socket.removeAllListeners();
+    this.socket.offAny();
+    this.socket.disconnect();
+    this.socket = null;
+  }
+
+  public send<K extends ClientMessageType>(event: K, data: ClientMessages[K], tick: number): void {
+    // Socket.IO's typed emit can't follow the generic key, so widen it here
+    (this.socket as unknown as Socket | null)?.emit(event, data, tick);
+  }
+}
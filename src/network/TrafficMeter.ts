@@ -0,0 +1,53 @@
+interface TrafficSample {
+  time: number;
+  bytes: number;
+}
+
+// Rates are averaged over this window
+const WINDOW = 1000; // ms
+
+/**
+ * Rolling count of messages and bytes over the last second
+ */
+export class TrafficMeter {
+  private samples: TrafficSample[] = [];
+  private totalBytes: number = 0;
+  private lastBytes: number = 0;
+
+  public record(bytes: number, now: number = Date.now()): void {
+    this.samples.push({ time: now, bytes });
+    this.totalBytes += bytes;
+    this.lastBytes = bytes;
+    this.prune(now);
+  }
+
+  public getBytesPerSecond(now: number = Date.now()): number {
+    this.prune(now);
+    return this.samples.reduce((sum, sample) => sum + sample.bytes, 0) * 1000 / WINDOW;
+  }
+
+  public getMessagesPerSecond(now: number = Date.now()): number {
+    this.prune(now);
+    return this.samples.length * 1000 / WINDOW;
+  }
+
+  public getLastBytes(): number {
+    return this.lastBytes;
+  }
+
+  public getTotalBytes(): number {
+    return this.totalBytes;
+  }
+
+  public reset(): void {
+    this.samples = [];
+    this.totalBytes = 0;
+    this.lastBytes = 0;
+  }
+
+  private prune(now: number): void {
+    while (this.samples.length > 0 && now - this.samples[0].time > WINDOW) {
+      this.samples.shift();
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { ClientMessages, ClientMessageType } from '../../shared/protocol';
+
+/**
+ * A connection to the game server.
+ *
+ * Once open() is called a transport emits 'open' when connected, or 'error'
+ * with the cause if it couldn't connect. After that it emits 'message' with the
+ * event name, (unvalidated) payload and tick of everything the server sends,
+ * and 'close' with a reason and whether the server closed it on purpose if the
+ * connection ends without close() being called.
+ */
+export interface Transport {
+  open(): void;
+  close(): void;
+  send<K extends ClientMessageType>(event: K, data: ClientMessages[K], tick: number): void;
+
+  on(event: string, callback: (...args: any[]) => void): void;
+  off(event: string, callback: (...args: any[]) => void): void;
+  removeAllListeners(event?: string): void;
+}
+
+/**
+ * Creates a fresh transport for each connection attempt
+ */
+export type TransportFactory = () => Transport;
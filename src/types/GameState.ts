@@ -1,11 +1,13 @@
 import { Player } from '../entities/Player';
 import { Projectile } from '../entities/Projectile';
+import { Pickup } from '../entities/Pickup';
 import { WorldObject } from '../world/WorldObject';
 
 export interface GameState {
   players: Map<string, Player>;
   projectiles: Map<string, Projectile>;
   worldObjects: Map<string, WorldObject>;
+  pickups: Map<string, Pickup>;
   playerScore: number;
   playerKills: number;
   gameTime: number;
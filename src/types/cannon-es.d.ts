@@ -0,0 +1,12 @@
+import 'cannon-es';
+
+declare module 'cannon-es' {
+  interface Body {
+    // What the body belongs to, so collisions and raycasts can tell tanks,
+    // projectiles, obstacles, pickups and the ground apart
+    userData?: {
+      type: 'tank' | 'projectile' | 'obstacle' | 'pickup' | 'ground';
+      [key: string]: any;
+    };
+  }
+}
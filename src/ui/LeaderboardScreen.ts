@@ -0,0 +1,176 @@
+import { NetworkManager } from '../network/NetworkManager';
+import {
+  GameMode,
+  LeaderboardMessage,
+  LeaderboardPeriod,
+  LeaderboardRequest,
+  LeaderboardSortKey
+} from '../../shared/protocol';
+
+const PAGE_SIZE = 10;
+
+/**
+ * The global leaderboard, ranked by the server from every logged in player's stats.
+ * Players pick the period, mode and stat to sort by, a page at a time.
+ */
+export class LeaderboardScreen {
+  private networkManager: NetworkManager;
+  private goOnline: () => void;
+  private screen: HTMLElement | null;
+  private status: HTMLElement | null;
+  private entries: HTMLElement | null;
+  private pageLabel: HTMLElement | null;
+  private periodSelect: HTMLSelectElement | null;
+  private modeSelect: HTMLSelectElement | null;
+  private prevButton: HTMLButtonElement | null;
+  private nextButton: HTMLButtonElement | null;
+  private request: LeaderboardRequest = { period: 'allTime', sortBy: 'wins', offset: 0, limit: PAGE_SIZE };
+  private total: number = 0;
+  private isOpen: boolean = false;
+
+  /**
+   * goOnline makes sure the next connection goes to the real server rather than the offline one
+   */
+  constructor(networkManager: NetworkManager, goOnline: () => void) {
+    this.networkManager = networkManager;
+    this.goOnline = goOnline;
+
+    this.screen = document.getElementById('leaderboard-screen');
+    this.status = document.querySelector('.leaderboard-status');
+    this.entries = document.querySelector('.leaderboard-entries');
+    this.pageLabel = document.querySelector('.leaderboard-page');
+    this.periodSelect = document.getElementById('leaderboard-period') as HTMLSelectElement | null;
+    this.modeSelect = document.getElementById('leaderboard-mode') as HTMLSelectElement | null;
+    this.prevButton = document.getElementById('leaderboard-prev') as HTMLButtonElement | null;
+    this.nextButton = document.getElementById('leaderboard-next') as HTMLButtonElement | null;
+
+    this.setupControls();
+
+    this.networkManager.on('leaderboard', (data: LeaderboardMessage) => this.handleLeaderboard(data));
+  }
+
+  private setupControls(): void {
+    this.periodSelect?.addEventListener('change', () => {
+      this.fetch({ period: this.periodSelect!.value as LeaderboardPeriod, offset: 0 });
+    });
+
+    this.modeSelect?.addEventListener('change', () => {
+      this.fetch({ mode: (this.modeSelect!.value || undefined) as GameMode | undefined, offset: 0 });
+    });
+
+    document.querySelectorAll<HTMLElement>('.leaderboard-sort').forEach(button => {
+      button.addEventListener('click', () => {
+        this.fetch({ sortBy: button.dataset.sort as LeaderboardSortKey, offset: 0 });
+      });
+    });
+
+    this.prevButton?.addEventListener('click', () => {
+      this.fetch({ offset: Math.max(0, this.request.offset - PAGE_SIZE) });
+    });
+
+    this.nextButton?.addEventListener('click', () => {
+      this.fetch({ offset: this.request.offset + PAGE_SIZE });
+    });
+  }
+
+  /**
+   * Show the leaderboard, connecting to the server if needed
+   */
+  public async open(): Promise<void> {
+    this.isOpen = true;
+    this.screen?.classList.add('active');
+
+    if (!this.networkManager.isConnectedToServer()) {
+      this.setStatus('Connecting to server...');
+
+      try {
+        this.goOnline();
+        await this.networkManager.connect();
+      } catch (error) {
+        this.setStatus('Server unavailable');
+        return;
+      }
+    }
+
+    this.fetch({ offset: 0 });
+  }
+
+  public close(): void {
+    this.isOpen = false;
+    this.screen?.classList.remove('active');
+  }
+
+  private fetch(changes: Partial<LeaderboardRequest>): void {
+    this.request = { ...this.request, ...changes };
+
+    if (!this.networkManager.isConnectedToServer()) {
+      this.setStatus('Not connected to the server');
+      return;
+    }
+
+    this.setStatus('Loading...');
+    this.networkManager.requestLeaderboard(this.request);
+    this.updateControls();
+  }
+
+  private handleLeaderboard(data: LeaderboardMessage): void {
+    if (!this.isOpen) return;
+
+    // Skip answers to requests the player has since changed their mind about
+    const { period, mode, sortBy, offset } = this.request;
+    if (data.period !== period || data.mode !== mode || data.sortBy !== sortBy || data.offset !== offset) return;
+
+    this.total = data.total;
+    this.setStatus(data.total === 0 ? 'Nobody has played yet' : '');
+    this.render(data);
+    this.updateControls();
+  }
+
+  private render(data: LeaderboardMessage): void {
+    if (!this.entries) return;
+
+    this.entries.innerHTML = '';
+
+    data.entries.forEach(entry => {
+      const row = document.createElement('div');
+      row.className = entry.rank <= 3 ? `leaderboard-entry rank-${entry.rank}` : 'leaderboard-entry';
+
+      [
+        String(entry.rank),
+        entry.username,
+        String(entry.wins),
+        String(entry.kills),
+        String(entry.deaths),
+        String(Math.round(entry.damageDealt))
+      ].forEach(text => {
+        const cell = document.createElement('span');
+        cell.textContent = text;
+        row.appendChild(cell);
+      });
+
+      this.entries!.appendChild(row);
+    });
+  }
+
+  private updateControls(): void {
+    const { offset, sortBy } = this.request;
+    const pages = Math.max(1, Math.ceil(this.total / PAGE_SIZE));
+
+    if (this.pageLabel) {
+      this.pageLabel.textContent = `Page ${Math.floor(offset / PAGE_SIZE) + 1} of ${pages}`;
+    }
+
+    if (this.prevButton) this.prevButton.disabled = offset === 0;
+    if (this.nextButton) this.nextButton.disabled = offset + PAGE_SIZE >= this.total;
+
+    document.querySelectorAll<HTMLElement>('.leaderboard-sort').forEach(button => {
+      button.classList.toggle('active', button.dataset.sort === sortBy);
+    });
+  }
+
+  private setStatus(message: string): void {
+    if (this.status) {
+      this.status.textContent = message;
+    }
+  }
+}
@@ -0,0 +1,334 @@
+import { EventEmitter } from '../utils/EventEmitter';
+import { NetworkManager } from '../network/NetworkManager';
+import {
+  GameMode,
+  RoomInfo,
+  RoomListMessage,
+  RoomJoinedMessage,
+  LobbyErrorMessage,
+  MatchStartedMessage,
+  PlayerProfile,
+  MAX_SPECTATORS
+} from '../../shared/protocol';
+import { TEAMS } from '../../shared/Teams';
+
+const MODE_NAMES: Record<GameMode, string> = {
+  deathmatch: 'Deathmatch',
+  teamDeathmatch: 'Team Deathmatch'
+};
+
+/**
+ * Room browser shown between the main menu and a match.
+ *
+ * Emits 'start' with the room settings, username and the server time the match
+ * started at once a match begins,
+ * 'playOffline' when the server can't be reached and the player would rather
+ * play against a local one, and 'back'.
+ */
+export class LobbyScreen extends EventEmitter {
+  private networkManager: NetworkManager;
+  private screen: HTMLElement | null;
+  private status: HTMLElement | null;
+  private browser: HTMLElement | null;
+  private roomList: HTMLElement | null;
+  private roomView: HTMLElement | null;
+  private memberList: HTMLElement | null;
+  private countdown: HTMLElement | null;
+  private usernameInput: HTMLInputElement | null;
+  private readyButton: HTMLElement | null;
+  private offlineButton: HTMLElement | null;
+  private isOpen: boolean = false;
+  private isReady: boolean = false;
+
+  constructor(networkManager: NetworkManager) {
+    super();
+
+    this.networkManager = networkManager;
+
+    // Get lobby elements
+    this.screen = document.getElementById('lobby-screen');
+    this.status = document.querySelector('.lobby-status');
+    this.browser = document.querySelector('.lobby-browser');
+    this.roomList = document.querySelector('.lobby-rooms');
+    this.roomView = document.querySelector('.lobby-room');
+    this.memberList = document.querySelector('.lobby-members');
+    this.countdown = document.querySelector('.lobby-countdown');
+    this.usernameInput = document.querySelector('#lobby-username');
+    this.readyButton = document.getElementById('ready-button');
+    this.offlineButton = document.getElementById('play-offline-button');
+
+    if (this.usernameInput) {
+      this.usernameInput.value = 'Player_' + Math.floor(Math.random() * 1000);
+    }
+
+    this.setupButtons();
+    this.setupNetworkEvents();
+  }
+
+  private setupButtons(): void {
+    document.getElementById('create-room-button')?.addEventListener('click', () => {
+      const nameInput = document.getElementById('room-name') as HTMLInputElement | null;
+      const maxPlayersSelect = document.getElementById('room-max-players') as HTMLSelectElement | null;
+      const modeSelect = document.getElementById('room-mode') as HTMLSelectElement | null;
+      const friendlyFireCheckbox = document.getElementById('room-friendly-fire') as HTMLInputElement | null;
+
+      this.networkManager.createRoom({
+        name: nameInput?.value.trim() || `${this.getUsername()}'s room`,
+        username: this.getUsername(),
+        maxPlayers: Number(maxPlayersSelect?.value || 8),
+        mode: (modeSelect?.value || 'deathmatch') as GameMode,
+        friendlyFire: !!friendlyFireCheckbox?.checked
+      });
+    });
+
+    this.readyButton?.addEventListener('click', () => {
+      this.networkManager.setReady(!this.isReady);
+    });
+
+    document.getElementById('leave-room-button')?.addEventListener('click', () => {
+      this.networkManager.leaveRoom();
+      this.showBrowser();
+      this.networkManager.requestRoomList();
+    });
+
+    this.offlineButton?.addEventListener('click', () => {
+      this.emit('playOffline');
+    });
+
+    document.getElementById('back-from-lobby')?.addEventListener('click', () => {
+      this.networkManager.disconnect();
+      this.emit('back');
+    });
+  }
+
+  private setupNetworkEvents(): void {
+    this.networkManager.on('roomList', (data: RoomListMessage) => {
+      this.renderRoomList(data.rooms);
+    });
+
+    this.networkManager.on('roomJoined', (data: RoomJoinedMessage) => {
+      this.showRoom(data.room);
+    });
+
+    this.networkManager.on('roomUpdated', (room: RoomInfo) => {
+      if (this.networkManager.getRoom()?.id === room.id) {
+        this.showRoom(room);
+      }
+    });
+
+    this.networkManager.on('lobbyError', (data: LobbyErrorMessage) => {
+      this.setStatus(data.reason);
+    });
+
+    this.networkManager.on('reconnecting', (data: { attempt: number; maxAttempts: number }) => {
+      this.setStatus(`Connection lost, reconnecting (attempt ${data.attempt} of ${data.maxAttempts})...`);
+    });
+
+    this.networkManager.on('reconnected', () => {
+      this.setStatus('');
+    });
+
+    this.networkManager.on('sessionLost', (data: { reason: string }) => {
+      if (!this.isOpen) return;
+
+      this.setStatus(data.reason);
+      this.showBrowser();
+
+      if (!this.networkManager.isConnectedToServer()) {
+        this.renderRoomList([]);
+        this.offlineButton?.classList.remove('hidden');
+      }
+    });
+
+    // Logged in players always play under their profile's name
+    this.networkManager.on('profileChanged', (profile: PlayerProfile | null) => {
+      if (!this.usernameInput) return;
+
+      this.usernameInput.disabled = !!profile;
+      if (profile) this.usernameInput.value = profile.username;
+    });
+
+    this.networkManager.on('matchStarted', (data: MatchStartedMessage) => {
+      if (!this.isOpen) return;
+
+      this.emit('start', data.room, this.getUsername(), data.startedAt);
+    });
+  }
+
+  /**
+   * Show the lobby, connecting to the server if needed
+   */
+  public async open(): Promise<void> {
+    this.isOpen = true;
+    this.screen?.classList.add('active');
+    this.offlineButton?.classList.add('hidden');
+    this.showBrowser();
+
+    if (this.networkManager.isConnectedToServer()) {
+      this.setStatus('');
+      this.networkManager.requestRoomList();
+      return;
+    }
+
+    this.setStatus('Connecting to server...');
+    this.renderRoomList([]);
+
+    try {
+      // The server sends the room list as soon as we're connected
+      await this.networkManager.connect();
+      this.setStatus('');
+    } catch (error) {
+      this.setStatus('Server unavailable');
+      this.offlineButton?.classList.remove('hidden');
+    }
+  }
+
+  public close(): void {
+    this.isOpen = false;
+    this.screen?.classList.remove('active');
+  }
+
+  public getUsername(): string {
+    return this.usernameInput?.value.trim().slice(0, 32) || 'Player';
+  }
+
+  private setStatus(message: string): void {
+    if (this.status) {
+      this.status.textContent = message;
+    }
+  }
+
+  private showBrowser(): void {
+    this.isReady = false;
+    this.browser?.classList.remove('hidden');
+    this.roomView?.classList.add('hidden');
+  }
+
+  private renderRoomList(rooms: RoomInfo[]): void {
+    if (!this.roomList) return;
+
+    this.roomList.innerHTML = '';
+
+    if (rooms.length === 0) {
+      const empty = document.createElement('div');
+      empty.className = 'lobby-empty';
+      empty.textContent = this.networkManager.isConnectedToServer()
+        ? 'No rooms yet - create one!'
+        : 'No rooms available';
+      this.roomList.appendChild(empty);
+      return;
+    }
+
+    rooms.forEach(room => {
+      const { players, spectators } = countMembers(room);
+
+      const entry = document.createElement('div');
+      entry.className = 'lobby-entry';
+
+      const name = document.createElement('span');
+      name.textContent = room.name;
+
+      const details = document.createElement('span');
+      details.textContent = `${MODE_NAMES[room.mode]} - ${players}/${room.maxPlayers}` +
+        (spectators > 0 ? ` (+${spectators} watching)` : '') +
+        (room.status === 'playing' ? ' - in progress' : '') +
+        (room.teamScores.length > 0 && room.status === 'playing' ? ` - ${formatTeamScores(room)}` : '');
+
+      const joinButton = document.createElement('button');
+      joinButton.className = 'menu-button';
+      joinButton.textContent = 'JOIN';
+      joinButton.disabled = players >= room.maxPlayers;
+      joinButton.addEventListener('click', () => {
+        this.networkManager.joinRoom({ roomId: room.id, username: this.getUsername() });
+      });
+
+      const watchButton = document.createElement('button');
+      watchButton.className = 'menu-button';
+      watchButton.textContent = 'WATCH';
+      watchButton.disabled = spectators >= MAX_SPECTATORS;
+      watchButton.addEventListener('click', () => {
+        this.networkManager.joinRoom({ roomId: room.id, username: this.getUsername(), spectate: true });
+      });
+
+      entry.appendChild(name);
+      entry.appendChild(details);
+      entry.appendChild(joinButton);
+      entry.appendChild(watchButton);
+      this.roomList!.appendChild(entry);
+    });
+  }
+
+  private showRoom(room: RoomInfo): void {
+    this.setStatus('');
+    this.browser?.classList.add('hidden');
+    this.roomView?.classList.remove('hidden');
+
+    const roomName = document.querySelector('.lobby-room-name');
+    if (roomName) {
+      roomName.textContent = room.name;
+    }
+
+    const { players, spectators } = countMembers(room);
+
+    const roomDetails = document.querySelector('.lobby-room-details');
+    if (roomDetails) {
+      roomDetails.textContent = `${MODE_NAMES[room.mode]} - ${players}/${room.maxPlayers} players` +
+        (spectators > 0 ? `, ${spectators} spectating` : '') +
+        (room.friendlyFire ? ' - friendly fire' : '');
+    }
+
+    // Render members
+    if (this.memberList) {
+      this.memberList.innerHTML = '';
+
+      room.members.forEach(member => {
+        const entry = document.createElement('div');
+        entry.className = member.ready ? 'lobby-entry ready' : 'lobby-entry';
+
+        const name = document.createElement('span');
+        name.textContent = member.id === this.networkManager.getClientId()
+          ? `${member.username} (you)`
+          : member.username;
+        if (member.team) {
+          name.textContent += ` - ${TEAMS[member.team].name}`;
+          name.style.color = `#${TEAMS[member.team].color.toString(16).padStart(6, '0')}`;
+        }
+
+        const state = document.createElement('span');
+        state.textContent = member.spectator ? 'SPECTATING' : member.ready ? 'READY' : 'NOT READY';
+
+        entry.appendChild(name);
+        entry.appendChild(state);
+        this.memberList!.appendChild(entry);
+      });
+    }
+
+    const self = room.members.find(member => member.id === this.networkManager.getClientId());
+    this.isReady = !!self?.ready;
+
+    if (this.readyButton) {
+      this.readyButton.textContent = this.isReady ? 'NOT READY' : 'READY';
+
+      // Spectators just wait for the players
+      this.readyButton.classList.toggle('hidden', !!self?.spectator);
+    }
+
+    if (this.countdown) {
+      this.countdown.textContent = room.status === 'countdown'
+        ? `Starting in ${room.countdown}...`
+        : room.status === 'playing' ? 'Match in progress' : 'Waiting for everyone to ready up';
+    }
+  }
+}
+
+/**
+ * Team kills so far, e.g. "Red 12 : Blue 9"
+ */
+function formatTeamScores(room: RoomInfo): string {
+  return room.teamScores.map(score => `${TEAMS[score.team].name} ${score.kills}`).join(' : ');
+}
+
+function countMembers(room: RoomInfo): { players: number; spectators: number } {
+  const spectators = room.members.filter(member => member.spectator).length;
+  return { players: room.members.length - spectators, spectators };
+}
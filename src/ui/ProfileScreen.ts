@@ -0,0 +1,196 @@
+import { NetworkManager } from '../network/NetworkManager';
+import { PlayerProfile, UpdateProfileRequest, DEFAULT_TANK_COLOR } from '../../shared/protocol';
+import { WEAPONS, WEAPON_IDS, DEFAULT_WEAPON } from '../../shared/Weapons';
+
+// Where the login token is kept between visits
+const TOKEN_STORAGE_KEY = 'tankMayhem.profileToken';
+
+const TANK_COLORS = [DEFAULT_TANK_COLOR, 0xcc3333, 0x33aa55, 0xe6b800, 0x9933cc, 0xff6b00, 0x22bbbb, 0xdddddd];
+
+/**
+ * Login panel on the main menu and the customize screen's options.
+ *
+ * Profiles live on the server; the browser only remembers the token that logs
+ * in to one, and the server attaches the profile when we connect with it.
+ */
+export class ProfileScreen {
+  private networkManager: NetworkManager;
+  private goOnline: () => void;
+  private status: HTMLElement | null;
+  private customizeStatus: HTMLElement | null;
+  private loginForm: HTMLElement | null;
+  private summary: HTMLElement | null;
+  private usernameInput: HTMLInputElement | null;
+  private colorOptions: HTMLElement | null;
+  private weaponOptions: HTMLElement | null;
+
+  /**
+   * goOnline makes sure the next connection goes to the real server rather than
+   * the offline one, so logins always end up there
+   */
+  constructor(networkManager: NetworkManager, goOnline: () => void) {
+    this.networkManager = networkManager;
+    this.goOnline = goOnline;
+
+    this.status = document.querySelector('.profile-status');
+    this.customizeStatus = document.querySelector('.customize-status');
+    this.loginForm = document.querySelector('.profile-login');
+    this.summary = document.querySelector('.profile-summary');
+    this.usernameInput = document.querySelector('#login-username');
+    this.colorOptions = document.querySelector('.color-options');
+    this.weaponOptions = document.querySelector('.model-options');
+
+    this.networkManager.setProfileToken(localStorage.getItem(TOKEN_STORAGE_KEY));
+    this.networkManager.on('profileChanged', (profile: PlayerProfile | null) => this.handleProfileChanged(profile));
+
+    this.setupButtons();
+    this.renderOptions();
+    this.render(null);
+  }
+
+  /**
+   * Load the profile we logged in to last time, which means connecting to the server
+   */
+  public async restore(): Promise<void> {
+    if (!this.networkManager.getProfileToken() || this.networkManager.isConnectedToServer()) return;
+
+    this.setStatus('Loading profile...');
+
+    try {
+      await this.connect();
+    } catch (error) {
+      this.setStatus('Server unavailable, playing as a guest');
+    }
+  }
+
+  private setupButtons(): void {
+    document.getElementById('login-button')?.addEventListener('click', async () => {
+      const username = this.usernameInput?.value.trim().slice(0, 32);
+      if (!username) {
+        this.setStatus('Pick a callsign first');
+        return;
+      }
+
+      this.setStatus('Logging in...');
+
+      try {
+        await this.connect();
+      } catch (error) {
+        this.setStatus('Server unavailable');
+        return;
+      }
+
+      this.networkManager.login(username);
+    });
+
+    document.getElementById('logout-button')?.addEventListener('click', () => {
+      this.networkManager.logout();
+      localStorage.removeItem(TOKEN_STORAGE_KEY);
+      this.setStatus('');
+    });
+  }
+
+  private async connect(): Promise<void> {
+    if (this.networkManager.isConnectedToServer()) return;
+
+    this.goOnline();
+    await this.networkManager.connect();
+  }
+
+  private handleProfileChanged(profile: PlayerProfile | null): void {
+    const token = this.networkManager.getProfileToken();
+
+    if (profile && token) {
+      localStorage.setItem(TOKEN_STORAGE_KEY, token);
+      this.setStatus('');
+    } else if (token && this.networkManager.isConnectedToServer()) {
+      // Keep the token; it may belong to a server we're not connected to right now
+      this.setStatus('Saved profile not found on this server');
+    }
+
+    this.render(profile);
+  }
+
+  /**
+   * Build the customize screen's color and weapon choices
+   */
+  private renderOptions(): void {
+    if (this.colorOptions) {
+      this.colorOptions.innerHTML = '';
+
+      TANK_COLORS.forEach(color => {
+        const option = document.createElement('div');
+        option.className = 'color-option';
+        option.dataset.color = String(color);
+        option.style.backgroundColor = `#${color.toString(16).padStart(6, '0')}`;
+        option.addEventListener('click', () => this.customize({ color }));
+        this.colorOptions!.appendChild(option);
+      });
+    }
+
+    if (this.weaponOptions) {
+      this.weaponOptions.innerHTML = '';
+
+      WEAPON_IDS.forEach(id => {
+        const option = document.createElement('div');
+        option.className = 'model-option';
+        option.dataset.weapon = id;
+        option.textContent = WEAPONS[id].name;
+        option.addEventListener('click', () => this.customize({ loadout: id }));
+        this.weaponOptions!.appendChild(option);
+      });
+    }
+  }
+
+  private customize(changes: UpdateProfileRequest): void {
+    if (!this.networkManager.getProfile()) {
+      this.setCustomizeStatus('Log in from the main menu to customize your tank');
+      return;
+    }
+
+    if (!this.networkManager.isConnectedToServer()) {
+      this.setCustomizeStatus('Not connected to the server');
+      return;
+    }
+
+    // The server answers with the updated profile
+    this.setCustomizeStatus('');
+    this.networkManager.updateProfile(changes);
+  }
+
+  private render(profile: PlayerProfile | null): void {
+    this.loginForm?.classList.toggle('hidden', !!profile);
+    this.summary?.classList.toggle('hidden', !profile);
+
+    if (profile) {
+      const { stats } = profile;
+      const name = this.summary?.querySelector('.profile-name');
+      const statsText = this.summary?.querySelector('.profile-stats');
+
+      if (name) name.textContent = profile.username;
+      if (statsText) {
+        statsText.textContent = `${stats.kills} kills, ${stats.deaths} deaths, ${stats.matchesPlayed} matches`;
+      }
+    }
+
+    // Guests get the default tank
+    this.colorOptions?.querySelectorAll<HTMLElement>('.color-option').forEach(option => {
+      option.classList.toggle('selected', Number(option.dataset.color) === (profile?.color ?? DEFAULT_TANK_COLOR));
+    });
+    this.weaponOptions?.querySelectorAll<HTMLElement>('.model-option').forEach(option => {
+      option.classList.toggle('selected', option.dataset.weapon === (profile?.loadout ?? DEFAULT_WEAPON));
+    });
+  }
+
+  private setStatus(message: string): void {
+    if (this.status) {
+      this.status.textContent = message;
+    }
+  }
+
+  private setCustomizeStatus(message: string): void {
+    if (this.customizeStatus) {
+      this.customizeStatus.textContent = message;
+    }
+  }
+}
@@ -1,11 +1,43 @@
 import { EventEmitter } from '../utils/EventEmitter';
+import { MatchEndedMessage, ChatMessage, TeamScore } from '../../shared/protocol';
+import { REPLAY_SPEEDS } from '../core/ReplayPlayer';
+import { SHELLS, SHELL_IDS, ShellId, ShellLoadout } from '../../shared/Weapons';
+import { TEAMS, TeamId } from '../../shared/Teams';
+import { ArmorZone, HitResult } from '../../shared/Armor';
+import { MODULES, TANK_MODULES, TankModule, ModuleHealth } from '../../shared/Modules';
+import { PICKUPS, PickupType } from '../../shared/Pickups';
+
+// How long the result of a hit stays under the crosshair (ms)
+const SHOT_RESULT_DURATION = 1500;
+
+const SHOT_RESULT_TEXT: Record<HitResult, string> = {
+  penetrated: 'PENETRATED',
+  bounced: 'RICOCHET',
+  nonPenetrating: 'NO PENETRATION'
+};
+
+const MODULE_ICONS: Record<TankModule, string> = {
+  tracks: 'TRK',
+  turretRing: 'TUR',
+  engine: 'ENG',
+  gun: 'GUN'
+};
 
 export class UIManager extends EventEmitter {
   private healthBar: HTMLElement | null = null;
   private healthText: HTMLElement | null = null;
   private ammoCount: HTMLElement | null = null;
   private ammoMax: HTMLElement | null = null;
+  private ammoType: HTMLElement | null = null;
+  private shellList: HTMLElement | null = null;
+  private moduleStatus: HTMLElement | null = null;
+  private effectTimers: HTMLElement | null = null;
+  private teamScores: HTMLElement | null = null;
+  private rangeFinder: HTMLElement | null = null;
+  private shotResult: HTMLElement | null = null;
+  private shotResultTimer: ReturnType<typeof setTimeout> | null = null;
   private reloadIndicator: HTMLElement | null = null;
+  private matchClock: HTMLElement | null = null;
   private killFeed: HTMLElement | null = null;
   private chatMessages: HTMLElement | null = null;
   private chatInput: HTMLInputElement | null = null;
@@ -15,6 +47,11 @@ export class UIManager extends EventEmitter {
   private invertMouseXCheckbox: HTMLInputElement | null = null;
   private invertMouseYCheckbox: HTMLInputElement | null = null;
   private debugPanel: HTMLElement | null = null;
+  private replayPauseButton: HTMLButtonElement | null = null;
+  private replaySeek: HTMLInputElement | null = null;
+  private replayTime: HTMLElement | null = null;
+  private replaySpeed: HTMLSelectElement | null = null;
+  private isScrubbing: boolean = false;
   private debugEnabled: boolean = true; // Always enabled by default
 
   constructor() {
@@ -30,7 +67,15 @@ export class UIManager extends EventEmitter {
     this.healthText = document.querySelector('.health-text');
     this.ammoCount = document.querySelector('.ammo-count');
     this.ammoMax = document.querySelector('.ammo-max');
+    this.ammoType = document.querySelector('.ammo-type');
+    this.shellList = document.querySelector('.shell-list');
+    this.moduleStatus = document.querySelector('.module-status');
+    this.effectTimers = document.querySelector('.effect-timers');
+    this.teamScores = document.querySelector('.team-scores');
+    this.rangeFinder = document.querySelector('.range-finder');
+    this.shotResult = document.querySelector('.shot-result');
     this.reloadIndicator = document.querySelector('.reload-indicator');
+    this.matchClock = document.querySelector('.match-clock');
     this.killFeed = document.querySelector('.kill-feed');
     this.chatMessages = document.querySelector('.chat-messages');
     this.chatInput = document.querySelector('.chat-input');
@@ -63,6 +108,37 @@ export class UIManager extends EventEmitter {
 
     // Setup settings UI
     this.initializeSettings();
+
+    this.initializeReplayControls();
+  }
+
+  private initializeReplayControls(): void {
+    this.replayPauseButton = document.getElementById('replay-pause-button') as HTMLButtonElement | null;
+    this.replaySeek = document.getElementById('replay-seek') as HTMLInputElement | null;
+    this.replayTime = document.querySelector('.replay-time');
+    this.replaySpeed = document.getElementById('replay-speed') as HTMLSelectElement | null;
+
+    this.replayPauseButton?.addEventListener('click', () => this.emit('replayTogglePause'));
+
+    if (this.replaySeek) {
+      // Don't move the slider out from under the player while they drag it
+      this.replaySeek.addEventListener('pointerdown', () => this.isScrubbing = true);
+      this.replaySeek.addEventListener('pointerup', () => this.isScrubbing = false);
+      this.replaySeek.addEventListener('input', () => this.emit('replaySeek', Number(this.replaySeek!.value)));
+    }
+
+    if (this.replaySpeed) {
+      this.replaySpeed.innerHTML = '';
+
+      REPLAY_SPEEDS.forEach(speed => {
+        const option = document.createElement('option');
+        option.value = String(speed);
+        option.textContent = `${speed}x`;
+        this.replaySpeed!.appendChild(option);
+      });
+
+      this.replaySpeed.addEventListener('change', () => this.emit('replaySpeed', Number(this.replaySpeed!.value)));
+    }
   }
 
   public updateHealth(health: number): void {
@@ -84,7 +160,11 @@ export class UIManager extends EventEmitter {
     }
   }
 
-  public updateAmmo(ammo: number, maxAmmo: number): void {
+  /**
+   * Show the magazine of the selected shell, and what's left of every shell with
+   * the key that selects it
+   */
+  public updateAmmo(shell: ShellId, ammo: number, maxAmmo: number, loadout: Readonly<ShellLoadout>): void {
     if (this.ammoCount) {
       this.ammoCount.textContent = ammo.toString();
     }
@@ -92,6 +172,128 @@ export class UIManager extends EventEmitter {
     if (this.ammoMax) {
       this.ammoMax.textContent = `/${maxAmmo}`;
     }
+
+    if (this.ammoType) {
+      this.ammoType.textContent = SHELLS[shell].name;
+    }
+
+    if (this.shellList) {
+      this.shellList.innerHTML = '';
+
+      SHELL_IDS.forEach((id, index) => {
+        const entry = document.createElement('div');
+        entry.className = 'shell-entry';
+        entry.classList.toggle('selected', id === shell);
+        entry.classList.toggle('empty', loadout[id] === 0);
+        entry.textContent = `${index + 1} ${SHELLS[id].name} ${loadout[id]}`;
+        this.shellList!.appendChild(entry);
+      });
+    }
+  }
+
+  /**
+   * Show how each module is holding up, and how to fix broken ones or how long
+   * until they're fixed
+   */
+  public updateModules(health: Readonly<ModuleHealth>, repairTimeLeft: number | null): void {
+    if (!this.moduleStatus) return;
+
+    this.moduleStatus.innerHTML = '';
+    let anyBroken = false;
+
+    TANK_MODULES.forEach(module => {
+      const icon = document.createElement('div');
+      const broken = health[module] <= 0;
+      anyBroken = anyBroken || broken;
+
+      icon.className = 'module-icon';
+      icon.classList.toggle('worn', !broken && health[module] < MODULES[module].health);
+      icon.classList.toggle('broken', broken);
+      icon.classList.toggle('repairing', broken && repairTimeLeft !== null);
+      icon.textContent = MODULE_ICONS[module];
+      icon.title = MODULES[module].name;
+      this.moduleStatus!.appendChild(icon);
+    });
+
+    if (anyBroken) {
+      const repair = document.createElement('span');
+      repair.className = 'module-repair';
+      repair.textContent = repairTimeLeft === null ? 'X: REPAIR' : `REPAIRING ${Math.ceil(repairTimeLeft)}s`;
+      this.moduleStatus.appendChild(repair);
+    }
+  }
+
+  /**
+   * Show the pickup effects under way, each with the seconds it has left
+   */
+  public updateEffects(effects: ReadonlyMap<PickupType, number>): void {
+    if (!this.effectTimers) return;
+
+    this.effectTimers.innerHTML = '';
+    this.effectTimers.classList.toggle('hidden', effects.size === 0);
+
+    effects.forEach((timeLeft, effect) => {
+      const timer = document.createElement('div');
+      timer.className = 'effect-timer';
+      timer.style.color = toCssColor(PICKUPS[effect].color);
+      timer.textContent = `${PICKUPS[effect].name.toUpperCase()} ${Math.ceil(timeLeft)}s`;
+      this.effectTimers!.appendChild(timer);
+    });
+  }
+
+  /**
+   * Show how far away the loaded shell would land, or dashes if it wouldn't come
+   * down before it's spent
+   */
+  public updateRange(distance: number | null): void {
+    if (this.rangeFinder) {
+      this.rangeFinder.textContent = distance === null ? 'RANGE ---' : `RANGE ${Math.round(distance)}`;
+    }
+  }
+
+  /**
+   * Show what our last shell did to the tank it struck, and which armor it met
+   */
+  public showShotResult(result: HitResult, zone: ArmorZone): void {
+    if (!this.shotResult) return;
+
+    this.shotResult.textContent = `${SHOT_RESULT_TEXT[result]} - ${zone.toUpperCase()}`;
+    this.shotResult.className = `shot-result shot-${result}`;
+
+    if (this.shotResultTimer) clearTimeout(this.shotResultTimer);
+    this.shotResultTimer = setTimeout(() => {
+      this.shotResult?.classList.add('hidden');
+      this.shotResultTimer = null;
+    }, SHOT_RESULT_DURATION);
+  }
+
+  /**
+   * Show each team's kills, ours first; hidden in modes without teams
+   */
+  public updateTeamScores(scores: TeamScore[], localTeam: TeamId | null): void {
+    if (!this.teamScores) return;
+
+    this.teamScores.innerHTML = '';
+    this.teamScores.classList.toggle('hidden', scores.length === 0);
+
+    const ordered = [...scores].sort((a, b) => Number(b.team === localTeam) - Number(a.team === localTeam));
+    ordered.forEach(score => {
+      const entry = document.createElement('span');
+      entry.className = 'team-score';
+      entry.style.color = toCssColor(TEAMS[score.team].color);
+      entry.textContent = `${TEAMS[score.team].name} ${score.kills}`;
+      this.teamScores!.appendChild(entry);
+    });
+  }
+
+  /**
+   * Show how long the match has been running
+   * @param seconds Match time in seconds
+   */
+  public updateMatchClock(seconds: number): void {
+    if (!this.matchClock) return;
+
+    this.matchClock.textContent = formatDuration(seconds);
   }
 
   public showReloadIndicator(): void {
@@ -127,19 +329,19 @@ export class UIManager extends EventEmitter {
     }, 5000);
   }
 
-  public addChatMessage(username: string, message: string): void {
+  public addChatMessage(message: ChatMessage, localPlayerId: string): void {
     if (!this.chatMessages) return;
 
     const chatMessage = document.createElement('div');
-    chatMessage.className = 'chat-message';
+    chatMessage.className = `chat-message chat-${message.channel}`;
 
     const usernameSpan = document.createElement('span');
     usernameSpan.className = 'chat-username';
-    usernameSpan.textContent = username + ': ';
+    usernameSpan.textContent = formatChatSender(message, localPlayerId);
 
     const messageSpan = document.createElement('span');
     messageSpan.className = 'chat-text';
-    messageSpan.textContent = message;
+    messageSpan.textContent = message.message;
 
     chatMessage.appendChild(usernameSpan);
     chatMessage.appendChild(messageSpan);
@@ -150,6 +352,12 @@ export class UIManager extends EventEmitter {
     this.chatMessages.scrollTop = this.chatMessages.scrollHeight;
   }
 
+  public clearChat(): void {
+    if (this.chatMessages) {
+      this.chatMessages.innerHTML = '';
+    }
+  }
+
   public toggleChat(): void {
     if (!this.chatContainer) return;
 
@@ -188,6 +396,146 @@ export class UIManager extends EventEmitter {
     }, 1000);
   }
 
+  /**
+   * Show the connection lost overlay. The menu button is only offered once
+   * the session can't be restored.
+   */
+  public showConnectionLost(message: string, canLeave: boolean): void {
+    const overlay = document.getElementById('connection-lost');
+    const text = document.querySelector('.connection-lost-message');
+    const button = document.getElementById('connection-menu-button');
+
+    if (text) {
+      text.textContent = message;
+    }
+    button?.classList.toggle('hidden', !canLeave);
+    overlay?.classList.add('active');
+  }
+
+  public hideConnectionLost(): void {
+    document.getElementById('connection-lost')?.classList.remove('active');
+  }
+
+  /**
+   * Swap the player HUD for the spectator controls
+   */
+  public setSpectating(spectating: boolean): void {
+    document.getElementById('game-ui')?.classList.toggle('spectating', spectating);
+    document.querySelector('.spectator-bar')?.classList.toggle('hidden', !spectating);
+  }
+
+  /**
+   * Show who the spectator camera is following, or null for the free camera
+   */
+  public updateSpectatorTarget(username: string | null): void {
+    const target = document.querySelector('.spectator-target');
+    if (target) {
+      target.textContent = username ? `Watching ${username}` : 'Free camera';
+    }
+  }
+
+  /**
+   * Show the replay controls along with the spectator ones
+   */
+  public setReplaying(replaying: boolean): void {
+    document.querySelector('.replay-bar')?.classList.toggle('hidden', !replaying);
+    this.isScrubbing = false;
+  }
+
+  /**
+   * @param time How far into the replay it is (ms)
+   * @param duration Length of the replay (ms)
+   */
+  public updateReplayControls(time: number, duration: number, paused: boolean, speed: number): void {
+    if (this.replayPauseButton) {
+      this.replayPauseButton.textContent = paused ? 'PLAY' : 'PAUSE';
+    }
+
+    if (this.replaySeek && !this.isScrubbing) {
+      this.replaySeek.max = String(duration);
+      this.replaySeek.value = String(time);
+    }
+
+    if (this.replayTime) {
+      this.replayTime.textContent = `${formatDuration(time / 1000)} / ${formatDuration(duration / 1000)}`;
+    }
+
+    if (this.replaySpeed && document.activeElement !== this.replaySpeed) {
+      this.replaySpeed.value = String(speed);
+    }
+  }
+
+  public showScoreboard(players: string[], spectators: number): void {
+    const list = document.querySelector('.scoreboard-players');
+    if (list) {
+      list.innerHTML = '';
+
+      players.forEach(username => {
+        const entry = document.createElement('div');
+        entry.textContent = username;
+        list.appendChild(entry);
+      });
+    }
+
+    const spectatorCount = document.querySelector('.scoreboard-spectators');
+    if (spectatorCount) {
+      spectatorCount.textContent = spectators === 0
+        ? 'No spectators'
+        : `${spectators} spectator${spectators === 1 ? '' : 's'} watching`;
+    }
+
+    document.querySelector('.scoreboard')?.classList.remove('hidden');
+  }
+
+  public hideScoreboard(): void {
+    document.querySelector('.scoreboard')?.classList.add('hidden');
+  }
+
+  /**
+   * Show the final scores once the match is over
+   */
+  public showMatchResults(result: MatchEndedMessage, localPlayerId: string): void {
+    const winner = result.scores.find(score => score.id === result.winnerId);
+    const localTeam = result.scores.find(score => score.id === localPlayerId)?.team;
+    const winnerText = document.querySelector('.match-winner');
+    if (winnerText && result.winningTeam) {
+      winnerText.textContent = result.winningTeam === localTeam
+        ? 'Your team wins!'
+        : `${TEAMS[result.winningTeam].name} team wins`;
+    } else if (winnerText) {
+      winnerText.textContent = result.winnerId === localPlayerId
+        ? 'You win!'
+        : `${winner?.username || 'Someone'} wins`;
+    }
+
+    const list = document.querySelector('.match-scores');
+    if (list) {
+      list.innerHTML = '';
+
+      result.scores.forEach(score => {
+        const entry = document.createElement('div');
+        entry.className = score.id === localPlayerId ? 'match-score local' : 'match-score';
+
+        const name = document.createElement('span');
+        name.textContent = score.username;
+        if (score.team) name.style.color = toCssColor(TEAMS[score.team].color);
+
+        const stats = document.createElement('span');
+        stats.textContent = `${score.kills} kills - ${score.deaths} deaths`;
+
+        entry.appendChild(name);
+        entry.appendChild(stats);
+        list.appendChild(entry);
+      });
+    }
+
+    document.getElementById('match-over')?.classList.add('active');
+  }
+
+  public hideMatchResults(): void {
+    document.getElementById('match-over')?.classList.remove('active');
+  }
+
   public addNotification(message: string): void {
     // Create notification
     const notification = document.createElement('div');
@@ -542,6 +890,54 @@ export class UIManager extends EventEmitter {
           <span class="debug-value" id="debug-physics-contacts">0</span>
         </div>
       </div>
+      
+      <div class="debug-section">
+        <h3>Network</h3>
+        <div class="debug-row">
+          <span class="debug-label">Snapshots:</span>
+          <span class="debug-value" id="debug-snapshot-rate">offline</span>
+        </div>
+        <div class="debug-row">
+          <span class="debug-label">Snapshot Size:</span>
+          <span class="debug-value" id="debug-snapshot-size">0 B</span>
+        </div>
+        <div class="debug-row">
+          <span class="debug-label">Download:</span>
+          <span class="debug-value" id="debug-bytes-in">0 B/s</span>
+        </div>
+        <div class="debug-row">
+          <span class="debug-label">Upload:</span>
+          <span class="debug-value" id="debug-bytes-out">0 B/s</span>
+        </div>
+        <div class="debug-row">
+          <span class="debug-label">Ping:</span>
+          <span class="debug-value" id="debug-rtt">0 ms</span>
+        </div>
+        <div class="debug-row">
+          <span class="debug-label">Jitter:</span>
+          <span class="debug-value" id="debug-jitter">0 ms</span>
+        </div>
+        <div class="debug-row">
+          <span class="debug-label">Packet Loss:</span>
+          <span class="debug-value" id="debug-packet-loss">0%</span>
+        </div>
+        <div class="debug-row">
+          <span class="debug-label">Clock Offset:</span>
+          <span class="debug-value" id="debug-clock-offset">0 ms</span>
+        </div>
+        <div class="debug-row">
+          <span class="debug-label">Server Tick:</span>
+          <span class="debug-value" id="debug-server-tick">0</span>
+        </div>
+        <div class="debug-row">
+          <span class="debug-label">Server Tick Time:</span>
+          <span class="debug-value" id="debug-server-tick-time">0 ms</span>
+        </div>
+        <div class="debug-row">
+          <span class="debug-label">Dropped:</span>
+          <span class="debug-value" id="debug-dropped">0</span>
+        </div>
+      </div>
     `;
 
     // Add to DOM
@@ -585,6 +981,23 @@ export class UIManager extends EventEmitter {
     // Update physics info
     document.getElementById('debug-physics-bodies')!.textContent = debugData.physicsBodies.toString();
     document.getElementById('debug-physics-contacts')!.textContent = debugData.physicsContacts.toString();
+
+    // Update network info
+    if (debugData.network) {
+      document.getElementById('debug-snapshot-rate')!.textContent = `${debugData.network.snapshotRate.toFixed(0)} /s`;
+      document.getElementById('debug-snapshot-size')!.textContent = `${debugData.network.snapshotBytes} B`;
+      document.getElementById('debug-bytes-in')!.textContent = formatBytesPerSecond(debugData.network.bytesReceivedPerSecond);
+      document.getElementById('debug-bytes-out')!.textContent = formatBytesPerSecond(debugData.network.bytesSentPerSecond);
+      document.getElementById('debug-rtt')!.textContent = `${debugData.network.rtt.toFixed(0)} ms`;
+      document.getElementById('debug-jitter')!.textContent = `${debugData.network.jitter.toFixed(1)} ms`;
+      document.getElementById('debug-packet-loss')!.textContent = `${(debugData.network.packetLoss * 100).toFixed(0)}%`;
+      document.getElementById('debug-clock-offset')!.textContent = `${debugData.network.clockOffset.toFixed(0)} ms`;
+      document.getElementById('debug-server-tick')!.textContent = debugData.network.serverTick.toString();
+      document.getElementById('debug-server-tick-time')!.textContent = `${debugData.network.serverTickTime.toFixed(2)} ms`;
+      document.getElementById('debug-dropped')!.textContent = debugData.network.droppedMessages.toString();
+    } else {
+      document.getElementById('debug-snapshot-rate')!.textContent = 'offline';
+    }
   }
 
   public updateMiniMap(playerPosition: { x: number, z: number }, entities: any[]): void {
@@ -621,9 +1034,17 @@ export class UIManager extends EventEmitter {
 
           // Set marker type based on entity type
           if (entity.type === 'player') {
-            marker.className = 'mini-map-enemy';
+            marker.className = entity.ally ? 'mini-map-ally' : 'mini-map-enemy';
+
+            // In team modes, tanks show in their team's color
+            if (entity.team) {
+              marker.style.backgroundColor = toCssColor(TEAMS[entity.team as TeamId].color);
+            }
           } else if (entity.type === 'projectile') {
             marker.className = 'mini-map-projectile';
+          } else if (entity.type === 'pickup') {
+            marker.className = 'mini-map-pickup';
+            marker.style.backgroundColor = toCssColor(PICKUPS[entity.pickup as PickupType].color);
           } else {
             marker.className = 'mini-map-object';
           }
@@ -638,3 +1059,41 @@ export class UIManager extends EventEmitter {
     });
   }
 }
+
+/**
+ * CSS color for a 0xRRGGBB number
+ */
+function toCssColor(color: number): string {
+  return `#${color.toString(16).padStart(6, '0')}`;
+}
+
+/**
+ * Minutes and seconds, e.g. 3:07
+ */
+function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${(total % 60).toString().padStart(2, '0')}`;
+}
+
+function formatBytesPerSecond(bytes: number): string {
+  return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB/s` : `${bytes.toFixed(0)} B/s`;
+}
+
+/**
+ * The label in front of a chat message, saying who it's from and who heard it
+ */
+function formatChatSender(message: ChatMessage, localPlayerId: string): string {
+  switch (message.channel) {
+    case 'system':
+      return '';
+    case 'team':
+      return `[Team] ${message.username}: `;
+    case 'whisper':
+      return message.id === localPlayerId
+        ? `[To ${message.to}] `
+        : `[From ${message.username}] `;
+    default:
+      return `${message.username}: `;
+  }
+}
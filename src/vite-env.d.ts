@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SERVER_URL?: string;
+  readonly VITE_SIMULATED_LATENCY?: string;
+  readonly VITE_SIMULATED_JITTER?: string;
+  readonly VITE_SIMULATED_LOSS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
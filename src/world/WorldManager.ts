@@ -3,6 +3,8 @@ import { World, Material } from 'cannon-es';
 import { AssetManager } from '../core/AssetManager';
 import { Terrain } from './Terrain';
 import { WorldObject } from './WorldObject';
+import { SpawnArea, randomSpawnPoint } from '../../shared/Teams';
+import { MAP_SIZE, SPAWN_MARGIN } from '../../shared/Spawns';
 
 export class WorldManager {
   private scene: THREE.Scene;
@@ -24,7 +26,7 @@ export class WorldManager {
   public async generateWorld(): Promise<void> {
     // Create terrain
     this.terrain = new Terrain({
-      size: 1000,
+      size: MAP_SIZE,
       resolution: 128,
       maxHeight: 50,
       scene: this.scene,
@@ -159,12 +161,11 @@ export class WorldManager {
   private generateSpawnPoints(): void {
     // Generate spawn points around the map
     const numSpawnPoints = 10;
-    const mapSize = 1000;
     const margin = 100;
     
     for (let i = 0; i < numSpawnPoints; i++) {
-      const x = Math.random() * (mapSize - margin * 2) - (mapSize / 2 - margin);
-      const z = Math.random() * (mapSize - margin * 2) - (mapSize / 2 - margin);
+      const x = Math.random() * (MAP_SIZE - margin * 2) - (MAP_SIZE / 2 - margin);
+      const z = Math.random() * (MAP_SIZE - margin * 2) - (MAP_SIZE / 2 - margin);
       
       let y = 0;
       if (this.terrain) {
@@ -177,11 +178,8 @@ export class WorldManager {
   }
   
   private getRandomPosition(): THREE.Vector3 {
-    const mapSize = 1000;
-    const margin = 50;
-    
-    const x = Math.random() * (mapSize - margin * 2) - (mapSize / 2 - margin);
-    const z = Math.random() * (mapSize - margin * 2) - (mapSize / 2 - margin);
+    const x = Math.random() * (MAP_SIZE - SPAWN_MARGIN * 2) - (MAP_SIZE / 2 - SPAWN_MARGIN);
+    const z = Math.random() * (MAP_SIZE - SPAWN_MARGIN * 2) - (MAP_SIZE / 2 - SPAWN_MARGIN);
     
     return new THREE.Vector3(x, 0, z);
   }
@@ -203,6 +201,15 @@ export class WorldManager {
     return this.spawnPoints[index].clone();
   }
   
+  /**
+   * Random point in a team's spawn area, on top of the terrain
+   */
+  public getSpawnPositionIn(area: SpawnArea): THREE.Vector3 {
+    const { x, z } = randomSpawnPoint(area);
+    
+    return new THREE.Vector3(x, this.getTerrainHeightAt(x, z) + 2, z); // Add offset to prevent sinking
+  }
+  
   public getTerrainHeightAt(x: number, z: number): number {
     if (this.terrain) {
       return this.terrain.getHeightAt(x, z);
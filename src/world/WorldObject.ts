@@ -195,6 +195,10 @@ export class WorldObject {
       // Add custom properties to the physics body
       this.physicsBody.type = BODY_TYPES.STATIC;
       this.physicsBody.id = Number(this.id);
+      this.physicsBody.userData = {
+        type: 'obstacle',
+        id: this.id
+      };
 
       // Add to physics world
       this.physicsWorld.addBody(this.physicsBody);